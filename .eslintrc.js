@@ -16,6 +16,28 @@ module.exports = {
         'no-throw-literal': 'warn',
         'semi': 'off',
     },
+    overrides: [
+        {
+            // The rule logic also runs in plain Node, and reaches the editor through src/core/host.ts
+            files: [
+                'src/core/**',
+                'src/cli/**',
+                'src/mcp/**',
+                'src/models/**',
+                'src/stores/**',
+                'src/test/unit/**',
+                'src/test/ruleFixtures.ts',
+                'src/ruleManager.ts',
+                'src/services/{completionPrompt,pendingWriteQueue,promptComposer,promptTemplates,ruleHistoryService,ruleImportService,ruleOrderingService,ruleSyncService,templateSettings}.ts',
+                'src/utils/{configValidator,events,fileWatcher,logger,ruleCondition,validation,workspacePaths}.ts'
+            ],
+            rules: {
+                'no-restricted-imports': ['error', {
+                    paths: [{ name: 'vscode', message: 'Use the host adapters from src/core/host.ts instead.' }]
+                }]
+            }
+        }
+    ],
     ignorePatterns: [
         'out',
         'dist',
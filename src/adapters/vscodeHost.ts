@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+import {
+    ActiveDocument,
+    ClipboardAdapter,
+    ConfigurationAdapter,
+    HostFolder,
+    RuleHost,
+    StateAdapter,
+    WorkspaceAdapter
+} from '../core/host';
+
+/**
+ * Host adapters backed by the VS Code API, for the extension
+ */
+export class VsCodeHost implements RuleHost {
+    readonly workspace: WorkspaceAdapter = {
+        getFolders: () => (vscode.workspace.workspaceFolders || []).map(toHostFolder),
+        onDidChangeFolders: listener => vscode.workspace.onDidChangeWorkspaceFolders(event => listener({
+            added: event.added.map(toHostFolder),
+            removed: event.removed.map(toHostFolder)
+        })),
+        getActiveDocument: (): ActiveDocument | undefined => {
+            const document = vscode.window.activeTextEditor?.document;
+            return document ? { location: document.uri, languageId: document.languageId } : undefined;
+        },
+        getOpenDocument: location => vscode.workspace.textDocuments
+            .find(document => document.uri.fsPath === location.fsPath),
+        containsFile: async (folder, pattern) => {
+            const files = await vscode.workspace.findFiles(
+                new vscode.RelativePattern(vscode.Uri.file(folder.fsPath), pattern), '**/node_modules/**', 1
+            );
+            return files.length > 0;
+        }
+    };
+
+    readonly configuration: ConfigurationAdapter = {
+        get: <T>(key: string) => vscode.workspace.getConfiguration('copilotMemory').get<T>(key),
+        onDidChange: listener => vscode.workspace.onDidChangeConfiguration(event => listener({
+            affects: key => event.affectsConfiguration(key ? `copilotMemory.${key}` : 'copilotMemory')
+        }))
+    };
+
+    readonly clipboard: ClipboardAdapter = vscode.env.clipboard;
+    readonly globalStoragePath: string;
+    readonly globalState: StateAdapter;
+    readonly workspaceState: StateAdapter;
+
+    constructor(context: vscode.ExtensionContext) {
+        this.globalStoragePath = context.globalStorageUri.fsPath;
+        this.globalState = context.globalState;
+        this.workspaceState = context.workspaceState;
+    }
+
+    isExtensionInstalled(extensionId: string): boolean {
+        return vscode.extensions.getExtension(extensionId) !== undefined;
+    }
+
+    showConfigurationErrors(message: string): void {
+        vscode.window.showErrorMessage(message, 'Open Settings').then(selection => {
+            if (selection === 'Open Settings') {
+                vscode.commands.executeCommand('workbench.action.openSettings', 'copilotMemory');
+            }
+        });
+    }
+}
+
+function toHostFolder(folder: vscode.WorkspaceFolder): HostFolder {
+    return { name: folder.name, fsPath: folder.uri.fsPath };
+}
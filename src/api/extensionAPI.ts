@@ -1,5 +1,12 @@
 import * as vscode from 'vscode';
-import { Rule } from '../ruleManager';
+import { RuleManager, Rule, RuleUpdate } from '../ruleManager';
+import { RuleRevision } from '../services/ruleHistoryService';
+import { parseRuleImport, summarizeImportPlan, RuleImportMode, RuleImportSummary } from '../services/ruleImportService';
+import { RuleStoreFactory } from '../stores/ruleStore';
+import { PromptComposer, ComposedRules } from '../services/promptComposer';
+import { RULE_LAYERS, RuleLayer, RuleScope } from '../constants';
+import { getWorkspaceRoot, validateGlobPattern } from '../utils/helpers';
+import { validateCondition } from '../utils/ruleCondition';
 
 /**
  * Public API interface for third-party extensions
@@ -8,10 +15,16 @@ export interface CopilotMemoryAPI {
     /**
      * Add a new rule programmatically
      */
-    addRule(ruleText: string, scope: 'global' | 'project' | 'language', options?: {
+    addRule(ruleText: string, scope: RuleScope, options?: {
         languageScope?: string;
         projectPath?: string;
+        pathPatterns?: string[];
+        customScope?: string;
+        condition?: string;
+        priority?: number;
+        supersedes?: string[];
         isActive?: boolean;
+        layer?: RuleLayer;
     }): Promise<string>; // Returns ruleId
 
     /**
@@ -19,25 +32,76 @@ export interface CopilotMemoryAPI {
      */
     removeRule(ruleId: string): Promise<boolean>;
 
+    /**
+     * Update the text or scope of an existing rule
+     */
+    updateRule(ruleId: string, updates: RuleUpdate): Promise<boolean>;
+
+    /**
+     * Activate or deactivate a rule by ID
+     */
+    setRuleActive(ruleId: string, isActive: boolean): Promise<boolean>;
+
+    /**
+     * Get the revision history of a rule, newest first
+     */
+    getRuleHistory(ruleId: string): Promise<RuleRevision[]>;
+
+    /**
+     * Import rules from an export object, a bare array of rules, or their JSON text
+     */
+    importRules(data: string | object, options?: {
+        mode?: RuleImportMode;
+        dryRun?: boolean;
+    }): Promise<RuleImportSummary>;
+
     /**
      * Get all rules matching criteria
      */
     getRules(filters?: {
-        scope?: 'global' | 'project' | 'language';
+        scope?: RuleScope;
         languageId?: string;
         projectPath?: string;
         isActive?: boolean;
+        layer?: RuleLayer;
     }): Promise<Rule[]>;
 
+    /**
+     * Get the layers rules can be added to, highest precedence first
+     */
+    getRuleLayers(): RuleLayer[];
+
     /**
      * Get active rules for current context
      */
-    getActiveRulesForContext(languageId?: string): Promise<string[]>;
+    getActiveRulesForContext(languageId?: string, documentUri?: vscode.Uri): Promise<string[]>;
+
+    /**
+     * Get the rules for a prompt within a token budget, and the rules left out to fit it
+     */
+    composeRules(options?: {
+        languageId?: string;
+        documentUri?: vscode.Uri;
+        tokenBudget?: number;
+    }): Promise<ComposedRules>;
 
     /**
      * Register a custom rule scope
      */
-    registerCustomScope(scopeName: string, validator: (context: any) => boolean): void;
+    registerCustomScope(scopeName: string, validator: CustomScopeValidator, options?: {
+        extensionId?: string;
+        description?: string;
+    }): vscode.Disposable;
+
+    /**
+     * Register a rule storage backend, selectable with copilotMemory.storageBackend
+     */
+    registerRuleStore(id: string, factory: RuleStoreFactory): vscode.Disposable;
+
+    /**
+     * Get the ID of the rule store in use
+     */
+    getStorageBackend(): string;
 
     /**
      * Subscribe to rule changes
@@ -87,20 +151,29 @@ export interface CustomScope {
     name: string;
     validator: CustomScopeValidator;
     description?: string;
+    /** Extension that registered the scope */
+    extensionId?: string;
 }
 
 /**
  * Extension API implementation
  */
 export class ExtensionAPI implements CopilotMemoryAPI {
-    private ruleManager: any; // Will be injected
-    private customScopes: Map<string, CustomScope> = new Map();
+    private ruleManager: RuleManager;
     private changeListeners: Set<(event: RuleChangeEvent) => void> = new Set();
     private extensionVersion: string;
+    private promptComposer: PromptComposer;
+    private ruleChangeSubscription: vscode.Disposable;
 
-    constructor(ruleManager: any, extensionVersion: string) {
+    constructor(ruleManager: RuleManager, promptComposer: PromptComposer, extensionVersion: string) {
         this.ruleManager = ruleManager;
+        this.promptComposer = promptComposer;
         this.extensionVersion = extensionVersion;
+
+        // Forward every rule change, whichever command or API call caused it
+        this.ruleChangeSubscription = ruleManager.onDidChangeRules(event => {
+            this.emitRuleChangeEvent(event.type, event.ruleId, event.rule);
+        });
     }
 
     /**
@@ -108,11 +181,17 @@ export class ExtensionAPI implements CopilotMemoryAPI {
      */
     async addRule(
         ruleText: string,
-        scope: 'global' | 'project' | 'language',
+        scope: RuleScope,
         options: {
             languageScope?: string;
             projectPath?: string;
+            pathPatterns?: string[];
+            customScope?: string;
+            condition?: string;
+            priority?: number;
+            supersedes?: string[];
             isActive?: boolean;
+            layer?: RuleLayer;
         } = {}
     ): Promise<string> {
         if (!ruleText || ruleText.trim().length === 0) {
@@ -128,25 +207,54 @@ export class ExtensionAPI implements CopilotMemoryAPI {
             throw new Error('languageScope is required for language-scoped rules');
         }
 
+        if (scope === 'path') {
+            this.validatePathPatterns(options.pathPatterns);
+        }
+
+        if (scope === 'custom') {
+            this.validateCustomScopeName(options.customScope);
+        }
+
+        if (options.condition) {
+            this.validateConditionExpression(options.condition);
+        }
+
+        if (options.priority !== undefined) {
+            this.validatePriority(options.priority);
+        }
+
+        if (options.supersedes !== undefined) {
+            await this.validateSupersedes(scope, options.supersedes);
+        }
+
         // For project scope, use current workspace or provided path
         let projectPath = options.projectPath;
         if (scope === 'project' && !projectPath) {
-            projectPath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+            projectPath = getWorkspaceRoot();
             if (!projectPath) {
                 throw new Error('No workspace folder available for project-scoped rule');
             }
         }
 
+        if (options.layer && !this.ruleManager.getRuleLayers().includes(options.layer)) {
+            throw new Error(`Rule layer is not available: ${options.layer}. Use one of: ${RULE_LAYERS.join(', ')}`);
+        }
+
         const ruleId = await this.ruleManager.addRule(
             ruleText,
             scope,
             options.languageScope,
-            projectPath
+            projectPath,
+            options.layer,
+            {
+                pathPatterns: options.pathPatterns,
+                customScope: options.customScope,
+                condition: options.condition,
+                priority: options.priority,
+                supersedes: options.supersedes
+            }
         );
 
-        // Emit change event
-        this.emitRuleChangeEvent('added', ruleId);
-
         return ruleId;
     }
 
@@ -160,21 +268,126 @@ export class ExtensionAPI implements CopilotMemoryAPI {
 
         try {
             await this.ruleManager.removeRule(ruleId);
-            this.emitRuleChangeEvent('removed', ruleId);
             return true;
         } catch (error) {
             return false;
         }
     }
 
+    /**
+     * Update the text or scope of an existing rule
+     */
+    async updateRule(ruleId: string, updates: RuleUpdate): Promise<boolean> {
+        if (!ruleId) {
+            throw new Error('Rule ID is required');
+        }
+
+        if (updates.ruleText !== undefined) {
+            if (updates.ruleText.trim().length === 0) {
+                throw new Error('Rule text cannot be empty');
+            }
+
+            if (updates.ruleText.length > 500) {
+                throw new Error('Rule text must be less than 500 characters');
+            }
+        }
+
+        if (updates.scope === 'language' && !updates.languageScope) {
+            throw new Error('languageScope is required for language-scoped rules');
+        }
+
+        if (updates.scope === 'path' || updates.pathPatterns !== undefined) {
+            this.validatePathPatterns(updates.pathPatterns);
+        }
+
+        if (updates.scope === 'custom' || updates.customScope !== undefined) {
+            this.validateCustomScopeName(updates.customScope);
+        }
+
+        if (updates.condition) {
+            this.validateConditionExpression(updates.condition);
+        }
+
+        if (updates.priority !== undefined) {
+            this.validatePriority(updates.priority);
+        }
+
+        if (updates.supersedes !== undefined) {
+            const rule = (await this.ruleManager.getRules()).find(r => r.ruleId === ruleId);
+            await this.validateSupersedes(updates.scope || rule?.scope, updates.supersedes);
+        }
+
+        // An empty condition removes it
+        if ('condition' in updates && !updates.condition) {
+            updates = { ...updates, condition: undefined };
+        }
+
+        // An empty list of superseded rules removes it
+        if ('supersedes' in updates && !updates.supersedes?.length) {
+            updates = { ...updates, supersedes: undefined };
+        }
+
+        try {
+            await this.ruleManager.updateRule(ruleId, updates);
+            return true;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    /**
+     * Activate or deactivate a rule by ID
+     */
+    async setRuleActive(ruleId: string, isActive: boolean): Promise<boolean> {
+        if (!ruleId) {
+            throw new Error('Rule ID is required');
+        }
+
+        try {
+            await this.ruleManager.setRuleActive(ruleId, isActive);
+            return true;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    /**
+     * Get the revision history of a rule, newest first
+     */
+    async getRuleHistory(ruleId: string): Promise<RuleRevision[]> {
+        if (!ruleId) {
+            throw new Error('Rule ID is required');
+        }
+
+        return this.ruleManager.getRuleHistory(ruleId);
+    }
+
+    /**
+     * Import rules from an export object, a bare array of rules, or their JSON text
+     */
+    async importRules(data: string | object, options: {
+        mode?: RuleImportMode;
+        dryRun?: boolean;
+    } = {}): Promise<RuleImportSummary> {
+        const incoming = parseRuleImport(data);
+        const plan = this.ruleManager.planImport(incoming, options.mode || 'merge');
+
+        if (options.dryRun) {
+            return summarizeImportPlan(plan);
+        }
+
+        return this.ruleManager.applyImport(plan);
+    }
+
     /**
      * Get all rules matching criteria
      */
     async getRules(filters: {
-        scope?: 'global' | 'project' | 'language';
+        scope?: RuleScope;
         languageId?: string;
         projectPath?: string;
         isActive?: boolean;
+        layer?: RuleLayer;
     } = {}): Promise<Rule[]> {
         const allRules = await this.ruleManager.getRules(filters.scope, filters.languageId);
 
@@ -187,21 +400,50 @@ export class ExtensionAPI implements CopilotMemoryAPI {
                 return false;
             }
 
+            if (filters.layer && rule.layer !== filters.layer) {
+                return false;
+            }
+
             return true;
         });
     }
 
+    /**
+     * Get the layers rules can be added to, highest precedence first
+     */
+    getRuleLayers(): RuleLayer[] {
+        return this.ruleManager.getRuleLayers();
+    }
+
     /**
      * Get active rules for current context
      */
-    async getActiveRulesForContext(languageId?: string): Promise<string[]> {
-        return this.ruleManager.getActiveRulesForContext(languageId);
+    async getActiveRulesForContext(languageId?: string, documentUri?: vscode.Uri): Promise<string[]> {
+        return this.ruleManager.getActiveRulesForContext(languageId, documentUri);
+    }
+
+    /**
+     * Get the rules for a prompt within a token budget, and the rules left out to fit it
+     */
+    async composeRules(options: {
+        languageId?: string;
+        documentUri?: vscode.Uri;
+        tokenBudget?: number;
+    } = {}): Promise<ComposedRules> {
+        if (options.tokenBudget !== undefined && (!Number.isFinite(options.tokenBudget) || options.tokenBudget < 0)) {
+            throw new Error('tokenBudget must be 0 (no limit) or a positive number');
+        }
+
+        return this.promptComposer.compose(options);
     }
 
     /**
      * Register a custom rule scope
      */
-    registerCustomScope(scopeName: string, validator: CustomScopeValidator): void {
+    registerCustomScope(scopeName: string, validator: CustomScopeValidator, options: {
+        extensionId?: string;
+        description?: string;
+    } = {}): vscode.Disposable {
         if (!scopeName || typeof scopeName !== 'string') {
             throw new Error('Scope name must be a non-empty string');
         }
@@ -210,18 +452,36 @@ export class ExtensionAPI implements CopilotMemoryAPI {
             throw new Error('Validator must be a function');
         }
 
-        // Prevent overriding built-in scopes
-        if (['global', 'project', 'language'].includes(scopeName)) {
-            throw new Error(`Cannot override built-in scope: ${scopeName}`);
-        }
-
-        this.customScopes.set(scopeName, {
+        return this.ruleManager.registerCustomScope({
             name: scopeName,
             validator,
-            description: `Custom scope: ${scopeName}`
+            description: options.description || `Custom scope: ${scopeName}`,
+            extensionId: options.extensionId
         });
     }
 
+    /**
+     * Register a rule storage backend, selectable with copilotMemory.storageBackend
+     */
+    registerRuleStore(id: string, factory: RuleStoreFactory): vscode.Disposable {
+        if (!id || typeof id !== 'string') {
+            throw new Error('Store ID must be a non-empty string');
+        }
+
+        if (typeof factory !== 'function') {
+            throw new Error('Store factory must be a function');
+        }
+
+        return this.ruleManager.registerStore(id, factory);
+    }
+
+    /**
+     * Get the ID of the rule store in use
+     */
+    getStorageBackend(): string {
+        return this.ruleManager.getStorageBackend();
+    }
+
     /**
      * Subscribe to rule changes
      */
@@ -248,21 +508,21 @@ export class ExtensionAPI implements CopilotMemoryAPI {
      * Check if MongoDB is connected
      */
     isMongoConnected(): boolean {
-        return this.ruleManager.getConnectionInfo?.()?.isMongoConnected || false;
+        return this.ruleManager.getConnectionInfo().isMongoConnected;
     }
 
     /**
      * Get available custom scopes
      */
     getCustomScopes(): CustomScope[] {
-        return Array.from(this.customScopes.values());
+        return this.ruleManager.getCustomScopes();
     }
 
     /**
      * Validate context against custom scope
      */
     validateCustomScopeContext(scopeName: string, context: any): boolean {
-        const scope = this.customScopes.get(scopeName);
+        const scope = this.ruleManager.getCustomScopes().find(s => s.name === scopeName);
         if (!scope) {
             return false;
         }
@@ -275,6 +535,75 @@ export class ExtensionAPI implements CopilotMemoryAPI {
         }
     }
 
+    /**
+     * Path rules need at least one valid glob pattern
+     */
+    private validatePathPatterns(patterns: string[] | undefined): void {
+        if (!Array.isArray(patterns) || patterns.length === 0) {
+            throw new Error('pathPatterns is required for path-scoped rules');
+        }
+
+        for (const pattern of patterns) {
+            const validation = validateGlobPattern(pattern);
+            if (!validation.isValid) {
+                throw new Error(`Invalid glob pattern "${pattern}": ${validation.error}`);
+            }
+        }
+    }
+
+    /**
+     * Custom rules need the name of a registered scope
+     */
+    private validateCustomScopeName(name: string | undefined): void {
+        if (!name) {
+            throw new Error('customScope is required for custom-scoped rules');
+        }
+
+        if (!this.ruleManager.getCustomScopes().some(scope => scope.name === name)) {
+            throw new Error(`Custom scope is not registered: ${name}`);
+        }
+    }
+
+    /**
+     * Conditions must parse before they are stored
+     */
+    private validateConditionExpression(condition: string): void {
+        const validation = validateCondition(condition);
+        if (!validation.isValid) {
+            throw new Error(validation.error);
+        }
+    }
+
+    /**
+     * Priorities order rules in prompts, so they must be finite numbers
+     */
+    private validatePriority(priority: number): void {
+        if (typeof priority !== 'number' || !Number.isFinite(priority)) {
+            throw new Error('priority must be a finite number');
+        }
+    }
+
+    /**
+     * Only non-global rules can supersede, and only existing global rules can be superseded
+     */
+    private async validateSupersedes(scope: RuleScope | undefined, supersedes: string[]): Promise<void> {
+        if (!Array.isArray(supersedes)) {
+            throw new Error('supersedes must be a list of rule IDs');
+        }
+        if (supersedes.length === 0) {
+            return;
+        }
+        if (scope === 'global') {
+            throw new Error('Global rules cannot supersede other rules');
+        }
+
+        const globalRuleIds = new Set((await this.ruleManager.getRules('global')).map(rule => rule.ruleId));
+        const unknown = supersedes.filter(ruleId => !globalRuleIds.has(ruleId));
+        if (unknown.length > 0) {
+            throw new Error(`supersedes can only list global rules: ${unknown.join(', ')}`);
+        }
+    }
+
     /**
      * Emit rule change event to all listeners
      */
@@ -299,7 +628,7 @@ export class ExtensionAPI implements CopilotMemoryAPI {
      * Dispose of all resources
      */
     dispose(): void {
+        this.ruleChangeSubscription.dispose();
         this.changeListeners.clear();
-        this.customScopes.clear();
     }
 }
@@ -0,0 +1,318 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { Rule } from '../ruleManager';
+import { RuleStore } from '../stores/ruleStore';
+import { JsonRuleStore } from '../stores/jsonRuleStore';
+import { STORAGE_CONSTANTS } from '../constants';
+import { sortRules } from '../services/ruleOrderingService';
+import { RuleHistoryService, RuleRevisionAction } from '../services/ruleHistoryService';
+import { RuleImportMode, applyRuleImport, parseRuleImport, planRuleImport, summarizeImportPlan } from '../services/ruleImportService';
+import { BUILT_IN_TEMPLATES, formatRuleLine, getBuiltInTemplate, renderTemplate } from '../services/promptTemplates';
+import { validateNewRule } from '../utils/validation';
+import { Logger } from '../utils/logger';
+
+/**
+ * Command line interface for managing rules without VS Code, against a .copilot-memory.json
+ * file or MongoDB. It uses the same rule stores and rule history as the extension.
+ */
+
+const USAGE = `Usage: copilot-memory <command> [options]
+
+Commands:
+  list                      List rules (--scope <scope>, --language <id>, --json)
+  add <rule text>           Add a rule (--scope global|project|language|path, --language <id>,
+                            --path <glob> (repeatable), --condition <expr>, --priority <n>)
+  rm <ruleId>...            Move rules to the trash
+  export                    Write rules as an export file (--out <file>, default stdout)
+  import <file>             Import an export file (--mode merge|replace|skip-duplicates, --dry-run)
+  render                    Print rules for a prompt or instructions file
+                            (--template ${BUILT_IN_TEMPLATES.map(template => template.name).join('|')}, --language <id>, --markers)
+
+Storage:
+  --file <path>             Rules file (default ./${STORAGE_CONSTANTS.localFileName})
+  --mongo <uri>             MongoDB connection string (or COPILOT_MEMORY_MONGODB_URI)
+  --verbose                 Log storage activity to stderr`;
+
+/** Options that take no value */
+const FLAGS = ['json', 'dry-run', 'markers', 'verbose', 'help'];
+
+const IMPORT_MODES: RuleImportMode[] = ['merge', 'replace', 'skip-duplicates'];
+
+interface ParsedArgs {
+    command: string | undefined;
+    positionals: string[];
+    options: Map<string, string[]>;
+}
+
+class UsageError extends Error {}
+
+/**
+ * Split arguments into the command, positional arguments and --options; options can repeat
+ */
+export function parseArgs(args: string[]): ParsedArgs {
+    const positionals: string[] = [];
+    const options = new Map<string, string[]>();
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (!arg.startsWith('--')) {
+            positionals.push(arg);
+            continue;
+        }
+
+        const [name, inlineValue] = arg.slice(2).split(/=(.*)/s, 2);
+        let value = inlineValue;
+        if (value === undefined) {
+            if (FLAGS.includes(name)) {
+                value = 'true';
+            } else if (i + 1 < args.length) {
+                value = args[++i];
+            } else {
+                throw new UsageError(`Missing value for --${name}`);
+            }
+        }
+        options.set(name, [...(options.get(name) || []), value]);
+    }
+
+    return { command: positionals.shift(), positionals, options };
+}
+
+/**
+ * Run a command against a store and return what to print; changes are recorded in the rule history
+ */
+export async function runCommand(store: RuleStore, parsed: ParsedArgs, history: RuleHistoryService): Promise<string> {
+    const option = (name: string) => parsed.options.get(name)?.slice(-1)[0];
+
+    switch (parsed.command) {
+        case 'list': {
+            const scope = option('scope');
+            const language = option('language');
+            const rules = (await listRules(store)).filter(rule =>
+                (!scope || rule.scope === scope) &&
+                (!language || rule.scope !== 'language' || rule.languageScope === language));
+
+            if (option('json')) {
+                return JSON.stringify(rules, null, 2);
+            }
+            return rules.length > 0 ? rules.map(formatRuleLine).join('\n') : 'No rules found.';
+        }
+
+        case 'add': {
+            const rule = createRule(parsed.positionals.join(' '), option, parsed.options.get('path') || []);
+            await store.create(rule);
+            await history.record('created', rule);
+            return `Added rule ${rule.ruleId}`;
+        }
+
+        case 'rm': {
+            if (parsed.positionals.length === 0) {
+                throw new UsageError('Give the IDs of the rules to remove');
+            }
+            const rules = await listRules(store);
+            for (const ruleId of parsed.positionals) {
+                if (!rules.some(rule => rule.ruleId === ruleId)) {
+                    throw new Error(`Rule not found: ${ruleId}`);
+                }
+            }
+            for (const ruleId of parsed.positionals) {
+                await trashRule(store, history, ruleId);
+            }
+            return `Moved ${parsed.positionals.length} rules to the trash`;
+        }
+
+        case 'export': {
+            const rules = await listRules(store);
+            const exportData = JSON.stringify({
+                exportedAt: new Date().toISOString(),
+                totalRules: rules.length,
+                rules
+            }, (key, value) => key === 'layer' ? undefined : value, 2);
+
+            const out = option('out');
+            if (!out) {
+                return exportData;
+            }
+            fs.writeFileSync(out, exportData);
+            return `Exported ${rules.length} rules to ${out}`;
+        }
+
+        case 'import': {
+            const file = parsed.positionals[0];
+            if (!file) {
+                throw new UsageError('Give the export file to import');
+            }
+            const mode = (option('mode') || 'merge') as RuleImportMode;
+            if (!IMPORT_MODES.includes(mode)) {
+                throw new UsageError(`--mode must be one of ${IMPORT_MODES.join(', ')}`);
+            }
+
+            const allRules = await store.list();
+            const plan = planRuleImport(
+                allRules.filter(rule => !rule.deletedAt),
+                parseRuleImport(fs.readFileSync(file, 'utf8')),
+                mode
+            );
+            const summary = option('dry-run')
+                ? summarizeImportPlan(plan)
+                : await applyRuleImport(plan, {
+                    hasRuleId: ruleId => allRules.some(rule => rule.ruleId === ruleId),
+                    insertRule: async rule => {
+                        await store.create(rule);
+                        await history.record('created', rule);
+                    },
+                    updateRule: (ruleId, updates) => updateRule(store, history, 'updated', ruleId, { ...updates, updatedAt: new Date() }),
+                    removeRule: ruleId => trashRule(store, history, ruleId)
+                });
+
+            return `${option('dry-run') ? 'Would import' : 'Imported'} (${mode}): ${summary.added} added, ` +
+                `${summary.updated} updated, ${summary.unchanged} unchanged, ${summary.skipped} skipped, ${summary.removed} removed`;
+        }
+
+        case 'render': {
+            const templateName = option('template') || 'markdown';
+            if (!BUILT_IN_TEMPLATES.some(template => template.name === templateName)) {
+                throw new UsageError(`--template must be one of ${BUILT_IN_TEMPLATES.map(template => template.name).join(', ')}`);
+            }
+
+            const language = option('language');
+            const rules = (await listRules(store)).filter(rule =>
+                rule.isActive && (!language || rule.scope !== 'language' || rule.languageScope === language));
+
+            return renderTemplate(getBuiltInTemplate(templateName), rules, {
+                language,
+                project: path.basename(process.cwd()),
+                withMarkers: Boolean(option('markers'))
+            });
+        }
+
+        default:
+            throw new UsageError(parsed.command ? `Unknown command: ${parsed.command}` : 'Give a command');
+    }
+}
+
+/**
+ * Rules that are not in the trash, in prompt order
+ */
+async function listRules(store: RuleStore): Promise<Rule[]> {
+    return sortRules((await store.list()).filter(rule => !rule.deletedAt));
+}
+
+/**
+ * Update a rule and record the revision, as the extension does for its own changes
+ */
+async function updateRule(
+    store: RuleStore,
+    history: RuleHistoryService,
+    action: RuleRevisionAction,
+    ruleId: string,
+    updates: Partial<Rule>
+): Promise<void> {
+    await store.update(ruleId, updates);
+    const rule = await store.get(ruleId);
+    if (rule) {
+        await history.record(action, rule);
+    }
+}
+
+async function trashRule(store: RuleStore, history: RuleHistoryService, ruleId: string): Promise<void> {
+    const now = new Date();
+    await updateRule(store, history, 'deleted', ruleId, { deletedAt: now, updatedAt: now });
+}
+
+/**
+ * Build a new rule from the add command's text and options
+ */
+function createRule(text: string, option: (name: string) => string | undefined, pathPatterns: string[]): Rule {
+    const validation = validateNewRule({
+        ruleText: text,
+        scope: option('scope'),
+        languageScope: option('language'),
+        pathPatterns,
+        condition: option('condition')
+    });
+    if (!validation.rule) {
+        throw new UsageError(validation.error);
+    }
+
+    const priorityOption = option('priority');
+    const priority = priorityOption === undefined ? undefined : Number(priorityOption);
+    if (priority !== undefined && !Number.isFinite(priority)) {
+        throw new UsageError('--priority must be a number');
+    }
+
+    const now = new Date();
+    return {
+        ruleId: crypto.randomUUID(),
+        ...validation.rule,
+        projectPath: validation.rule.scope === 'project' ? process.cwd() : undefined,
+        priority,
+        createdAt: now,
+        updatedAt: now,
+        isActive: true
+    };
+}
+
+
+/**
+ * Open the rules file or MongoDB, with the rule history the extension keeps for it: revisions live next to
+ * the rules file, or in MongoDB next to the rules
+ */
+async function openStore(parsed: ParsedArgs): Promise<{ store: RuleStore; history: RuleHistoryService }> {
+    const mongoUri = parsed.options.get('mongo')?.slice(-1)[0] || process.env.COPILOT_MEMORY_MONGODB_URI;
+    if (mongoUri) {
+        const store = new (await import('../stores/mongoRuleStore')).MongoRuleStore(mongoUri, true);
+        await store.initialize();
+
+        const history = new RuleHistoryService(path.resolve(STORAGE_CONSTANTS.historyFileName));
+        const connection = store.getConnection();
+        if (connection) {
+            history.setModel((await import('../models/ruleRevisionSchema')).createRuleRevisionModel(connection));
+        }
+        return { store, history };
+    }
+
+    const store = new JsonRuleStore(path.resolve(parsed.options.get('file')?.slice(-1)[0] || STORAGE_CONSTANTS.localFileName));
+    await store.initialize();
+    return { store, history: new RuleHistoryService(path.join(path.dirname(store.filePath), STORAGE_CONSTANTS.historyFileName)) };
+}
+
+async function main(args: string[]): Promise<number> {
+    let store: RuleStore | undefined;
+    try {
+        const parsed = parseArgs(args);
+        if (parsed.options.has('help') || !parsed.command) {
+            console.log(USAGE);
+            return parsed.command || parsed.options.has('help') ? 0 : 1;
+        }
+
+        // stdout is kept for command output, e.g. when piping an export
+        Logger.setOutput(parsed.options.has('verbose') ? { appendLine: line => console.error(line) } : undefined, false);
+
+        const storage = await openStore(parsed);
+        store = storage.store;
+        console.log(await runCommand(store, parsed, storage.history));
+        return 0;
+    } catch (error) {
+        console.error(`copilot-memory: ${(error as Error).message}`);
+        if (error instanceof UsageError) {
+            console.error('Run copilot-memory --help for usage.');
+        }
+        return 1;
+    } finally {
+        await store?.dispose?.();
+    }
+}
+
+if (require.main === module) {
+    // Setting the exit code instead of exiting lets piped output finish writing
+    main(process.argv.slice(2))
+        .then(code => {
+            process.exitCode = code;
+        })
+        .catch(error => {
+            console.error(`copilot-memory: ${(error as Error).message}`);
+            process.exitCode = 1;
+        });
+}
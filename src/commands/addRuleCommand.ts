@@ -1,8 +1,17 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { RuleManager } from '../ruleManager';
 import { Logger } from '../utils/logger';
-import { validateRuleText, sanitizeInput, getCurrentLanguageId } from '../utils/helpers';
-import { UI_MESSAGES, RULE_SCOPES } from '../constants';
+import {
+    validateRuleText,
+    validateGlobPattern,
+    sanitizeInput,
+    getCurrentLanguageId,
+    getWorkspaceRoot,
+    showConditionInputBox
+} from '../utils/helpers';
+import { validateCondition } from '../utils/ruleCondition';
+import { UI_MESSAGES, RULE_SCOPES, RuleLayer, RuleScope } from '../constants';
 
 /**
  * Handler for adding new rules to Copilot Memory
@@ -48,11 +57,63 @@ export class AddRuleCommandHandler {
                 }
             }
 
+            // Get the workspace folder for project rules; otherwise the active folder is used
+            let projectPath: string | undefined;
+            if (scope === 'project' && (vscode.workspace.workspaceFolders || []).length > 1) {
+                projectPath = await this.getProjectFolderFromUser();
+                if (!projectPath) {
+                    return;
+                }
+            }
+
+            // Get the glob patterns for path rules
+            let pathPatterns: string[] | undefined;
+            if (scope === 'path') {
+                pathPatterns = await this.getPathPatternsFromUser();
+                if (!pathPatterns) {
+                    return;
+                }
+            }
+
+            // Get the registered scope for custom rules
+            let customScope: string | undefined;
+            if (scope === 'custom') {
+                customScope = await this.getCustomScopeFromUser();
+                if (!customScope) {
+                    return;
+                }
+            }
+
+            // Get the layer to store the rule in
+            const layer = await this.getRuleLayerFromUser();
+            if (!layer) {
+                return;
+            }
+
+            // Get an optional condition, if enabled in settings
+            let condition: string | undefined;
+            if (vscode.workspace.getConfiguration('copilotMemory').get<boolean>('promptForConditions', false)) {
+                condition = await showConditionInputBox();
+                if (condition === undefined) {
+                    return;
+                }
+
+                const conditionValidation = condition ? validateCondition(condition) : { isValid: true };
+                if (!conditionValidation.isValid) {
+                    vscode.window.showErrorMessage(conditionValidation.error!);
+                    return;
+                }
+            }
+
             // Add the rule
             const sanitizedText = sanitizeInput(ruleText);
-            await this.ruleManager.addRule(sanitizedText, scope, languageScope);
+            await this.ruleManager.addRule(sanitizedText, scope, languageScope, projectPath, layer, {
+                pathPatterns,
+                customScope,
+                condition: condition || undefined
+            });
 
-            Logger.info(`Rule added successfully: ${sanitizedText} (scope: ${scope})`);
+            Logger.info(`Rule added successfully: ${sanitizedText} (scope: ${scope}, layer: ${layer})`);
             vscode.window.showInformationMessage(UI_MESSAGES.ruleAdded);
 
         } catch (error) {
@@ -79,8 +140,10 @@ export class AddRuleCommandHandler {
     /**
      * Get rule scope from user selection
      */
-    private async getRuleScopeFromUser(): Promise<'global' | 'project' | 'language' | undefined> {
-        const items = RULE_SCOPES.map(scope => ({
+    private async getRuleScopeFromUser(): Promise<RuleScope | undefined> {
+        // Custom scopes are only offered once another extension has registered one
+        const hasCustomScopes = this.ruleManager.getCustomScopes().length > 0;
+        const items = RULE_SCOPES.filter(scope => scope !== 'custom' || hasCustomScopes).map(scope => ({
             label: scope.charAt(0).toUpperCase() + scope.slice(1),
             description: this.getScopeDescription(scope),
             value: scope
@@ -94,6 +157,117 @@ export class AddRuleCommandHandler {
         return selected?.value;
     }
 
+    /**
+     * Get the workspace folder a project rule applies to in a multi-root workspace
+     */
+    private async getProjectFolderFromUser(): Promise<string | undefined> {
+        const folders = vscode.workspace.workspaceFolders || [];
+        const activeFolder = getWorkspaceRoot();
+
+        // Offer the folder of the active file first
+        const items = folders
+            .map(folder => ({
+                label: folder.name,
+                description: folder.uri.fsPath === activeFolder ? 'Folder of the active file' : undefined,
+                detail: folder.uri.fsPath,
+                value: folder.uri.fsPath
+            }))
+            .sort((a, b) => Number(b.value === activeFolder) - Number(a.value === activeFolder));
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select the workspace folder this rule applies to'
+        });
+
+        return selected?.value;
+    }
+
+    /**
+     * Get glob patterns for a path rule: the active file's folder, its file type or a custom glob
+     */
+    private async getPathPatternsFromUser(): Promise<string[] | undefined> {
+        const items: { label: string; description: string; value: string | undefined }[] = [];
+
+        const document = vscode.window.activeTextEditor?.document;
+        const workspaceRoot = getWorkspaceRoot(document?.uri);
+        if (document && document.uri.scheme === 'file' && workspaceRoot) {
+            const folder = path.relative(workspaceRoot, path.dirname(document.uri.fsPath)).replace(/\\/g, '/');
+            if (folder && !folder.startsWith('..')) {
+                items.push({ label: `${folder}/**`, description: 'This folder', value: `${folder}/**` });
+            }
+
+            const extension = path.extname(document.uri.fsPath);
+            if (extension) {
+                items.push({ label: `**/*${extension}`, description: 'This file type', value: `**/*${extension}` });
+            }
+        }
+
+        items.push({ label: 'Custom glob pattern...', description: 'e.g. src/server/**, **/*.test.ts', value: undefined });
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select the files this rule applies to'
+        });
+        if (!selected) {
+            return undefined;
+        }
+        if (selected.value) {
+            return [selected.value];
+        }
+
+        const input = await vscode.window.showInputBox({
+            prompt: 'Enter glob patterns relative to the workspace folder, separated by commas',
+            placeHolder: 'e.g. src/server/**, **/*.{test,spec}.ts',
+            validateInput: (value: string) => {
+                const patterns = splitGlobPatterns(value);
+                if (patterns.length === 0) {
+                    return 'Enter at least one glob pattern';
+                }
+                return patterns.map(pattern => validateGlobPattern(pattern).error).find(error => error);
+            }
+        });
+
+        return input ? splitGlobPatterns(input) : undefined;
+    }
+
+    /**
+     * Get one of the custom scopes registered by other extensions
+     */
+    private async getCustomScopeFromUser(): Promise<string | undefined> {
+        const items = this.ruleManager.getCustomScopes().map(scope => ({
+            label: scope.name,
+            description: scope.description,
+            detail: scope.extensionId,
+            value: scope.name
+        }));
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select a custom scope'
+        });
+
+        return selected?.value;
+    }
+
+    /**
+     * Get the layer to store the rule in; only asks when there is more than one
+     */
+    private async getRuleLayerFromUser(): Promise<RuleLayer | undefined> {
+        const layers = this.ruleManager.getRuleLayers();
+        if (layers.length <= 1) {
+            return layers[0];
+        }
+
+        const items = layers.map(layer => ({
+            label: layer.charAt(0).toUpperCase() + layer.slice(1),
+            description: this.getLayerDescription(layer),
+            value: layer
+        }));
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select where to store the rule'
+        });
+
+        return selected?.value;
+    }
+
     /**
      * Get language scope from user
      */
@@ -135,8 +309,52 @@ export class AddRuleCommandHandler {
                 return 'Applies only to the current workspace';
             case 'language':
                 return 'Applies only to specific programming language';
+            case 'path':
+                return 'Applies only to files matching glob patterns';
+            case 'custom':
+                return 'Applies where a scope registered by another extension matches';
             default:
                 return '';
         }
     }
+
+    /**
+     * Get description for rule layer
+     */
+    private getLayerDescription(layer: RuleLayer): string {
+        switch (layer) {
+            case 'workspace':
+                return 'Stored with this workspace';
+            case 'team':
+                return 'Shared with your team';
+            case 'user':
+                return 'Your own rules, available in every workspace';
+        }
+    }
+}
+
+/**
+ * Split comma-separated globs, keeping commas inside {a,b} alternatives
+ */
+function splitGlobPatterns(value: string): string[] {
+    const patterns: string[] = [];
+    let current = '';
+    let braceDepth = 0;
+
+    for (const char of value) {
+        if (char === ',' && braceDepth === 0) {
+            patterns.push(current);
+            current = '';
+            continue;
+        }
+        if (char === '{') {
+            braceDepth++;
+        } else if (char === '}') {
+            braceDepth--;
+        }
+        current += char;
+    }
+    patterns.push(current);
+
+    return patterns.map(pattern => pattern.trim()).filter(pattern => pattern.length > 0);
 }
@@ -0,0 +1,260 @@
+import * as vscode from 'vscode';
+import { RuleManager, Rule } from '../ruleManager';
+import { Logger } from '../utils/logger';
+import { getLLMConfig, callLLM, LLMConfig } from '../services/llmService';
+import { PromptComposer, ComposedRules } from '../services/promptComposer';
+import { isChatParticipantSupported } from '../services/memoryChatParticipant';
+import { getHost } from '../core/host';
+
+const COPILOT_CHAT_VIEW = 'workbench.panel.chat.view.copilot.focus';
+const OPEN_CHAT_COMMAND = 'workbench.action.chat.open';
+
+/**
+ * Handler for copying rules into Copilot Chat
+ */
+export class ChatRulesCommandHandler {
+    constructor(private promptComposer: PromptComposer) {}
+
+    /**
+     * Copy the rules for the active file to the clipboard, rendered with the chat template
+     */
+    async copyRulesForChat(): Promise<void> {
+        try {
+            const composed = await this.promptComposer.composePrompt('chat');
+            const rules = composed.rules;
+
+            if (rules.length === 0) {
+                vscode.window.showInformationMessage('No rules to copy. Add some rules first.');
+                return;
+            }
+
+            await getHost().clipboard.writeText(composed.prompt);
+
+            Logger.info(`Copied ${rules.length} rules for chat`);
+            vscode.window.showInformationMessage(
+                `✅ Copied ${rules.length} rules to clipboard!${this.formatDropped(composed)} Paste this into Copilot Chat to apply your preferences.`,
+                'Open Copilot Chat'
+            ).then(selection => {
+                if (selection === 'Open Copilot Chat') {
+                    vscode.commands.executeCommand(COPILOT_CHAT_VIEW);
+                }
+            });
+
+        } catch (error) {
+            const errorMessage = `Failed to copy rules: ${error}`;
+            Logger.error(errorMessage, error as Error);
+            vscode.window.showErrorMessage(errorMessage);
+        }
+    }
+
+    /**
+     * Open Copilot Chat with @memory, which applies the rules itself; without the chat API,
+     * copy rules to the clipboard and open the Copilot Chat panel
+     */
+    async autoApplyRules(): Promise<void> {
+        try {
+            if (isChatParticipantSupported() && await this.openMemoryChat()) {
+                return;
+            }
+
+            const composed = await this.promptComposer.composePrompt('chat');
+
+            if (composed.rules.length === 0) {
+                vscode.window.showInformationMessage('No rules to apply. Add some rules first.');
+                return;
+            }
+
+            await getHost().clipboard.writeText(composed.prompt);
+
+            try {
+                await vscode.commands.executeCommand(COPILOT_CHAT_VIEW);
+                vscode.window.showInformationMessage(
+                    `✅ Rules copied to clipboard!${this.formatDropped(composed)} The chat panel is open - just paste (Cmd+V) to apply your rules.`,
+                    'Got it!'
+                );
+            } catch {
+                vscode.window.showInformationMessage(
+                    `✅ Rules copied to clipboard!${this.formatDropped(composed)} Open Copilot Chat and paste to apply your rules.`,
+                    'Open Chat'
+                ).then(selection => {
+                    if (selection === 'Open Chat') {
+                        vscode.commands.executeCommand(COPILOT_CHAT_VIEW);
+                    }
+                });
+            }
+
+        } catch (error) {
+            const errorMessage = `Failed to apply rules: ${error}`;
+            Logger.error(errorMessage, error as Error);
+            vscode.window.showErrorMessage(errorMessage);
+        }
+    }
+
+    /**
+     * Open the chat view with @memory typed in; false when the chat view cannot be opened
+     */
+    private async openMemoryChat(): Promise<boolean> {
+        try {
+            await vscode.commands.executeCommand(OPEN_CHAT_COMMAND, { query: '@memory ', isPartialQuery: true });
+            return true;
+        } catch (error) {
+            Logger.warn('Could not open chat with @memory, copying rules instead', error as Error);
+            return false;
+        }
+    }
+
+    /**
+     * Mention rules left out to fit the token budget, and log which ones
+     */
+    private formatDropped(composed: ComposedRules): string {
+        if (composed.droppedRules.length === 0) {
+            return '';
+        }
+
+        Logger.info(`Rules left out of the chat prompt: ${composed.droppedRules.map(rule => rule.ruleText).join(' | ')}`);
+        return ` ${composed.droppedRules.length} lower-priority rules were left out to fit the ${composed.tokenBudget} token budget.`;
+    }
+}
+
+/**
+ * Handler for AI-powered rule commands
+ */
+export class LLMCommandHandler {
+    constructor(private ruleManager: RuleManager) {}
+
+    /**
+     * Ask the configured LLM to suggest improvements to the current rules
+     */
+    async improveRules(): Promise<void> {
+        try {
+            const config = await getLLMConfig();
+            if (!config.enabled) {
+                const enable = await vscode.window.showInformationMessage(
+                    'LLM features are disabled. Enable them in settings?',
+                    'Enable', 'Cancel'
+                );
+                if (enable === 'Enable') {
+                    await vscode.commands.executeCommand('workbench.action.openSettings', 'copilotMemory.enableLLMFeatures');
+                }
+                return;
+            }
+
+            if (!this.ensureApiKey(config)) {
+                return;
+            }
+
+            const rules = (await this.ruleManager.getRules()).filter(rule => rule.isActive);
+            if (rules.length === 0) {
+                vscode.window.showInformationMessage('No rules to improve. Add some rules first.');
+                return;
+            }
+
+            const rulesText = rules.map(r => r.ruleText).join('\n');
+            const prompt = `Analyze these coding rules and suggest improvements:
+
+${rulesText}
+
+Please provide:
+1. Better wording for clarity
+2. Additional useful rules based on these patterns
+3. Ways to make them more specific and actionable
+4. Remove any redundant rules
+
+Format your response as a numbered list of improved rules.`;
+
+            vscode.window.showInformationMessage('🧠 Analyzing your rules with AI...');
+
+            const aiResponse = await callLLM(prompt, config);
+            this.showImprovements(rules, aiResponse);
+
+        } catch (error) {
+            const errorMessage = `Failed to get AI suggestions: ${error}`;
+            Logger.error(errorMessage, error as Error);
+            vscode.window.showErrorMessage(errorMessage);
+        }
+    }
+
+    /**
+     * Ask the configured LLM a free-form question about the current rules
+     */
+    async chatAboutRules(): Promise<void> {
+        try {
+            const config = await getLLMConfig();
+            if (!config.enabled) {
+                vscode.window.showErrorMessage('LLM features are disabled. Enable them in settings first.');
+                return;
+            }
+
+            if (!this.ensureApiKey(config)) {
+                return;
+            }
+
+            const question = await vscode.window.showInputBox({
+                prompt: 'Ask the AI about your coding rules or get suggestions',
+                placeHolder: 'e.g., "What rules should I add for React development?"'
+            });
+
+            if (!question) {
+                return;
+            }
+
+            const rules = (await this.ruleManager.getRules()).filter(rule => rule.isActive);
+            const context = rules.length > 0
+                ? `My current rules: ${rules.map(r => r.ruleText).join(', ')}\n\n`
+                : '';
+
+            const prompt = `${context}Question: ${question}
+
+Please provide helpful advice about coding rules and best practices.`;
+
+            vscode.window.showInformationMessage('💬 Chatting with AI...');
+
+            const aiResponse = await callLLM(prompt, config);
+
+            vscode.window.showInformationMessage(aiResponse, 'Copy Response').then(selection => {
+                if (selection === 'Copy Response') {
+                    getHost().clipboard.writeText(aiResponse);
+                }
+            });
+
+        } catch (error) {
+            const errorMessage = `Chat failed: ${error}`;
+            Logger.error(errorMessage, error as Error);
+            vscode.window.showErrorMessage(errorMessage);
+        }
+    }
+
+    /**
+     * Check that a hosted provider has an API key configured
+     */
+    private ensureApiKey(config: LLMConfig): boolean {
+        if (config.provider !== 'ollama' && !config.apiKey) {
+            vscode.window.showErrorMessage(`Please set your ${config.provider.toUpperCase()} API key in settings, or switch to Ollama for free local AI.`);
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Show AI suggestions next to the current rules in a webview
+     */
+    private showImprovements(rules: Rule[], aiResponse: string): void {
+        const panel = vscode.window.createWebviewPanel(
+            'ruleImprovement',
+            '🧠 AI Rule Improvements',
+            vscode.ViewColumn.One,
+            {}
+        );
+
+        panel.webview.html = `
+            <h1>🧠 AI-Suggested Rule Improvements</h1>
+            <h2>Your Current Rules:</h2>
+            <ul>
+                ${rules.map(r => `<li>${r.ruleText}</li>`).join('')}
+            </ul>
+            <h2>AI Suggestions:</h2>
+            <div style="white-space: pre-wrap; font-family: monospace;">${aiResponse}</div>
+            <button onclick="navigator.clipboard.writeText('${aiResponse.replace(/'/g, "\\'")}')">Copy Suggestions</button>
+        `;
+    }
+}
@@ -3,6 +3,15 @@ import { RuleManager } from '../ruleManager';
 import { AddRuleCommandHandler } from './addRuleCommand';
 import { ListRulesCommandHandler } from './listRulesCommand';
 import { RemoveRuleCommandHandler, BulkRuleCommandHandler } from './removeRuleCommand';
+import { ChatRulesCommandHandler, LLMCommandHandler } from './chatCommands';
+import { RuleHistoryCommandHandler, REVISION_SCHEME } from './ruleHistoryCommand';
+import { TrashCommandHandler } from './trashCommand';
+import { ReorderRulesCommandHandler } from './reorderRulesCommand';
+import { PromptTemplateCommandHandler } from './promptTemplateCommand';
+import { ExportInstructionsCommandHandler } from './exportInstructionsCommand';
+import { SyncCommandHandler } from './syncCommand';
+import { RuleSyncService } from '../services/ruleSyncService';
+import { PromptComposer } from '../services/promptComposer';
 import { COMMANDS } from '../constants';
 import { Logger } from '../utils/logger';
 
@@ -14,12 +23,28 @@ export class CommandRegistry {
     private listRulesHandler: ListRulesCommandHandler;
     private removeRuleHandler: RemoveRuleCommandHandler;
     private bulkRuleHandler: BulkRuleCommandHandler;
+    private chatRulesHandler: ChatRulesCommandHandler;
+    private promptTemplateHandler: PromptTemplateCommandHandler;
+    private llmHandler: LLMCommandHandler;
+    private ruleHistoryHandler: RuleHistoryCommandHandler;
+    private trashHandler: TrashCommandHandler;
+    private reorderRulesHandler: ReorderRulesCommandHandler;
+    private exportInstructionsHandler: ExportInstructionsCommandHandler;
+    private syncHandler: SyncCommandHandler;
 
-    constructor(private ruleManager: RuleManager) {
+    constructor(private ruleManager: RuleManager, syncService: RuleSyncService, promptComposer: PromptComposer) {
         this.addRuleHandler = new AddRuleCommandHandler(ruleManager);
         this.listRulesHandler = new ListRulesCommandHandler(ruleManager);
         this.removeRuleHandler = new RemoveRuleCommandHandler(ruleManager);
         this.bulkRuleHandler = new BulkRuleCommandHandler(ruleManager);
+        this.chatRulesHandler = new ChatRulesCommandHandler(promptComposer);
+        this.promptTemplateHandler = new PromptTemplateCommandHandler();
+        this.llmHandler = new LLMCommandHandler(ruleManager);
+        this.ruleHistoryHandler = new RuleHistoryCommandHandler(ruleManager);
+        this.trashHandler = new TrashCommandHandler(ruleManager);
+        this.reorderRulesHandler = new ReorderRulesCommandHandler(ruleManager);
+        this.exportInstructionsHandler = new ExportInstructionsCommandHandler(ruleManager);
+        this.syncHandler = new SyncCommandHandler(syncService);
     }
 
     /**
@@ -43,6 +68,70 @@ export class CommandRegistry {
                 handler: () => this.removeRuleHandler.execute(),
                 title: 'Remove Rule'
             },
+            {
+                command: COMMANDS.showRuleHistory,
+                handler: () => this.ruleHistoryHandler.execute(),
+                title: 'Show Rule History'
+            },
+            // Ordering commands
+            {
+                command: COMMANDS.moveRuleUp,
+                handler: () => this.reorderRulesHandler.moveRuleUp(),
+                title: 'Move Rule Up'
+            },
+            {
+                command: COMMANDS.moveRuleDown,
+                handler: () => this.reorderRulesHandler.moveRuleDown(),
+                title: 'Move Rule Down'
+            },
+            {
+                command: COMMANDS.supersedeGlobalRules,
+                handler: () => this.reorderRulesHandler.supersedeGlobalRules(),
+                title: 'Supersede Global Rules'
+            },
+            // Trash commands
+            {
+                command: COMMANDS.showTrash,
+                handler: () => this.trashHandler.showTrash(),
+                title: 'Show Trash'
+            },
+            {
+                command: COMMANDS.restoreRule,
+                handler: () => this.trashHandler.restoreRule(),
+                title: 'Restore Rule'
+            },
+            {
+                command: COMMANDS.emptyTrash,
+                handler: () => this.trashHandler.emptyTrash(),
+                title: 'Empty Trash'
+            },
+            // Chat commands
+            {
+                command: COMMANDS.copyRulesForChat,
+                handler: () => this.chatRulesHandler.copyRulesForChat(),
+                title: 'Copy Rules for Copilot Chat'
+            },
+            {
+                command: COMMANDS.autoApplyRules,
+                handler: () => this.chatRulesHandler.autoApplyRules(),
+                title: 'Auto-Apply Rules to Chat'
+            },
+            {
+                command: COMMANDS.choosePromptTemplate,
+                handler: () => this.promptTemplateHandler.execute(),
+                title: 'Choose Prompt Template'
+            },
+            // LLM commands
+            {
+                command: COMMANDS.improveRulesWithLLM,
+                handler: () => this.llmHandler.improveRules(),
+                title: 'Improve Rules with AI'
+            },
+            {
+                command: COMMANDS.chatWithLLM,
+                handler: () => this.llmHandler.chatAboutRules(),
+                title: 'Chat with LLM About Rules'
+            },
             // Additional commands
             {
                 command: `${COMMANDS.removeRule}.all`,
@@ -54,6 +143,21 @@ export class CommandRegistry {
                 handler: () => this.bulkRuleHandler.exportRules(),
                 title: 'Export Rules'
             },
+            {
+                command: `${COMMANDS.listRules}.import`,
+                handler: () => this.bulkRuleHandler.importRules(),
+                title: 'Import Rules'
+            },
+            {
+                command: COMMANDS.exportInstructions,
+                handler: () => this.exportInstructionsHandler.execute(),
+                title: 'Export Rules to copilot-instructions.md'
+            },
+            {
+                command: COMMANDS.syncNow,
+                handler: () => this.syncHandler.execute(),
+                title: 'Sync Now'
+            },
             // Developer commands
             {
                 command: `${COMMANDS.addRule}.showLogs`,
@@ -79,6 +183,11 @@ export class CommandRegistry {
             Logger.info(`Registered command: ${command}`);
         });
 
+        // Serve rule revisions to the diff editor
+        context.subscriptions.push(
+            vscode.workspace.registerTextDocumentContentProvider(REVISION_SCHEME, this.ruleHistoryHandler)
+        );
+
         Logger.info(`Successfully registered ${commands.length} commands`);
     }
 }
@@ -0,0 +1,47 @@
+import * as vscode from 'vscode';
+import { RuleManager } from '../ruleManager';
+import { InstructionsExporter } from '../services/instructionsExporter';
+import { Logger } from '../utils/logger';
+import { getWorkspaceRoot } from '../utils/helpers';
+
+/**
+ * Handler for exporting rules to .github/copilot-instructions.md
+ */
+export class ExportInstructionsCommandHandler {
+    private exporter: InstructionsExporter;
+
+    constructor(ruleManager: RuleManager) {
+        this.exporter = new InstructionsExporter(ruleManager);
+    }
+
+    /**
+     * Execute the export instructions command
+     */
+    async execute(): Promise<void> {
+        try {
+            const workspaceRoot = getWorkspaceRoot();
+            if (!workspaceRoot) {
+                vscode.window.showErrorMessage('Open a workspace folder to export copilot-instructions.md.');
+                return;
+            }
+
+            const result = await this.exporter.export(workspaceRoot);
+
+            const fileCount = 1 + result.languageFiles.length;
+            const action = await vscode.window.showInformationMessage(
+                `Exported ${result.ruleCount} rules to ${fileCount} instruction file(s)`,
+                'Open File'
+            );
+
+            if (action === 'Open File') {
+                const document = await vscode.workspace.openTextDocument(result.repositoryFile);
+                await vscode.window.showTextDocument(document);
+            }
+
+        } catch (error) {
+            const errorMessage = `Failed to export instructions: ${error}`;
+            Logger.error(errorMessage, error as Error);
+            vscode.window.showErrorMessage(errorMessage);
+        }
+    }
+}
@@ -1,7 +1,9 @@
 import * as vscode from 'vscode';
 import { RuleManager, Rule } from '../ruleManager';
 import { Logger } from '../utils/logger';
+import { validateRuleText, sanitizeInput, showConditionInputBox } from '../utils/helpers';
 import { UI_MESSAGES } from '../constants';
+import { getHost } from '../core/host';
 
 /**
  * Handler for listing rules in Copilot Memory
@@ -64,15 +66,49 @@ export class ListRulesCommandHandler {
         } else if (rule.scope === 'project' && rule.projectPath) {
             const projectName = rule.projectPath.split('/').pop() || 'Unknown';
             description += ` (${projectName})`;
+        } else if (rule.scope === 'path' && rule.pathPatterns) {
+            description += ` (${rule.pathPatterns.join(', ')})`;
+        } else if (rule.scope === 'custom' && rule.customScope) {
+            description += ` (${rule.customScope})`;
         }
 
+        if (rule.condition) {
+            description += ` ⚡ when ${rule.condition}`;
+        }
+
+        if (rule.priority !== undefined) {
+            description += ` ↕️ ${rule.priority}`;
+        }
+
+        if (rule.supersedes?.length) {
+            description += ` ⤴️ supersedes ${rule.supersedes.length}`;
+        }
+
+        if (rule.layer) {
+            description += ` 🗂️ ${rule.layer}`;
+        }
+
+        const customScopeProblem = this.ruleManager.getCustomScopeProblem(rule);
         if (!rule.isActive) {
             description += ' ⏸️ Inactive';
+        } else if (customScopeProblem) {
+            description += ` ⏸️ Inactive: ${customScopeProblem}`;
         }
 
         return description;
     }
 
+    /**
+     * Format rule status, explaining why a custom-scoped rule cannot apply
+     */
+    private formatStatus(rule: Rule): string {
+        const customScopeProblem = this.ruleManager.getCustomScopeProblem(rule);
+        if (rule.isActive && customScopeProblem) {
+            return `Inactive (${customScopeProblem})`;
+        }
+        return rule.isActive ? 'Active' : 'Inactive';
+    }
+
     /**
      * Show detailed information about a specific rule
      */
@@ -82,8 +118,14 @@ export class ListRulesCommandHandler {
         const action = await vscode.window.showInformationMessage(
             `Rule: ${rule.ruleText}\\n\\n` +
             `Scope: ${rule.scope}\\n` +
+            `Layer: ${rule.layer || 'workspace'}\\n` +
             `Language: ${rule.languageScope || 'All'}\\n` +
-            `Status: ${rule.isActive ? 'Active' : 'Inactive'}\\n` +
+            (rule.pathPatterns ? `Paths: ${rule.pathPatterns.join(', ')}\\n` : '') +
+            (rule.customScope ? `Custom Scope: ${rule.customScope}\\n` : '') +
+            (rule.condition ? `Condition: ${rule.condition}\\n` : '') +
+            (rule.priority !== undefined ? `Priority: ${rule.priority}\\n` : '') +
+            (rule.supersedes?.length ? `Supersedes: ${rule.supersedes.length} global rules\\n` : '') +
+            `Status: ${this.formatStatus(rule)}\\n` +
             `Created: ${rule.createdAt.toLocaleString()}\\n` +
             `Updated: ${rule.updatedAt.toLocaleString()}`,
             ...actions
@@ -91,7 +133,7 @@ export class ListRulesCommandHandler {
 
         switch (action) {
             case 'Copy Rule Text':
-                await vscode.env.clipboard.writeText(rule.ruleText);
+                await getHost().clipboard.writeText(rule.ruleText);
                 vscode.window.showInformationMessage('Rule text copied to clipboard');
                 break;
             case 'Edit Rule':
@@ -104,30 +146,48 @@ export class ListRulesCommandHandler {
     }
 
     /**
-     * Edit an existing rule
+     * Edit an existing rule's text and condition
      */
     private async editRule(rule: Rule): Promise<void> {
         const newText = await vscode.window.showInputBox({
             prompt: 'Edit rule text',
             value: rule.ruleText,
             validateInput: (value: string) => {
-                return value.trim().length === 0 ? 'Rule text cannot be empty' : undefined;
+                const validation = validateRuleText(value);
+                return validation.isValid ? undefined : validation.error;
             }
         });
 
-        if (newText && newText !== rule.ruleText) {
-            // Note: This would require implementing an updateRule method in RuleManager
-            vscode.window.showInformationMessage('Rule editing will be implemented in a future version');
-            Logger.info(`Rule edit requested: ${rule.ruleId}`);
+        if (!newText) {
+            return;
+        }
+
+        const newCondition = await showConditionInputBox(rule.condition);
+        if (newCondition === undefined) {
+            return;
+        }
+
+        const sanitizedText = sanitizeInput(newText);
+        const condition = newCondition || undefined;
+        if (sanitizedText === rule.ruleText && condition === rule.condition) {
+            return;
         }
+
+        await this.ruleManager.updateRule(rule.ruleId, { ruleText: sanitizedText, condition });
+
+        Logger.info(`Rule updated: ${rule.ruleId}`);
+        vscode.window.showInformationMessage(UI_MESSAGES.ruleUpdated);
     }
 
     /**
      * Toggle rule active status
      */
     private async toggleRuleStatus(rule: Rule): Promise<void> {
-        // Note: This would require implementing a toggleRule method in RuleManager
-        vscode.window.showInformationMessage('Rule status toggle will be implemented in a future version');
-        Logger.info(`Rule status toggle requested: ${rule.ruleId}`);
+        const updatedRule = await this.ruleManager.setRuleActive(rule.ruleId, !rule.isActive);
+
+        Logger.info(`Rule ${updatedRule.isActive ? 'activated' : 'deactivated'}: ${rule.ruleId}`);
+        vscode.window.showInformationMessage(
+            updatedRule.isActive ? UI_MESSAGES.ruleActivated : UI_MESSAGES.ruleDeactivated
+        );
     }
 }
@@ -0,0 +1,58 @@
+import * as vscode from 'vscode';
+import { Logger } from '../utils/logger';
+import { TEMPLATE_SETTINGS, TemplateUse } from '../services/promptTemplates';
+import { getTemplateForUse, getTemplates } from '../services/templateSettings';
+
+/**
+ * Handler for choosing the prompt template used for chat, the interceptor and the export
+ */
+export class PromptTemplateCommandHandler {
+    /**
+     * Pick a use, then the template for it, and store the choice in settings
+     */
+    async execute(): Promise<void> {
+        try {
+            const uses: { label: string; description: string; value: TemplateUse }[] = [
+                { label: 'Copilot Chat', description: getTemplateForUse('chat').name, value: 'chat' },
+                { label: 'Prompt Injection', description: getTemplateForUse('interceptor').name, value: 'interceptor' },
+                { label: 'copilot-instructions.md Export', description: getTemplateForUse('export').name, value: 'export' }
+            ];
+
+            const use = await vscode.window.showQuickPick(uses, {
+                placeHolder: 'Select where the template is used'
+            });
+            if (!use) {
+                return;
+            }
+
+            const current = getTemplateForUse(use.value).name;
+            const items = getTemplates().map(template => ({
+                label: template.name,
+                description: template.name === current ? `${template.description || template.format} (current)` : template.description || template.format,
+                detail: template.text.replace(/\n/g, ' ⏎ '),
+                value: template.name
+            }));
+
+            const selected = await vscode.window.showQuickPick(items, {
+                placeHolder: `Select the template for ${use.label}`,
+                matchOnDetail: true
+            });
+            if (!selected || selected.value === current) {
+                return;
+            }
+
+            const target = vscode.workspace.workspaceFolders?.length
+                ? vscode.ConfigurationTarget.Workspace
+                : vscode.ConfigurationTarget.Global;
+            await vscode.workspace.getConfiguration('copilotMemory').update(TEMPLATE_SETTINGS[use.value], selected.value, target);
+
+            Logger.info(`Using the ${selected.value} template for ${use.value}`);
+            vscode.window.showInformationMessage(`${use.label} now uses the "${selected.value}" template`);
+
+        } catch (error) {
+            const errorMessage = `Failed to choose prompt template: ${error}`;
+            Logger.error(errorMessage, error as Error);
+            vscode.window.showErrorMessage(errorMessage);
+        }
+    }
+}
@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
 import { RuleManager, Rule } from '../ruleManager';
 import { Logger } from '../utils/logger';
+import { ConfigValidator } from '../utils/configValidator';
+import { parseRuleImport, RuleImportMode, RuleImportPlan } from '../services/ruleImportService';
 import { UI_MESSAGES } from '../constants';
 
 /**
@@ -34,7 +36,11 @@ export class RemoveRuleCommandHandler {
             await this.ruleManager.removeRule(ruleToRemove.ruleId);
 
             Logger.info(`Rule removed: ${ruleToRemove.ruleText}`);
-            vscode.window.showInformationMessage(UI_MESSAGES.ruleRemoved);
+            const action = await vscode.window.showInformationMessage(UI_MESSAGES.ruleRemoved, 'Undo');
+            if (action === 'Undo') {
+                await this.ruleManager.restoreRule(ruleToRemove.ruleId);
+                vscode.window.showInformationMessage(UI_MESSAGES.ruleRestoredFromTrash);
+            }
 
         } catch (error) {
             const errorMessage = `Failed to remove rule: ${error}`;
@@ -74,10 +80,25 @@ export class RemoveRuleCommandHandler {
         } else if (rule.scope === 'project' && rule.projectPath) {
             const projectName = rule.projectPath.split('/').pop() || 'Unknown';
             description += ` (${projectName})`;
+        } else if (rule.scope === 'path' && rule.pathPatterns) {
+            description += ` (${rule.pathPatterns.join(', ')})`;
+        } else if (rule.scope === 'custom' && rule.customScope) {
+            description += ` (${rule.customScope})`;
+        }
+
+        if (rule.condition) {
+            description += ` ⚡ when ${rule.condition}`;
+        }
+
+        if (rule.layer) {
+            description += ` 🗂️ ${rule.layer}`;
         }
 
+        const customScopeProblem = this.ruleManager.getCustomScopeProblem(rule);
         if (!rule.isActive) {
             description += ' ⏸️ Inactive';
+        } else if (customScopeProblem) {
+            description += ` ⏸️ Inactive: ${customScopeProblem}`;
         }
 
         return description;
@@ -87,8 +108,9 @@ export class RemoveRuleCommandHandler {
      * Confirm rule removal with user
      */
     private async confirmRemoval(rule: Rule): Promise<boolean> {
+        const retentionDays = ConfigValidator.getSafeConfig().trashRetentionDays;
         const response = await vscode.window.showWarningMessage(
-            `Are you sure you want to remove this rule?\\n\\n"${rule.ruleText}"\\n\\nThis action cannot be undone.`,
+            `Are you sure you want to remove this rule?\\n\\n"${rule.ruleText}"\\n\\nIt will be kept in the trash for ${retentionDays} days.`,
             { modal: true },
             'Remove Rule',
             'Cancel'
@@ -105,19 +127,21 @@ export class BulkRuleCommandHandler {
     constructor(private ruleManager: RuleManager) {}
 
     /**
-     * Remove all rules with confirmation
+     * Remove all rules of the primary layer with confirmation; team and other shared rules are left alone
      */
     async removeAllRules(): Promise<void> {
         try {
-            const rules = await this.ruleManager.getRules();
+            const layer = this.ruleManager.getPrimaryLayer();
+            const rules = (await this.ruleManager.getRules()).filter(rule => rule.layer === layer);
 
             if (rules.length === 0) {
                 vscode.window.showInformationMessage(UI_MESSAGES.noRulesFound);
                 return;
             }
 
+            const retentionDays = ConfigValidator.getSafeConfig().trashRetentionDays;
             const confirmed = await vscode.window.showWarningMessage(
-                `Are you sure you want to remove ALL ${rules.length} rules?\\n\\nThis action cannot be undone.`,
+                `Are you sure you want to remove ALL ${rules.length} ${layer} rules?\\n\\nThey will be kept in the trash for ${retentionDays} days. Rules of other layers are kept.`,
                 { modal: true },
                 'Remove All Rules',
                 'Cancel'
@@ -132,8 +156,17 @@ export class BulkRuleCommandHandler {
                 await this.ruleManager.removeRule(rule.ruleId);
             }
 
-            Logger.info(`Removed all ${rules.length} rules`);
-            vscode.window.showInformationMessage(`Successfully removed all ${rules.length} rules`);
+            Logger.info(`Removed all ${rules.length} ${layer} rules`);
+            const action = await vscode.window.showInformationMessage(
+                `Successfully removed all ${rules.length} ${layer} rules`,
+                'Undo'
+            );
+            if (action === 'Undo') {
+                for (const rule of rules) {
+                    await this.ruleManager.restoreRule(rule.ruleId);
+                }
+                vscode.window.showInformationMessage(`Restored ${rules.length} rules from trash`);
+            }
 
         } catch (error) {
             const errorMessage = `Failed to remove all rules: ${error}`;
@@ -186,4 +219,110 @@ export class BulkRuleCommandHandler {
             vscode.window.showErrorMessage(errorMessage);
         }
     }
+
+    /**
+     * Import rules from an export file or a bare array of rules
+     */
+    async importRules(): Promise<void> {
+        try {
+            const uris = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                filters: {
+                    jsonFiles: ['json'],
+                    allFiles: ['*']
+                },
+                openLabel: 'Import Rules'
+            });
+
+            if (!uris || uris.length === 0) {
+                return;
+            }
+
+            const content = await vscode.workspace.fs.readFile(uris[0]);
+            const incoming = parseRuleImport(Buffer.from(content).toString('utf8'));
+
+            if (incoming.length === 0) {
+                vscode.window.showInformationMessage('The selected file contains no rules.');
+                return;
+            }
+
+            const mode = await this.selectImportMode();
+            if (!mode) {
+                return;
+            }
+
+            const plan = this.ruleManager.planImport(incoming, mode);
+            const confirmed = await this.previewImport(plan);
+            if (!confirmed) {
+                return;
+            }
+
+            const summary = await this.ruleManager.applyImport(plan);
+
+            Logger.info(`Imported rules from ${uris[0].fsPath}`);
+            vscode.window.showInformationMessage(
+                `Import complete: ${summary.added} added, ${summary.updated} updated, ` +
+                `${summary.unchanged} unchanged, ${summary.skipped} skipped, ${summary.removed} moved to trash`
+            );
+
+        } catch (error) {
+            const errorMessage = `Failed to import rules: ${error}`;
+            Logger.error(errorMessage, error as Error);
+            vscode.window.showErrorMessage(errorMessage);
+        }
+    }
+
+    /**
+     * Let user choose how imported rules combine with existing ones
+     */
+    private async selectImportMode(): Promise<RuleImportMode | undefined> {
+        const items: { label: string; description: string; value: RuleImportMode }[] = [
+            { label: 'Merge', description: 'Add new rules and update changed ones', value: 'merge' },
+            { label: 'Skip Duplicates', description: 'Only add rules that do not exist yet', value: 'skip-duplicates' },
+            { label: 'Replace', description: 'Make the rule set match the file; other rules go to the trash', value: 'replace' }
+        ];
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: 'How should imported rules be combined with your rules?'
+        });
+
+        return selected?.value;
+    }
+
+    /**
+     * Show which rules are new, changed or identical and ask to apply
+     */
+    private async previewImport(plan: RuleImportPlan): Promise<boolean> {
+        const apply = 'Apply Import';
+        const changedLabel = plan.mode === 'skip-duplicates' ? 'Changed (skipped)' : 'Changed';
+        const items: vscode.QuickPickItem[] = [
+            {
+                label: `$(check) ${apply}`,
+                description: `${plan.newRules.length} new, ${plan.changedRules.length} changed, ` +
+                    `${plan.identicalRules.length} identical, ${plan.removedRules.length} to trash`
+            },
+            ...this.previewSection('New', plan.newRules.map(rule => ({ label: `$(add) ${rule.ruleText}`, description: rule.scope }))),
+            ...this.previewSection(changedLabel, plan.changedRules.map(({ existing, incoming }) => ({
+                label: `$(edit) ${incoming.ruleText}`,
+                description: incoming.scope,
+                detail: existing.ruleText !== incoming.ruleText ? `was: ${existing.ruleText}` : undefined
+            }))),
+            ...this.previewSection('Identical', plan.identicalRules.map(rule => ({ label: `$(pass) ${rule.ruleText}`, description: rule.scope }))),
+            ...this.previewSection('Moved to Trash', plan.removedRules.map(rule => ({ label: `$(trash) ${rule.ruleText}`, description: rule.scope })))
+        ];
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Review the import, then select "Apply Import" (Esc to cancel)',
+            matchOnDetail: true
+        });
+
+        return selected?.label === `$(check) ${apply}`;
+    }
+
+    private previewSection(title: string, items: vscode.QuickPickItem[]): vscode.QuickPickItem[] {
+        if (items.length === 0) {
+            return [];
+        }
+        return [{ label: title, kind: vscode.QuickPickItemKind.Separator }, ...items];
+    }
 }
@@ -0,0 +1,113 @@
+import * as vscode from 'vscode';
+import { RuleManager, Rule } from '../ruleManager';
+import { Logger } from '../utils/logger';
+import { UI_MESSAGES } from '../constants';
+
+/**
+ * Handler for ordering rules and letting rules supersede global rules
+ */
+export class ReorderRulesCommandHandler {
+    constructor(private ruleManager: RuleManager) {}
+
+    /**
+     * Move the selected rule one place up in prompt order
+     */
+    async moveRuleUp(): Promise<void> {
+        await this.moveRule(-1);
+    }
+
+    /**
+     * Move the selected rule one place down in prompt order
+     */
+    async moveRuleDown(): Promise<void> {
+        await this.moveRule(1);
+    }
+
+    /**
+     * Choose the global rules a non-global rule replaces wherever it applies
+     */
+    async supersedeGlobalRules(): Promise<void> {
+        try {
+            const rules = await this.ruleManager.getRules();
+            const globalRules = rules.filter(rule => rule.scope === 'global');
+            const candidates = rules.filter(rule => rule.scope !== 'global');
+
+            if (globalRules.length === 0 || candidates.length === 0) {
+                vscode.window.showInformationMessage('Superseding needs at least one global rule and one other rule');
+                return;
+            }
+
+            const selected = await vscode.window.showQuickPick(this.toQuickPickItems(candidates), {
+                placeHolder: 'Select the rule that replaces global rules',
+                matchOnDescription: true
+            });
+            if (!selected) {
+                return;
+            }
+
+            const current = new Set(selected.rule.supersedes || []);
+            const globalItems = this.toQuickPickItems(globalRules).map(item => ({
+                ...item,
+                picked: current.has(item.rule.ruleId)
+            }));
+            const superseded = await vscode.window.showQuickPick(globalItems, {
+                placeHolder: 'Select the global rules to leave out where this rule applies',
+                canPickMany: true,
+                matchOnDescription: true
+            });
+            if (!superseded) {
+                return;
+            }
+
+            const supersedes = superseded.map(item => item.rule.ruleId);
+            await this.ruleManager.updateRule(selected.rule.ruleId, {
+                supersedes: supersedes.length > 0 ? supersedes : undefined
+            });
+
+            Logger.info(`Rule ${selected.rule.ruleId} supersedes ${supersedes.length} global rules`);
+            vscode.window.showInformationMessage(UI_MESSAGES.ruleUpdated);
+
+        } catch (error) {
+            const errorMessage = `Failed to supersede global rules: ${error}`;
+            Logger.error(errorMessage, error as Error);
+            vscode.window.showErrorMessage(errorMessage);
+        }
+    }
+
+    private async moveRule(offset: number): Promise<void> {
+        try {
+            const rules = await this.ruleManager.getRules();
+
+            if (rules.length < 2) {
+                vscode.window.showInformationMessage(
+                    rules.length === 0 ? UI_MESSAGES.noRulesFound : 'There is only one rule to order'
+                );
+                return;
+            }
+
+            const selected = await vscode.window.showQuickPick(this.toQuickPickItems(rules), {
+                placeHolder: `Select a rule to move ${offset < 0 ? 'up' : 'down'}`,
+                matchOnDescription: true
+            });
+            if (!selected) {
+                return;
+            }
+
+            await this.ruleManager.moveRule(selected.rule.ruleId, offset);
+
+        } catch (error) {
+            const errorMessage = `Failed to move rule: ${error}`;
+            Logger.error(errorMessage, error as Error);
+            vscode.window.showErrorMessage(errorMessage);
+        }
+    }
+
+    private toQuickPickItems(rules: Rule[]): { label: string; description: string; rule: Rule }[] {
+        return rules.map((rule, index) => ({
+            label: `${index + 1}. ${rule.ruleText}`,
+            description: `📍 ${rule.scope}${rule.languageScope ? ` (${rule.languageScope})` : ''}` +
+                (rule.priority !== undefined ? ` ↕️ ${rule.priority}` : ''),
+            rule
+        }));
+    }
+}
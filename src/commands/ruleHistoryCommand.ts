@@ -0,0 +1,186 @@
+import * as vscode from 'vscode';
+import { RuleManager, Rule } from '../ruleManager';
+import { RuleRevision } from '../services/ruleHistoryService';
+import { Logger } from '../utils/logger';
+import { UI_MESSAGES } from '../constants';
+
+/**
+ * URI scheme used to open rule revisions in the diff editor
+ */
+export const REVISION_SCHEME = 'copilot-memory-revision';
+
+/**
+ * Handler for browsing, comparing and restoring rule revisions
+ */
+export class RuleHistoryCommandHandler implements vscode.TextDocumentContentProvider {
+    private revisions: Map<string, RuleRevision> = new Map();
+
+    constructor(private ruleManager: RuleManager) {}
+
+    /**
+     * Execute the show rule history command
+     */
+    async execute(): Promise<void> {
+        try {
+            const rules = await this.ruleManager.getRules();
+
+            if (rules.length === 0) {
+                vscode.window.showInformationMessage(UI_MESSAGES.noRulesFound);
+                return;
+            }
+
+            const rule = await this.selectRule(rules);
+            if (!rule) {
+                return;
+            }
+
+            const history = await this.ruleManager.getRuleHistory(rule.ruleId);
+            if (history.length === 0) {
+                vscode.window.showInformationMessage('No revisions recorded for this rule yet.');
+                return;
+            }
+            history.forEach(revision => this.revisions.set(revision.revisionId, revision));
+
+            const revision = await this.selectRevision(history, 'Select a revision');
+            if (!revision) {
+                return;
+            }
+
+            const action = await vscode.window.showQuickPick(
+                ['Compare with Current', 'Compare with Another Revision', 'Restore This Revision'],
+                { placeHolder: `Revision from ${revision.createdAt.toLocaleString()} by ${revision.author}` }
+            );
+
+            switch (action) {
+                case 'Compare with Current':
+                    await this.showDiff(revision, history[0]);
+                    break;
+                case 'Compare with Another Revision': {
+                    const other = await this.selectRevision(
+                        history.filter(r => r.revisionId !== revision.revisionId),
+                        'Select a revision to compare with'
+                    );
+                    if (other) {
+                        const [older, newer] = other.createdAt < revision.createdAt
+                            ? [other, revision]
+                            : [revision, other];
+                        await this.showDiff(older, newer);
+                    }
+                    break;
+                }
+                case 'Restore This Revision':
+                    await this.restore(rule, revision);
+                    break;
+            }
+
+        } catch (error) {
+            const errorMessage = `Failed to show rule history: ${error}`;
+            Logger.error(errorMessage, error as Error);
+            vscode.window.showErrorMessage(errorMessage);
+        }
+    }
+
+    /**
+     * Render a revision as a read-only document for the diff editor
+     */
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        const revision = this.revisions.get(uri.query);
+        if (!revision) {
+            return '';
+        }
+
+        return [
+            revision.ruleText,
+            '',
+            `Scope: ${revision.scope}`,
+            `Language: ${revision.languageScope || 'All'}`,
+            `Project: ${revision.projectPath || '-'}`,
+            `Paths: ${revision.pathPatterns?.join(', ') || '-'}`,
+            `Custom Scope: ${revision.customScope || '-'}`,
+            `Condition: ${revision.condition || '-'}`,
+            `Priority: ${revision.priority ?? '-'}`,
+            `Supersedes: ${revision.supersedes?.join(', ') || '-'}`,
+            `Status: ${revision.isActive ? 'Active' : 'Inactive'}`,
+            `Action: ${revision.action}`,
+            `Author: ${revision.author}`,
+            `Date: ${revision.createdAt.toISOString()}`
+        ].join('\n');
+    }
+
+    /**
+     * Let user select the rule whose history to show
+     */
+    private async selectRule(rules: Rule[]): Promise<Rule | undefined> {
+        const items = rules.map(rule => ({
+            label: rule.ruleText,
+            description: `📍 ${rule.scope}${rule.isActive ? '' : ' ⏸️ Inactive'}`,
+            detail: `Updated: ${rule.updatedAt.toLocaleString()}`,
+            rule
+        }));
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select a rule to show its history',
+            matchOnDescription: true
+        });
+
+        return selected?.rule;
+    }
+
+    /**
+     * Let user select a revision, newest first
+     */
+    private async selectRevision(history: RuleRevision[], placeHolder: string): Promise<RuleRevision | undefined> {
+        const items = history.map(revision => ({
+            label: `$(history) ${revision.action}`,
+            description: `${revision.createdAt.toLocaleString()} · ${revision.author}`,
+            detail: revision.ruleText,
+            revision
+        }));
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder,
+            matchOnDetail: true
+        });
+
+        return selected?.revision;
+    }
+
+    /**
+     * Open two revisions side by side
+     */
+    private async showDiff(left: RuleRevision, right: RuleRevision): Promise<void> {
+        const leftUri = this.revisionUri(left);
+        const rightUri = this.revisionUri(right);
+        const title = `Rule: ${left.createdAt.toLocaleString()} ↔ ${right.createdAt.toLocaleString()}`;
+
+        await vscode.commands.executeCommand('vscode.diff', leftUri, rightUri, title);
+    }
+
+    /**
+     * Restore a rule to the selected revision after confirmation
+     */
+    private async restore(rule: Rule, revision: RuleRevision): Promise<void> {
+        const response = await vscode.window.showWarningMessage(
+            `Restore this rule to the revision from ${revision.createdAt.toLocaleString()}?\n\n"${revision.ruleText}"`,
+            { modal: true },
+            'Restore'
+        );
+
+        if (response !== 'Restore') {
+            return;
+        }
+
+        await this.ruleManager.restoreRevision(rule.ruleId, revision.revisionId);
+
+        Logger.info(`Rule ${rule.ruleId} restored to revision ${revision.revisionId}`);
+        vscode.window.showInformationMessage(UI_MESSAGES.ruleRestored);
+    }
+
+    private revisionUri(revision: RuleRevision): vscode.Uri {
+        return vscode.Uri.from({
+            scheme: REVISION_SCHEME,
+            path: `/${revision.ruleId}/${revision.revisionId}.txt`,
+            query: revision.revisionId
+        });
+    }
+}
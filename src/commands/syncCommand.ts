@@ -0,0 +1,37 @@
+import * as vscode from 'vscode';
+import { RuleSyncService } from '../services/ruleSyncService';
+import { Logger } from '../utils/logger';
+
+/**
+ * Handler for syncing rules between local storage and MongoDB on demand
+ */
+export class SyncCommandHandler {
+    constructor(private syncService: RuleSyncService) {}
+
+    /**
+     * Execute the sync now command
+     */
+    async execute(): Promise<void> {
+        try {
+            const result = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Syncing rules with MongoDB...'
+                },
+                () => this.syncService.syncNow()
+            );
+
+            const conflictNote = result.conflicts > 0
+                ? ` (${result.conflicts} conflict(s) resolved by keeping the newest change)`
+                : '';
+            vscode.window.showInformationMessage(
+                `Sync complete: ${result.pushed} pushed, ${result.pulled} pulled${conflictNote}`
+            );
+
+        } catch (error) {
+            const errorMessage = `Failed to sync rules: ${error}`;
+            Logger.error(errorMessage, error as Error);
+            vscode.window.showErrorMessage(errorMessage);
+        }
+    }
+}
@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+import { RuleManager, Rule } from '../ruleManager';
+import { Logger } from '../utils/logger';
+import { ConfigValidator } from '../utils/configValidator';
+import { UI_MESSAGES } from '../constants';
+
+/**
+ * Handler for browsing, restoring and emptying the rule trash
+ */
+export class TrashCommandHandler {
+    constructor(private ruleManager: RuleManager) {}
+
+    /**
+     * Show rules in the trash and offer to restore the selected one
+     */
+    async showTrash(): Promise<void> {
+        try {
+            const trash = await this.ruleManager.getTrash();
+
+            if (trash.length === 0) {
+                vscode.window.showInformationMessage(UI_MESSAGES.trashEmpty);
+                return;
+            }
+
+            const selected = await vscode.window.showQuickPick(this.toQuickPickItems(trash), {
+                placeHolder: `Select a rule to restore (${trash.length} in trash)`,
+                matchOnDescription: true
+            });
+
+            if (selected) {
+                await this.restore([selected.rule]);
+            }
+
+        } catch (error) {
+            const errorMessage = `Failed to show trash: ${error}`;
+            Logger.error(errorMessage, error as Error);
+            vscode.window.showErrorMessage(errorMessage);
+        }
+    }
+
+    /**
+     * Restore one or more rules from the trash
+     */
+    async restoreRule(): Promise<void> {
+        try {
+            const trash = await this.ruleManager.getTrash();
+
+            if (trash.length === 0) {
+                vscode.window.showInformationMessage(UI_MESSAGES.trashEmpty);
+                return;
+            }
+
+            const selected = await vscode.window.showQuickPick(this.toQuickPickItems(trash), {
+                placeHolder: 'Select rules to restore',
+                canPickMany: true,
+                matchOnDescription: true
+            });
+
+            if (selected && selected.length > 0) {
+                await this.restore(selected.map(item => item.rule));
+            }
+
+        } catch (error) {
+            const errorMessage = `Failed to restore rule: ${error}`;
+            Logger.error(errorMessage, error as Error);
+            vscode.window.showErrorMessage(errorMessage);
+        }
+    }
+
+    /**
+     * Permanently delete every rule in the trash
+     */
+    async emptyTrash(): Promise<void> {
+        try {
+            const trash = await this.ruleManager.getTrash();
+
+            if (trash.length === 0) {
+                vscode.window.showInformationMessage(UI_MESSAGES.trashEmpty);
+                return;
+            }
+
+            const confirmed = await vscode.window.showWarningMessage(
+                `Permanently delete ${trash.length} rules from the trash?\n\nThis action cannot be undone.`,
+                { modal: true },
+                'Empty Trash'
+            );
+
+            if (confirmed !== 'Empty Trash') {
+                return;
+            }
+
+            const deleted = await this.ruleManager.emptyTrash();
+
+            Logger.info(`Emptied trash: ${deleted} rules permanently deleted`);
+            vscode.window.showInformationMessage(`Permanently deleted ${deleted} rules`);
+
+        } catch (error) {
+            const errorMessage = `Failed to empty trash: ${error}`;
+            Logger.error(errorMessage, error as Error);
+            vscode.window.showErrorMessage(errorMessage);
+        }
+    }
+
+    private async restore(rules: Rule[]): Promise<void> {
+        for (const rule of rules) {
+            await this.ruleManager.restoreRule(rule.ruleId);
+        }
+
+        Logger.info(`Restored ${rules.length} rules from trash`);
+        vscode.window.showInformationMessage(
+            rules.length === 1 ? UI_MESSAGES.ruleRestoredFromTrash : `Restored ${rules.length} rules from trash`
+        );
+    }
+
+    private toQuickPickItems(trash: Rule[]) {
+        const retentionDays = ConfigValidator.getSafeConfig().trashRetentionDays;
+
+        return trash.map(rule => {
+            const expiresAt = new Date(rule.deletedAt!.getTime() + retentionDays * 24 * 60 * 60 * 1000);
+            return {
+                label: rule.ruleText,
+                description: rule.layer ? `📍 ${rule.scope} 🗂️ ${rule.layer}` : `📍 ${rule.scope}`,
+                detail: `Removed: ${rule.deletedAt!.toLocaleString()} · Deleted permanently after ${expiresAt.toLocaleDateString()}`,
+                rule
+            };
+        });
+    }
+}
@@ -11,22 +11,113 @@ export const EXTENSION_CONFIG = {
 export const COMMANDS = {
     addRule: `${EXTENSION_CONFIG.commandPrefix}.addRule`,
     listRules: `${EXTENSION_CONFIG.commandPrefix}.listRules`,
-    removeRule: `${EXTENSION_CONFIG.commandPrefix}.removeRule`
+    removeRule: `${EXTENSION_CONFIG.commandPrefix}.removeRule`,
+    copyRulesForChat: `${EXTENSION_CONFIG.commandPrefix}.copyRulesForChat`,
+    autoApplyRules: `${EXTENSION_CONFIG.commandPrefix}.autoApplyRules`,
+    improveRulesWithLLM: `${EXTENSION_CONFIG.commandPrefix}.improveRulesWithLLM`,
+    chatWithLLM: `${EXTENSION_CONFIG.commandPrefix}.chatWithLLM`,
+    showRuleHistory: `${EXTENSION_CONFIG.commandPrefix}.showRuleHistory`,
+    showTrash: `${EXTENSION_CONFIG.commandPrefix}.showTrash`,
+    restoreRule: `${EXTENSION_CONFIG.commandPrefix}.restoreRule`,
+    emptyTrash: `${EXTENSION_CONFIG.commandPrefix}.emptyTrash`,
+    exportInstructions: `${EXTENSION_CONFIG.commandPrefix}.exportInstructions`,
+    syncNow: `${EXTENSION_CONFIG.commandPrefix}.syncNow`,
+    moveRuleUp: `${EXTENSION_CONFIG.commandPrefix}.moveRuleUp`,
+    moveRuleDown: `${EXTENSION_CONFIG.commandPrefix}.moveRuleDown`,
+    supersedeGlobalRules: `${EXTENSION_CONFIG.commandPrefix}.supersedeGlobalRules`,
+    choosePromptTemplate: `${EXTENSION_CONFIG.commandPrefix}.choosePromptTemplate`
 } as const;
 
-export const RULE_SCOPES = ['global', 'project', 'language'] as const;
+/**
+ * ID of the @memory chat participant, matching contributes.chatParticipants
+ */
+export const CHAT_PARTICIPANT_ID = `${EXTENSION_CONFIG.commandPrefix}.memory`;
+
+/**
+ * Names of the language model tools, matching contributes.languageModelTools
+ */
+export const LANGUAGE_MODEL_TOOLS = {
+    getRules: `${EXTENSION_CONFIG.commandPrefix}_getRules`,
+    searchRules: `${EXTENSION_CONFIG.commandPrefix}_searchRules`,
+    addRule: `${EXTENSION_CONFIG.commandPrefix}_addRule`
+} as const;
+
+export const RULE_SCOPES = ['global', 'project', 'language', 'path', 'custom'] as const;
 export type RuleScope = typeof RULE_SCOPES[number];
 
+/**
+ * Places rules are read from, highest precedence first
+ */
+export const RULE_LAYERS = ['workspace', 'team', 'user'] as const;
+export type RuleLayer = typeof RULE_LAYERS[number];
+
 export const STORAGE_CONSTANTS = {
     localFileName: '.copilot-memory.json',
+    legacyGlobalFileName: 'copilot-memory.json',
+    historyFileName: '.copilot-memory.history.json',
+    queueFileName: '.copilot-memory.queue.json',
+    sqliteFileName: '.copilot-memory.sqlite',
+    tombstonesKey: 'copilotMemory.tombstones',
+    customScopeOwnersKey: 'copilotMemory.customScopeOwners',
+    lastSyncKey: 'copilotMemory.lastSyncAt',
     defaultMongoUri: 'mongodb://localhost:27017/copilot-memory'
 } as const;
 
 export const UI_MESSAGES = {
     extensionActivated: 'Copilot Memory extension is now active!',
     ruleAdded: 'Rule added successfully!',
-    ruleRemoved: 'Rule removed successfully!',
+    ruleRemoved: 'Rule moved to trash',
+    ruleUpdated: 'Rule updated successfully!',
+    ruleActivated: 'Rule activated',
+    ruleDeactivated: 'Rule deactivated',
+    ruleRestored: 'Rule restored to the selected revision',
+    ruleRestoredFromTrash: 'Rule restored from trash',
+    trashEmpty: 'Trash is empty',
     noRulesFound: 'No rules found',
     mongodbConnected: 'Connected to MongoDB',
     mongodbFailed: 'Failed to connect to MongoDB'
 } as const;
+
+export const INSTRUCTIONS_CONSTANTS = {
+    repositoryFile: '.github/copilot-instructions.md',
+    languageFileDirectory: '.github/instructions',
+    languageFileSuffix: '.instructions.md',
+    blockStart: '<!-- copilot-memory:start -->',
+    blockEnd: '<!-- copilot-memory:end -->',
+    generatedMarker: '<!-- Generated by Copilot Memory -->',
+    // Written for the instructionsFile completion strategy; unlike generated files they are never read back.
+    // Rules for every file go in hiddenFile, language and path rules in copilot-memory.<name>.instructions.md
+    hiddenFile: '.github/instructions/copilot-memory.instructions.md',
+    hiddenFilePrefix: 'copilot-memory.',
+    hiddenFilePattern: '.github/instructions/copilot-memory.*instructions.md',
+    hiddenMarker: '<!-- Copilot Memory: current rules, rewritten on every change and kept out of git -->'
+} as const;
+
+/**
+ * File globs used for language-scoped instruction files (applyTo)
+ */
+export const LANGUAGE_FILE_GLOBS: Record<string, string> = {
+    typescript: '**/*.ts',
+    typescriptreact: '**/*.tsx',
+    javascript: '**/*.js,**/*.mjs,**/*.cjs',
+    javascriptreact: '**/*.jsx',
+    python: '**/*.py',
+    java: '**/*.java',
+    csharp: '**/*.cs',
+    cpp: '**/*.cpp,**/*.cc,**/*.h,**/*.hpp',
+    c: '**/*.c,**/*.h',
+    go: '**/*.go',
+    rust: '**/*.rs',
+    ruby: '**/*.rb',
+    php: '**/*.php',
+    kotlin: '**/*.kt,**/*.kts',
+    swift: '**/*.swift',
+    shellscript: '**/*.sh',
+    html: '**/*.html',
+    css: '**/*.css',
+    scss: '**/*.scss',
+    json: '**/*.json',
+    yaml: '**/*.yml,**/*.yaml',
+    markdown: '**/*.md',
+    vue: '**/*.vue'
+};
@@ -1,128 +1,144 @@
 import * as vscode from 'vscode';
 import { RuleManager } from './ruleManager';
+import { PromptComposer } from './services/promptComposer';
+import { InstructionsExporter } from './services/instructionsExporter';
+import { RuleInlineCompletionProvider } from './services/ruleInlineCompletionProvider';
+import { ConfigValidator } from './utils/configValidator';
+import { Logger } from './utils/logger';
 
 export class CopilotInterceptor {
     private ruleManager: RuleManager;
+    private promptComposer: PromptComposer;
+    private instructionsExporter: InstructionsExporter;
     private disposables: vscode.Disposable[] = [];
+    private strategy: vscode.Disposable | undefined;
+    private statusBarItem: vscode.StatusBarItem | undefined;
+    private ruleCount = 0;
+    /** Rule counts waiting for a pause in typing, by document URI */
+    private pendingRuleCounts = new Map<string, NodeJS.Timeout>();
 
-    constructor(ruleManager: RuleManager) {
+    constructor(ruleManager: RuleManager, promptComposer: PromptComposer, instructionsExporter: InstructionsExporter) {
         this.ruleManager = ruleManager;
+        this.promptComposer = promptComposer;
+        this.instructionsExporter = instructionsExporter;
     }
 
     async initialize(): Promise<void> {
-        // Note: This is a simplified implementation
-        // In a real-world scenario, you would need to:
-        // 1. Hook into Copilot's completion provider
-        // 2. Intercept requests before they go to Copilot
-        // 3. Inject custom rules into the context
-
-        // For now, we'll register our own completion provider as a demonstration
-        this.registerCompletionProvider();
+        // Pass rules to Copilot the way copilotMemory.completionStrategy asks for
+        this.applyCompletionStrategy();
+        this.disposables.push(vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('copilotMemory.completionStrategy')) {
+                this.applyCompletionStrategy();
+            }
+        }));
 
         // Also listen for document changes to potentially inject rules
         this.listenForDocumentChanges();
+
+        // Show writes waiting for MongoDB to come back
+        this.disposables.push(this.ruleManager.onDidChangePendingWrites(() => this.updateStatusBar()));
+        if (this.ruleManager.getPendingWriteCount() > 0) {
+            this.updateStatusBar();
+        }
     }
 
-    private registerCompletionProvider(): void {
-        // Register a completion provider that can work alongside Copilot
-        const provider = vscode.languages.registerCompletionItemProvider(
-            { scheme: 'file' },
-            {
-                provideCompletionItems: async (
-                    document: vscode.TextDocument,
-                    position: vscode.Position,
-                    token: vscode.CancellationToken,
-                    context: vscode.CompletionContext
-                ): Promise<vscode.CompletionItem[]> => {
-                    // Get active rules for the current language
-                    const languageId = document.languageId;
-                    const rules = await this.ruleManager.getActiveRulesForContext(languageId);
-
-                    // Create completion items that represent our rules
-                    const completionItems: vscode.CompletionItem[] = [];
-
-                    // Add a special completion item that shows active rules
-                    if (rules.length > 0) {
-                        const ruleItem = new vscode.CompletionItem(
-                            '💡 Copilot Memory Rules',
-                            vscode.CompletionItemKind.Text
-                        );
-                        ruleItem.detail = `${rules.length} active rule(s)`;
-                        ruleItem.documentation = new vscode.MarkdownString(
-                            `**Active Rules:**\n\n${rules.map((rule: string) => `• ${rule}`).join('\n\n')}`
-                        );
-                        ruleItem.sortText = '0'; // Sort to top
-                        completionItems.push(ruleItem);
-                    }
-
-                    return completionItems;
-                }
-            },
-            '.' // Trigger on dot
-        );
-
-        this.disposables.push(provider);
+    /**
+     * Replace the running strategy with the configured one, removing the hidden instructions file when it is not used
+     */
+    private applyCompletionStrategy(): void {
+        this.strategy?.dispose();
+        this.strategy = undefined;
+
+        const strategy = ConfigValidator.getSafeConfig().completionStrategy;
+        if (strategy === 'instructionsFile') {
+            this.strategy = this.instructionsExporter.watchHiddenFiles();
+        } else {
+            for (const folder of vscode.workspace.workspaceFolders || []) {
+                this.instructionsExporter.removeHiddenFiles(folder.uri.fsPath);
+            }
+            if (strategy === 'inlineCompletions') {
+                this.strategy = vscode.languages.registerInlineCompletionItemProvider(
+                    { scheme: 'file' },
+                    new RuleInlineCompletionProvider(this.promptComposer)
+                );
+            }
+        }
+        Logger.info(`Completion strategy: ${strategy}`);
     }
 
     private listenForDocumentChanges(): void {
         // Listen for text document changes to potentially inject rules
-        const changeListener = vscode.workspace.onDidChangeTextDocument(async (event) => {
-            // This is where you could implement rule injection logic
-            // For example, you might want to show rule suggestions as the user types
+        const changeListener = vscode.workspace.onDidChangeTextDocument(event => {
+            // Conditions can search the workspace, so rules are counted once typing pauses
             const document = event.document;
-            const languageId = document.languageId;
-
-            // Get rules for this context
-            const rules = await this.ruleManager.getActiveRulesForContext(languageId);
-
-            // In a real implementation, you would:
-            // 1. Analyze the current context
-            // 2. Check if any rules apply
-            // 3. Potentially show hints or modify Copilot requests
-
-            if (rules.length > 0) {
-                // Could show status bar item or other UI indication
-                this.updateStatusBar(rules.length);
+            const key = document.uri.toString();
+            const pending = this.pendingRuleCounts.get(key);
+            if (pending) {
+                clearTimeout(pending);
             }
+            this.pendingRuleCounts.set(key, setTimeout(() => {
+                this.pendingRuleCounts.delete(key);
+                this.countRules(document).catch(error => {
+                    Logger.error(`Failed to get the rules for ${document.uri.fsPath}`, error as Error);
+                });
+            }, 500));
         });
 
         this.disposables.push(changeListener);
     }
 
-    private updateStatusBar(ruleCount: number): void {
-        // Create or update status bar item
-        const statusBarItem = vscode.window.createStatusBarItem(
-            vscode.StatusBarAlignment.Right,
-            100
-        );
+    /**
+     * Show how many rules apply to a document in the status bar
+     */
+    private async countRules(document: vscode.TextDocument): Promise<void> {
+        const rules = await this.ruleManager.getActiveRulesForContext(document.languageId, document.uri);
+        if (rules.length > 0) {
+            this.ruleCount = rules.length;
+            this.updateStatusBar();
+        }
+    }
+
+    private updateStatusBar(): void {
+        // Create the status bar item once and update it afterwards
+        if (!this.statusBarItem) {
+            this.statusBarItem = vscode.window.createStatusBarItem(
+                vscode.StatusBarAlignment.Right,
+                100
+            );
+            this.statusBarItem.command = 'copilotMemory.listRules';
+            this.disposables.push(this.statusBarItem);
+        }
 
-        statusBarItem.text = `$(lightbulb) ${ruleCount} Rules`;
-        statusBarItem.tooltip = `Copilot Memory: ${ruleCount} active rule(s)`;
-        statusBarItem.command = 'copilotMemory.listRules';
-        statusBarItem.show();
+        const pendingWrites = this.ruleManager.getPendingWriteCount();
+        this.statusBarItem.text = `$(lightbulb) ${this.ruleCount} Rules`;
+        this.statusBarItem.tooltip = `Copilot Memory: ${this.ruleCount} active rule(s)`;
 
-        this.disposables.push(statusBarItem);
+        if (pendingWrites > 0) {
+            this.statusBarItem.text += ` $(cloud-upload) ${pendingWrites}`;
+            this.statusBarItem.tooltip += `\n${pendingWrites} change(s) waiting to be written to MongoDB`;
+        }
+
+        this.statusBarItem.show();
     }
 
     // Method to inject rules into a prompt (this would be called by Copilot integration)
-    async injectRulesIntoPrompt(originalPrompt: string, languageId?: string): Promise<string> {
-        const rules = await this.ruleManager.getActiveRulesForContext(languageId);
+    async injectRulesIntoPrompt(originalPrompt: string, languageId?: string, documentUri?: vscode.Uri): Promise<string> {
+        const { rules, prompt } = await this.promptComposer.composePrompt('interceptor', { languageId, documentUri });
 
         if (rules.length === 0) {
             return originalPrompt;
         }
 
-        const ruleContext = rules.map(rule => `- ${rule}`).join('\n');
-        const enhancedPrompt = `Please follow these rules when generating code:
-${ruleContext}
-
-${originalPrompt}`;
-
-        return enhancedPrompt;
+        return `${prompt}\n\n${originalPrompt}`;
     }
 
     dispose(): void {
+        this.pendingRuleCounts.forEach(timeout => clearTimeout(timeout));
+        this.pendingRuleCounts.clear();
+        this.strategy?.dispose();
+        this.strategy = undefined;
         this.disposables.forEach(disposable => disposable.dispose());
         this.disposables = [];
+        this.statusBarItem = undefined;
     }
 }
@@ -0,0 +1,121 @@
+import { Event } from '../utils/events';
+import { NodeHost } from './nodeHost';
+
+/**
+ * Adapters between the rule logic and the program hosting it: VS Code for the extension, or
+ * plain Node for tests, the CLI and the MCP server. Logging is adapted with Logger.setOutput.
+ */
+
+/**
+ * A document rules are applied to; vscode.Uri has this shape
+ */
+export interface DocumentLocation {
+    readonly fsPath: string;
+}
+
+/**
+ * A folder open in the host
+ */
+export interface HostFolder {
+    readonly name: string;
+    readonly fsPath: string;
+}
+
+/**
+ * Folders opened and closed together
+ */
+export interface FoldersChangeEvent {
+    readonly added: readonly HostFolder[];
+    readonly removed: readonly HostFolder[];
+}
+
+/**
+ * The document being edited
+ */
+export interface ActiveDocument {
+    readonly location: DocumentLocation;
+    readonly languageId: string;
+}
+
+/**
+ * A document open in the host, possibly with unsaved changes; vscode.TextDocument has this shape
+ */
+export interface OpenDocument {
+    readonly languageId: string;
+    getText(): string;
+}
+
+/**
+ * Workspace folders and the documents in them
+ */
+export interface WorkspaceAdapter {
+    /** Open folders; the first one holds the workspace rules */
+    getFolders(): readonly HostFolder[];
+    readonly onDidChangeFolders?: Event<FoldersChangeEvent>;
+    getActiveDocument(): ActiveDocument | undefined;
+    /** The document at a location if it is open, or undefined to read it from disk */
+    getOpenDocument?(location: DocumentLocation): OpenDocument | undefined;
+    /** Whether a folder has a file matching a glob pattern, outside node_modules */
+    containsFile(folder: HostFolder, pattern: string): Promise<boolean>;
+}
+
+/**
+ * Settings that changed together
+ */
+export interface ConfigurationChange {
+    /** Whether a setting, or any setting when the key is empty, is among them */
+    affects(key: string): boolean;
+}
+
+/**
+ * The copilotMemory.* settings
+ */
+export interface ConfigurationAdapter {
+    /** Value of a setting by its key without the copilotMemory prefix, or undefined when unset */
+    get<T>(key: string): T | undefined;
+    readonly onDidChange?: Event<ConfigurationChange>;
+}
+
+export interface ClipboardAdapter {
+    writeText(text: string): PromiseLike<void>;
+}
+
+/**
+ * Values kept between sessions, like vscode.Memento
+ */
+export interface StateAdapter {
+    get<T>(key: string, defaultValue: T): T;
+    update(key: string, value: unknown): PromiseLike<void>;
+}
+
+export interface RuleHost {
+    readonly workspace: WorkspaceAdapter;
+    readonly configuration: ConfigurationAdapter;
+    readonly clipboard: ClipboardAdapter;
+    /** Directory for the user's rules and state shared by every workspace */
+    readonly globalStoragePath: string;
+    readonly globalState: StateAdapter;
+    readonly workspaceState: StateAdapter;
+    isExtensionInstalled?(extensionId: string): boolean;
+    /** Tell the user their settings are invalid, e.g. with a way to open them */
+    showConfigurationErrors?(message: string): void;
+}
+
+let currentHost: RuleHost | undefined;
+
+/**
+ * Use a host for helpers and settings that are not given one; done once when the program starts
+ */
+export function setHost(host: RuleHost): void {
+    currentHost = host;
+}
+
+/**
+ * The host given to setHost, or a Node host without folders or settings
+ */
+export function getHost(): RuleHost {
+    if (!currentHost) {
+        currentHost = new NodeHost();
+    }
+    return currentHost;
+}
@@ -0,0 +1,24 @@
+/**
+ * The rule logic without the vscode module, for the extension, tests, the CLI and the MCP server.
+ * Create a host (NodeHost outside the editor), pass it to setHost and to the RuleManager,
+ * and route log lines with Logger.setOutput.
+ */
+
+export * from './host';
+export { NodeHost, NodeHostOptions } from './nodeHost';
+export { RuleManager, Rule, RuleUpdate, RuleDetails } from '../ruleManager';
+export { PromptComposer, ComposedRules, ComposedPrompt, PromptCompositionOptions } from '../services/promptComposer';
+export { RuleStore, RuleStoreFactory } from '../stores/ruleStore';
+export { Logger, LogOutput } from '../utils/logger';
+export { ConfigValidator, ExtensionConfig, DEFAULT_CONFIG, ValidationError, ValidationResult } from '../utils/configValidator';
+export { Disposable, Emitter, Event } from '../utils/events';
+export { validateRuleText, sanitizeInput, validateGlobPattern } from '../utils/validation';
+export {
+    getCurrentLanguageId,
+    getLanguageIdForPath,
+    getWorkspaceFolder,
+    getWorkspaceRoot,
+    globToRegExp,
+    getRelativePath,
+    matchesPathPatterns
+} from '../utils/workspacePaths';
@@ -0,0 +1,150 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Emitter } from '../utils/events';
+import { globToRegExp } from '../utils/workspacePaths';
+import { DEFAULT_CONFIG, ExtensionConfig } from '../utils/configValidator';
+import {
+    ActiveDocument,
+    ConfigurationAdapter,
+    ConfigurationChange,
+    FoldersChangeEvent,
+    HostFolder,
+    RuleHost,
+    StateAdapter,
+    WorkspaceAdapter
+} from './host';
+
+/**
+ * Folders, settings and storage for a NodeHost
+ */
+export interface NodeHostOptions {
+    /** Workspace folder paths; the first one holds the workspace rules */
+    folders?: string[];
+    /** copilotMemory.* settings, without the prefix; the others have their default values */
+    settings?: Record<string, unknown>;
+    /** Defaults to ~/.copilot-memory */
+    globalStoragePath?: string;
+}
+
+/**
+ * State kept in memory for the life of the process
+ */
+class MemoryState implements StateAdapter {
+    private values = new Map<string, unknown>();
+
+    get<T>(key: string, defaultValue: T): T {
+        return this.values.has(key) ? this.values.get(key) as T : defaultValue;
+    }
+
+    async update(key: string, value: unknown): Promise<void> {
+        if (value === undefined) {
+            this.values.delete(key);
+        } else {
+            this.values.set(key, value);
+        }
+    }
+}
+
+/**
+ * Host for running the rule logic in plain Node, e.g. in tests, the CLI or the MCP server.
+ * Folders, settings and the active document are set by the caller; there is no clipboard.
+ */
+export class NodeHost implements RuleHost {
+    readonly workspace: WorkspaceAdapter;
+    readonly configuration: ConfigurationAdapter;
+    readonly globalStoragePath: string;
+    readonly globalState: StateAdapter = new MemoryState();
+    readonly workspaceState: StateAdapter = new MemoryState();
+
+    readonly clipboard = {
+        writeText: async (): Promise<void> => {
+            throw new Error('No clipboard is available outside the editor');
+        }
+    };
+
+    private folders: HostFolder[];
+    private settings: Map<string, unknown>;
+    private activeDocument: ActiveDocument | undefined;
+    private foldersEmitter = new Emitter<FoldersChangeEvent>();
+    private configurationEmitter = new Emitter<ConfigurationChange>();
+
+    constructor(options: NodeHostOptions = {}) {
+        this.folders = (options.folders || []).map(toFolder);
+        this.settings = new Map(Object.entries(options.settings || {}));
+        this.globalStoragePath = options.globalStoragePath || path.join(os.homedir(), '.copilot-memory');
+
+        this.workspace = {
+            getFolders: () => this.folders,
+            onDidChangeFolders: this.foldersEmitter.event,
+            getActiveDocument: () => this.activeDocument,
+            containsFile: (folder, pattern) => containsFile(folder.fsPath, globToRegExp(pattern))
+        };
+        this.configuration = {
+            get: <T>(key: string) => this.getSetting(key) as T | undefined,
+            onDidChange: this.configurationEmitter.event
+        };
+    }
+
+    /**
+     * Open and close workspace folders
+     */
+    updateFolders(added: string[], removed: string[] = []): void {
+        const removedFolders = this.folders.filter(folder => removed.includes(folder.fsPath));
+        const addedFolders = added.map(toFolder);
+        this.folders = [...this.folders.filter(folder => !removedFolders.includes(folder)), ...addedFolders];
+        this.foldersEmitter.fire({ added: addedFolders, removed: removedFolders });
+    }
+
+    /**
+     * Change a setting, or reset it to its default with undefined
+     */
+    updateSetting(key: string, value: unknown): void {
+        if (value === undefined) {
+            this.settings.delete(key);
+        } else {
+            this.settings.set(key, value);
+        }
+        this.configurationEmitter.fire({ affects: section => !section || section === key });
+    }
+
+    setActiveDocument(document: ActiveDocument | undefined): void {
+        this.activeDocument = document;
+    }
+
+    private getSetting(key: string): unknown {
+        if (this.settings.has(key)) {
+            return this.settings.get(key);
+        }
+        return Object.prototype.hasOwnProperty.call(DEFAULT_CONFIG, key) ? DEFAULT_CONFIG[key as keyof ExtensionConfig] : undefined;
+    }
+}
+
+function toFolder(folderPath: string): HostFolder {
+    const fsPath = path.resolve(folderPath);
+    return { name: path.basename(fsPath), fsPath };
+}
+
+/**
+ * Look for a file matching a pattern relative to a folder, skipping node_modules and stopping at the first match
+ */
+async function containsFile(root: string, pattern: RegExp, directory = root): Promise<boolean> {
+    let entries: fs.Dirent[];
+    try {
+        entries = await fs.promises.readdir(directory, { withFileTypes: true });
+    } catch {
+        return false;
+    }
+
+    for (const entry of entries) {
+        const entryPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+            if (entry.name !== 'node_modules' && await containsFile(root, pattern, entryPath)) {
+                return true;
+            }
+        } else if (pattern.test(path.relative(root, entryPath).replace(/\\/g, '/'))) {
+            return true;
+        }
+    }
+    return false;
+}
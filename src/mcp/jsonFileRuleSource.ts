@@ -0,0 +1,53 @@
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { Rule } from '../ruleManager';
+import { JsonRuleStore } from '../stores/jsonRuleStore';
+import { McpRuleSource, NewMcpRule } from './mcpServer';
+
+/**
+ * Rules in a .copilot-memory.json file, for the standalone MCP server. The file is read on every
+ * request, so rules changed in VS Code show up right away.
+ */
+export class JsonFileRuleSource implements McpRuleSource {
+    private store: JsonRuleStore;
+
+    constructor(readonly filePath: string) {
+        this.store = new JsonRuleStore(filePath);
+    }
+
+    /**
+     * Rules that are not in the trash; records without rule text are listed by no one but kept in the file
+     */
+    async listRules(): Promise<Rule[]> {
+        return (await this.store.list()).filter(rule => !rule.deletedAt && typeof rule.ruleText === 'string');
+    }
+
+    async addRule(newRule: NewMcpRule): Promise<string> {
+        const now = new Date();
+        const rule: Rule = {
+            ruleId: crypto.randomUUID(),
+            ruleText: newRule.ruleText,
+            scope: newRule.scope,
+            languageScope: newRule.languageScope,
+            // Project rules belong to the folder holding the rules file
+            projectPath: newRule.scope === 'project' ? path.dirname(path.resolve(this.filePath)) : undefined,
+            pathPatterns: newRule.pathPatterns,
+            createdAt: now,
+            updatedAt: now,
+            isActive: true
+        };
+
+        await this.store.create(rule);
+        return rule.ruleId;
+    }
+
+    async removeRule(ruleId: string): Promise<void> {
+        const rule = await this.store.get(ruleId);
+        if (!rule || rule.deletedAt) {
+            throw new Error(`Rule not found: ${ruleId}`);
+        }
+
+        const deletedAt = new Date();
+        await this.store.update(ruleId, { deletedAt, updatedAt: deletedAt });
+    }
+}
@@ -0,0 +1,376 @@
+import * as http from 'http';
+import * as readline from 'readline';
+import { Rule } from '../ruleManager';
+import { RULE_SCOPES, RuleScope } from '../constants';
+import { sortRules } from '../services/ruleOrderingService';
+import { formatRuleLine } from '../services/promptTemplates';
+import { NEW_RULE_SCOPES, validateNewRule } from '../utils/validation';
+
+/**
+ * Model Context Protocol server for rules. Nothing here uses the vscode module, so the same
+ * server runs inside the extension (backed by RuleManager) and as a standalone Node process.
+ */
+
+/**
+ * Where the server reads and writes rules
+ */
+export interface McpRuleSource {
+    /** Rules that are not in the trash */
+    listRules(): Promise<Rule[]>;
+    addRule(rule: NewMcpRule): Promise<string>;
+    /** Move a rule to the trash */
+    removeRule(ruleId: string): Promise<void>;
+}
+
+export interface NewMcpRule {
+    ruleText: string;
+    scope: RuleScope;
+    languageScope?: string;
+    pathPatterns?: string[];
+}
+
+interface JsonRpcMessage {
+    jsonrpc: '2.0';
+    id?: string | number | null;
+    method?: string;
+    params?: any;
+}
+
+interface JsonRpcResponse {
+    jsonrpc: '2.0';
+    id: string | number | null;
+    result?: unknown;
+    error?: { code: number; message: string };
+}
+
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+const ERROR_CODES = {
+    parseError: -32700,
+    invalidRequest: -32600,
+    methodNotFound: -32601,
+    invalidParams: -32602,
+    internalError: -32603
+} as const;
+
+const RULES_URI = 'copilot-memory://rules';
+const RULE_URI_PREFIX = `${RULES_URI}/`;
+const RULES_PROMPT = 'coding_rules';
+
+/** Largest JSON-RPC message accepted over HTTP; rule messages are a few kilobytes at most */
+const MAX_HTTP_BODY_BYTES = 1024 * 1024;
+
+
+const TOOLS = [
+    {
+        name: 'list_rules',
+        description: 'List the coding rules and conventions, optionally only those of one scope or language',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                scope: { type: 'string', enum: [...RULE_SCOPES] },
+                language: { type: 'string', description: 'Only include language rules for this language ID' }
+            }
+        }
+    },
+    {
+        name: 'add_rule',
+        description: 'Remember a coding rule or convention, e.g. when asked to "remember that we always..."',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                ruleText: { type: 'string', description: 'The rule as a short instruction' },
+                scope: { type: 'string', enum: NEW_RULE_SCOPES, description: 'Where the rule applies; defaults to global' },
+                languageScope: { type: 'string', description: 'Language ID for language rules, e.g. typescript' },
+                pathPatterns: { type: 'array', items: { type: 'string' }, description: 'Glob patterns for path rules' }
+            },
+            required: ['ruleText']
+        }
+    },
+    {
+        name: 'remove_rule',
+        description: 'Move a rule to the trash by its ID, as returned by list_rules',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                ruleId: { type: 'string' }
+            },
+            required: ['ruleId']
+        }
+    }
+];
+
+/**
+ * Handles MCP requests; transports pass each parsed JSON-RPC message to handleMessage
+ */
+export class McpServer {
+    constructor(private source: McpRuleSource, private version: string) {}
+
+    /**
+     * Handle a request or notification; notifications and responses get no reply
+     */
+    async handleMessage(message: JsonRpcMessage): Promise<JsonRpcResponse | undefined> {
+        if (!message || message.jsonrpc !== '2.0' || typeof message.method !== 'string') {
+            // Responses to server requests are not expected, since the server sends none
+            return message && message.id !== undefined && message.method === undefined
+                ? undefined
+                : errorResponse(null, ERROR_CODES.invalidRequest, 'Invalid request');
+        }
+        if (message.id === undefined) {
+            return undefined;
+        }
+
+        try {
+            const result = await this.dispatch(message.method, message.params || {});
+            return { jsonrpc: '2.0', id: message.id, result };
+        } catch (error) {
+            const code = error instanceof McpError ? error.code : ERROR_CODES.internalError;
+            return errorResponse(message.id, code, (error as Error).message);
+        }
+    }
+
+    private async dispatch(method: string, params: any): Promise<unknown> {
+        switch (method) {
+            case 'initialize':
+                return {
+                    protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(params.protocolVersion)
+                        ? params.protocolVersion
+                        : SUPPORTED_PROTOCOL_VERSIONS[0],
+                    capabilities: { resources: {}, prompts: {}, tools: {} },
+                    serverInfo: { name: 'copilot-memory', version: this.version },
+                    instructions: 'Coding rules and conventions the user wants followed. Read them before writing code.'
+                };
+            case 'ping':
+                return {};
+            case 'resources/list':
+                return { resources: await this.listResources() };
+            case 'resources/read':
+                return { contents: [await this.readResource(String(params.uri))] };
+            case 'prompts/list':
+                return {
+                    prompts: [{
+                        name: RULES_PROMPT,
+                        description: 'Instructions to follow the coding rules',
+                        arguments: [{ name: 'language', description: 'Language ID of the code being written', required: false }]
+                    }]
+                };
+            case 'prompts/get':
+                return this.getPrompt(params.name, params.arguments || {});
+            case 'tools/list':
+                return { tools: TOOLS };
+            case 'tools/call':
+                return this.callTool(params.name, params.arguments || {});
+            default:
+                throw new McpError(ERROR_CODES.methodNotFound, `Method not found: ${method}`);
+        }
+    }
+
+    private async listResources(): Promise<unknown[]> {
+        const rules = sortRules(await this.source.listRules());
+        return [
+            { uri: RULES_URI, name: 'Coding rules', description: 'All active coding rules', mimeType: 'text/markdown' },
+            ...rules.map(rule => ({
+                uri: `${RULE_URI_PREFIX}${rule.ruleId}`,
+                name: rule.ruleText.length > 60 ? `${rule.ruleText.slice(0, 57)}...` : rule.ruleText,
+                mimeType: 'application/json'
+            }))
+        ];
+    }
+
+    private async readResource(uri: string): Promise<unknown> {
+        const rules = sortRules(await this.source.listRules());
+        if (uri === RULES_URI) {
+            const active = rules.filter(rule => rule.isActive);
+            return {
+                uri,
+                mimeType: 'text/markdown',
+                text: active.length > 0 ? `# Coding Rules\n\n${active.map(formatRuleLine).join('\n')}\n` : 'No coding rules.\n'
+            };
+        }
+
+        const rule = uri.startsWith(RULE_URI_PREFIX)
+            ? rules.find(r => r.ruleId === uri.slice(RULE_URI_PREFIX.length))
+            : undefined;
+        if (!rule) {
+            throw new McpError(ERROR_CODES.invalidParams, `Resource not found: ${uri}`);
+        }
+        return { uri, mimeType: 'application/json', text: JSON.stringify(rule, null, 2) };
+    }
+
+    private async getPrompt(name: string, args: { language?: string }): Promise<unknown> {
+        if (name !== RULES_PROMPT) {
+            throw new McpError(ERROR_CODES.invalidParams, `Prompt not found: ${name}`);
+        }
+
+        const rules = this.filterRules(await this.source.listRules(), undefined, args.language)
+            .filter(rule => rule.isActive && rule.scope !== 'custom');
+        const text = rules.length > 0
+            ? `Please follow these coding rules when writing code, explanations and suggestions:\n\n${rules.map(formatRuleLine).join('\n')}`
+            : 'There are no coding rules to follow.';
+
+        return {
+            description: `${rules.length} coding rules`,
+            messages: [{ role: 'user', content: { type: 'text', text } }]
+        };
+    }
+
+    /**
+     * Run a tool; failures are reported in the result so the model can correct its input
+     */
+    private async callTool(name: string, args: any): Promise<unknown> {
+        try {
+            switch (name) {
+                case 'list_rules': {
+                    const rules = this.filterRules(await this.source.listRules(), args.scope, args.language);
+                    return textResult(rules.length > 0 ? rules.map(formatRuleLine).join('\n') : 'No rules found.');
+                }
+                case 'add_rule': {
+                    const rule = parseNewRule(args);
+                    const ruleId = await this.source.addRule(rule);
+                    return textResult(`Added rule ${ruleId}: ${rule.ruleText}`);
+                }
+                case 'remove_rule': {
+                    if (typeof args.ruleId !== 'string' || !args.ruleId) {
+                        throw new Error('ruleId is required');
+                    }
+                    await this.source.removeRule(args.ruleId);
+                    return textResult(`Moved rule ${args.ruleId} to the trash`);
+                }
+                default:
+                    throw new McpError(ERROR_CODES.invalidParams, `Unknown tool: ${name}`);
+            }
+        } catch (error) {
+            if (error instanceof McpError) {
+                throw error;
+            }
+            return { ...textResult((error as Error).message), isError: true };
+        }
+    }
+
+    private filterRules(rules: Rule[], scope?: string, language?: string): Rule[] {
+        return sortRules(rules).filter(rule =>
+            (!scope || rule.scope === scope) &&
+            (!language || rule.scope !== 'language' || rule.languageScope === language));
+    }
+}
+
+/**
+ * Serve newline-delimited JSON-RPC over stdin and stdout
+ */
+export function serveStdio(server: McpServer, input: NodeJS.ReadableStream = process.stdin, output: NodeJS.WritableStream = process.stdout): void {
+    const lines = readline.createInterface({ input });
+    // Messages are handled one at a time, so writes to the rule file never overlap
+    let queue = Promise.resolve();
+    lines.on('line', line => {
+        if (line.trim().length === 0) {
+            return;
+        }
+
+        queue = queue.then(async () => {
+            const response = await handleRaw(server, line);
+            if (response) {
+                output.write(`${JSON.stringify(response)}\n`);
+            }
+        });
+    });
+}
+
+/**
+ * Serve MCP over HTTP on a localhost port: each POST to /mcp carries one JSON-RPC message
+ */
+export function serveHttp(server: McpServer, port: number, host = '127.0.0.1'): Promise<http.Server> {
+    // Messages are handled one at a time, as over stdio, so writes to the rule file never overlap
+    let queue = Promise.resolve();
+    const httpServer = http.createServer((request, response) => {
+        if (request.url?.split('?')[0] !== '/mcp') {
+            response.writeHead(404).end();
+            return;
+        }
+        // Refuse browser pages on other origins, which could otherwise reach localhost
+        const origin = request.headers.origin;
+        if (origin && !/^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/.test(origin)) {
+            response.writeHead(403).end();
+            return;
+        }
+        if (request.method !== 'POST') {
+            // eslint-disable-next-line @typescript-eslint/naming-convention
+            response.writeHead(405, { Allow: 'POST' }).end();
+            return;
+        }
+
+        let body = '';
+        let tooLarge = false;
+        request.setEncoding('utf8');
+        request.on('data', (chunk: string) => {
+            body += chunk;
+            if (!tooLarge && Buffer.byteLength(body) > MAX_HTTP_BODY_BYTES) {
+                tooLarge = true;
+                // eslint-disable-next-line @typescript-eslint/naming-convention
+                response.writeHead(413, { Connection: 'close' }).end();
+                request.destroy();
+            }
+        });
+        request.on('end', () => {
+            if (tooLarge) {
+                return;
+            }
+            queue = queue.then(async () => {
+                const reply = await handleRaw(server, body);
+                if (!reply) {
+                    response.writeHead(202).end();
+                    return;
+                }
+                // eslint-disable-next-line @typescript-eslint/naming-convention
+                response.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(reply));
+            });
+        });
+    });
+
+    return new Promise((resolve, reject) => {
+        httpServer.once('error', reject);
+        httpServer.listen(port, host, () => {
+            httpServer.off('error', reject);
+            resolve(httpServer);
+        });
+    });
+}
+
+async function handleRaw(server: McpServer, raw: string): Promise<JsonRpcResponse | undefined> {
+    let message: JsonRpcMessage;
+    try {
+        message = JSON.parse(raw);
+    } catch {
+        return errorResponse(null, ERROR_CODES.parseError, 'Parse error');
+    }
+    return server.handleMessage(message);
+}
+
+/**
+ * Validate the arguments of add_rule
+ */
+function parseNewRule(args: any): NewMcpRule {
+    const validation = validateNewRule({
+        ruleText: args.ruleText,
+        scope: args.scope,
+        languageScope: args.languageScope,
+        pathPatterns: args.pathPatterns
+    });
+    if (!validation.rule) {
+        throw new Error(validation.error);
+    }
+    return validation.rule;
+}
+
+function textResult(text: string): { content: { type: 'text'; text: string }[] } {
+    return { content: [{ type: 'text', text }] };
+}
+
+function errorResponse(id: string | number | null, code: number, message: string): JsonRpcResponse {
+    return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
+class McpError extends Error {
+    constructor(readonly code: number, message: string) {
+        super(message);
+    }
+}
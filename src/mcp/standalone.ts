@@ -0,0 +1,62 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { McpServer, serveHttp, serveStdio } from './mcpServer';
+import { JsonFileRuleSource } from './jsonFileRuleSource';
+import { STORAGE_CONSTANTS } from '../constants';
+import { Logger } from '../utils/logger';
+
+/**
+ * Standalone MCP server for a .copilot-memory.json file, for clients outside VS Code:
+ *
+ *   copilot-memory-mcp [--file <path>] [--port <port>]
+ *
+ * Without --port, the server talks over stdin and stdout.
+ */
+
+const USAGE = 'Usage: copilot-memory-mcp [--file <path to .copilot-memory.json>] [--port <localhost port>]';
+
+function readOption(args: string[], name: string): string | undefined {
+    const index = args.indexOf(name);
+    return index === -1 ? undefined : args[index + 1];
+}
+
+function readVersion(): string {
+    try {
+        return JSON.parse(fs.readFileSync(path.join(__dirname, '..', '..', 'package.json'), 'utf8')).version;
+    } catch {
+        return '0.0.0';
+    }
+}
+
+async function main(args: string[]): Promise<void> {
+    if (args.includes('--help')) {
+        console.log(USAGE);
+        return;
+    }
+
+    // stdout carries the protocol over stdio, so log lines go to stderr
+    Logger.setOutput({ appendLine: line => console.error(line) }, false);
+
+    const filePath = path.resolve(readOption(args, '--file') || STORAGE_CONSTANTS.localFileName);
+    const server = new McpServer(new JsonFileRuleSource(filePath), readVersion());
+
+    const port = readOption(args, '--port');
+    if (port === undefined) {
+        console.error(`Copilot Memory MCP server for ${filePath} on stdio`);
+        serveStdio(server);
+        return;
+    }
+
+    const portNumber = Number(port);
+    if (!Number.isInteger(portNumber) || portNumber < 1 || portNumber > 65535) {
+        throw new Error(`Invalid port: ${port}\n${USAGE}`);
+    }
+    await serveHttp(server, portNumber);
+    console.error(`Copilot Memory MCP server for ${filePath} at http://127.0.0.1:${portNumber}/mcp`);
+}
+
+main(process.argv.slice(2)).catch(error => {
+    console.error((error as Error).message);
+    process.exit(1);
+});
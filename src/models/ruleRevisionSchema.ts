@@ -0,0 +1,101 @@
+import * as mongoose from 'mongoose';
+
+/**
+ * MongoDB schema for Copilot Memory rule revisions
+ */
+export interface IRuleRevisionDocument extends mongoose.Document {
+    revisionId: string;
+    ruleId: string;
+    action: 'created' | 'updated' | 'activated' | 'deactivated' | 'deleted' | 'restored';
+    ruleText: string;
+    scope: 'global' | 'project' | 'language' | 'path' | 'custom';
+    languageScope?: string;
+    projectPath?: string;
+    pathPatterns?: string[];
+    customScope?: string;
+    condition?: string;
+    priority?: number;
+    supersedes?: string[];
+    isActive: boolean;
+    author: string;
+    createdAt: Date;
+}
+
+/**
+ * Mongoose schema definition for rule revisions
+ */
+const ruleRevisionSchema = new mongoose.Schema<IRuleRevisionDocument>({
+    revisionId: {
+        type: String,
+        required: true,
+        unique: true
+    },
+    ruleId: {
+        type: String,
+        required: true,
+        index: true
+    },
+    action: {
+        type: String,
+        required: true,
+        enum: ['created', 'updated', 'activated', 'deactivated', 'deleted', 'restored']
+    },
+    ruleText: {
+        type: String,
+        required: true,
+        maxlength: 500
+    },
+    scope: {
+        type: String,
+        required: true,
+        enum: ['global', 'project', 'language', 'path', 'custom']
+    },
+    languageScope: {
+        type: String
+    },
+    projectPath: {
+        type: String
+    },
+    pathPatterns: {
+        type: [String],
+        default: undefined
+    },
+    customScope: {
+        type: String
+    },
+    condition: {
+        type: String
+    },
+    priority: {
+        type: Number
+    },
+    supersedes: {
+        type: [String],
+        default: undefined
+    },
+    isActive: {
+        type: Boolean,
+        default: true
+    },
+    author: {
+        type: String,
+        required: true
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    }
+}, {
+    collection: 'copilot_rule_revisions'
+});
+
+// Revisions are always read per rule, newest first
+ruleRevisionSchema.index({ ruleId: 1, createdAt: -1 });
+
+/**
+ * Create and return the RuleRevision model
+ * Uses connection-specific model to support multiple databases
+ */
+export function createRuleRevisionModel(connection: mongoose.Connection): mongoose.Model<IRuleRevisionDocument> {
+    return connection.model<IRuleRevisionDocument>('RuleRevision', ruleRevisionSchema);
+}
@@ -6,12 +6,18 @@ import * as mongoose from 'mongoose';
 export interface IRuleDocument extends mongoose.Document {
     ruleId: string;
     ruleText: string;
-    scope: 'global' | 'project' | 'language';
+    scope: 'global' | 'project' | 'language' | 'path' | 'custom';
     languageScope?: string;
     projectPath?: string;
+    pathPatterns?: string[];
+    customScope?: string;
+    condition?: string;
+    priority?: number;
+    supersedes?: string[];
     createdAt: Date;
     updatedAt: Date;
     isActive: boolean;
+    deletedAt?: Date;
 }
 
 /**
@@ -32,7 +38,7 @@ const ruleSchema = new mongoose.Schema<IRuleDocument>({
     scope: {
         type: String,
         required: true,
-        enum: ['global', 'project', 'language'],
+        enum: ['global', 'project', 'language', 'path', 'custom'],
         index: true
     },
     languageScope: {
@@ -45,6 +51,23 @@ const ruleSchema = new mongoose.Schema<IRuleDocument>({
         index: true,
         sparse: true // Only index non-null values
     },
+    pathPatterns: {
+        type: [String],
+        default: undefined // Only path-scoped rules have patterns
+    },
+    customScope: {
+        type: String // Scope name registered by another extension
+    },
+    condition: {
+        type: String // When-clause checked when the rule is applied
+    },
+    priority: {
+        type: Number // Higher priorities come first in the composed prompt
+    },
+    supersedes: {
+        type: [String], // IDs of global rules this rule replaces
+        default: undefined
+    },
     createdAt: {
         type: Date,
         default: Date.now,
@@ -58,6 +81,11 @@ const ruleSchema = new mongoose.Schema<IRuleDocument>({
         type: Boolean,
         default: true,
         index: true
+    },
+    deletedAt: {
+        type: Date,
+        index: true,
+        sparse: true // Only trashed rules have a deletion date
     }
 }, {
     timestamps: true, // Automatically manage createdAt and updatedAt
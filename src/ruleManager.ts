@@ -1,224 +1,995 @@
-import * as vscode from 'vscode';
-import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
-import * as mongoose from 'mongoose';
-import { MongoService, MongoConnectionConfig } from './services/mongoService';
-import { createRuleModel, IRuleDocument } from './models/ruleSchema';
+import * as fs from 'fs';
+import { RuleHistoryService, RuleRevision, RuleRevisionAction } from './services/ruleHistoryService';
+import { ImportedRule, RuleImportMode, RuleImportPlan, RuleImportSummary, applyRuleImport, planRuleImport } from './services/ruleImportService';
+import { RuleSyncResult, planRuleSync } from './services/ruleSyncService';
+import { composeRules, planRulePriorities, sortRules } from './services/ruleOrderingService';
+import { PendingWriteQueue } from './services/pendingWriteQueue';
+import { RuleStore, RuleStoreFactory, BUILT_IN_BACKENDS, updateRules, upsertRule } from './stores/ruleStore';
+import { JsonRuleStore } from './stores/jsonRuleStore';
+import type { MongoRuleStore } from './stores/mongoRuleStore';
 import { Logger } from './utils/logger';
 import { ConfigValidator } from './utils/configValidator';
+import { Disposable, Emitter, Event } from './utils/events';
+import { getWorkspaceFolder, getWorkspaceRoot, getRelativePath, matchesPathPatterns } from './utils/workspacePaths';
+import { RuleConditionContext, evaluateCondition } from './utils/ruleCondition';
+import { STORAGE_CONSTANTS, RULE_LAYERS, RULE_SCOPES, RuleLayer, RuleScope } from './constants';
+import { RuleChangeEvent, RuleChangeEventType, CustomScope } from './api/extensionAPI';
+import { DocumentLocation, FoldersChangeEvent, HostFolder, RuleHost } from './core/host';
 
 export interface Rule {
     ruleId: string;
     ruleText: string;
-    scope: 'global' | 'project' | 'language';
+    scope: RuleScope;
     languageScope?: string;
     projectPath?: string;
+    /** Glob patterns, relative to the workspace folder, for path-scoped rules */
+    pathPatterns?: string[];
+    /** Name of a scope registered through the API, for custom-scoped rules */
+    customScope?: string;
+    /** When-clause that must also hold for the rule to apply, e.g. `workspaceContains:package.json` */
+    condition?: string;
+    /** Higher priorities come first when rules are composed into a prompt; unset counts as 0 */
+    priority?: number;
+    /** IDs of global rules this language, project or other non-global rule replaces */
+    supersedes?: string[];
     createdAt: Date;
     updatedAt: Date;
     isActive: boolean;
+    deletedAt?: Date;
+    layer?: RuleLayer;
+}
+
+/**
+ * Fields of a rule that can be changed after creation
+ */
+export type RuleUpdate = Partial<Pick<Rule, 'ruleText' | 'scope' | 'languageScope' | 'projectPath' | 'pathPatterns' | 'customScope' | 'condition' | 'priority' | 'supersedes' | 'isActive'>>;
+
+/**
+ * Scope details, condition and ordering given when adding a rule
+ */
+export type RuleDetails = Partial<Pick<Rule, 'pathPatterns' | 'customScope' | 'condition' | 'priority' | 'supersedes'>>;
+
+/**
+ * Revision action recorded for each kind of rule change
+ */
+const REVISION_ACTIONS: Record<RuleChangeEventType, RuleRevisionAction> = {
+    added: 'created',
+    removed: 'deleted',
+    updated: 'updated',
+    activated: 'activated',
+    deactivated: 'deactivated'
+};
+
+/**
+ * Rules read from a store alongside the primary store, such as the user's global rules or a team file
+ */
+interface RuleLayerState {
+    layer: RuleLayer;
+    store: RuleStore;
+    /** Workspace folder whose project rules the store holds, in a multi-root workspace */
+    folderPath?: string;
+    rules: Rule[];
+    subscription?: Disposable;
+    pendingReload?: NodeJS.Timeout;
 }
 
+/**
+ * Reads and writes rules across the primary store and the user, team and folder layers.
+ * Folders, settings and state come from the host, so it runs in VS Code and in plain Node.
+ */
 export class RuleManager {
-    private context: vscode.ExtensionContext;
-    private mongoService: MongoService | null = null;
-    private ruleModel: mongoose.Model<IRuleDocument> | null = null;
-    private localFilePath: string;
+    private host: RuleHost;
+    private localStore: JsonRuleStore;
+    private store: RuleStore;
+    private primaryLayer: RuleLayer;
+    private layers: RuleLayerState[] = [];
+    private storeFactories: Map<string, RuleStoreFactory> = new Map();
+    private customScopes: Map<string, CustomScope> = new Map();
+    private storeSubscriptions: Disposable[] = [];
+    private folderSubscription: Disposable | undefined;
+    private pendingReload: NodeJS.Timeout | undefined;
     private rules: Rule[] = [];
     private fallbackToLocal: boolean;
+    private historyService: RuleHistoryService;
+    private writeQueue: PendingWriteQueue;
+    private changeEmitter = new Emitter<RuleChangeEvent>();
+    private reconnectEmitter = new Emitter<void>();
 
-    constructor(context: vscode.ExtensionContext) {
-        this.context = context;
-        this.localFilePath = path.join(
-            vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || context.globalStorageUri.fsPath,
-            '.copilot-memory.json'
+    /**
+     * Fires after a rule has been added, removed, updated, activated or deactivated
+     */
+    readonly onDidChangeRules = this.changeEmitter.event;
+
+    /**
+     * Fires when a rule store that was unreachable, such as MongoDB, is back
+     */
+    readonly onDidReconnectStore = this.reconnectEmitter.event;
+
+    /**
+     * Fires with the number of writes waiting for the rule store whenever it changes
+     */
+    readonly onDidChangePendingWrites: Event<number>;
+
+    constructor(host: RuleHost) {
+        this.host = host;
+        const workspaceRoot = this.getFirstFolderPath();
+        const storageDir = workspaceRoot || host.globalStoragePath;
+
+        // Without a workspace, the primary store holds the user's global rules
+        this.primaryLayer = workspaceRoot ? 'workspace' : 'user';
+
+        // Without a workspace, rules from the legacy global storage file are migrated
+        this.localStore = new JsonRuleStore(
+            path.join(storageDir, STORAGE_CONSTANTS.localFileName),
+            workspaceRoot
+                ? undefined
+                : path.join(host.globalStoragePath, STORAGE_CONSTANTS.legacyGlobalFileName),
+            workspaceRoot
         );
+        this.store = this.localStore;
+        this.historyService = new RuleHistoryService(path.join(storageDir, STORAGE_CONSTANTS.historyFileName));
+        this.writeQueue = new PendingWriteQueue(path.join(storageDir, STORAGE_CONSTANTS.queueFileName));
+        this.onDidChangePendingWrites = this.writeQueue.onDidChange;
 
         // Get configuration settings
-        const config = vscode.workspace.getConfiguration('copilotMemory');
-        this.fallbackToLocal = config.get<boolean>('fallbackToLocal', true);
+        this.fallbackToLocal = host.configuration.get<boolean>('fallbackToLocal') ?? true;
     }
 
     async initialize(): Promise<void> {
         Logger.info('RuleManager initializing...');
-        const config = ConfigValidator.getSafeConfig();
-        const mongoUri = config.mongodbUri;
+        const config = ConfigValidator.getSafeConfig(this.host);
 
-        // Try to connect to MongoDB first
-        if (mongoUri && mongoUri !== 'mongodb://localhost:27017/copilot-memory') {
-            try {
-                await this.connectToMongoDB(mongoUri);
-                Logger.info('Connected to MongoDB');
-            } catch (error) {
-                Logger.error('Failed to connect to MongoDB', error as Error);
-                if (!this.fallbackToLocal) {
-                    throw new Error('MongoDB connection failed and fallback is disabled');
+        await this.localStore.initialize();
+        await this.useStore(await this.createStore(config.storageBackend));
+        await this.openLayers(config.teamRulesSource);
+
+        try {
+            await this.purgeExpiredTrash(config.trashRetentionDays);
+        } catch (error) {
+            Logger.error('Failed to purge expired trash', error as Error);
+        }
+    }
+
+    /**
+     * Register a storage backend that can be selected with copilotMemory.storageBackend
+     */
+    registerStore(id: string, factory: RuleStoreFactory): Disposable {
+        if ((BUILT_IN_BACKENDS as readonly string[]).includes(id)) {
+            throw new Error(`Cannot override built-in rule store: ${id}`);
+        }
+        if (this.storeFactories.has(id)) {
+            throw new Error(`Rule store already registered: ${id}`);
+        }
+
+        this.storeFactories.set(id, factory);
+        Logger.info(`Registered rule store: ${id}`);
+
+        // Stores registered after activation take over if they are the configured backend
+        if (ConfigValidator.getSafeConfig(this.host).storageBackend === id && this.store.id !== id) {
+            this.switchStore(id).catch(error => Logger.error(`Failed to switch to rule store ${id}`, error as Error));
+        }
+
+        return {
+            dispose: () => {
+                this.storeFactories.delete(id);
+                if (this.store.id === id) {
+                    this.switchStore('json').catch(error => Logger.error('Failed to switch to local rule store', error as Error));
                 }
             }
-        } else {
-            Logger.info('Skipping MongoDB connection (using default/test URI)');
+        };
+    }
+
+    /**
+     * Register a scope whose validator decides where custom-scoped rules with its name apply
+     */
+    registerCustomScope(scope: CustomScope): Disposable {
+        if ((RULE_SCOPES as readonly string[]).includes(scope.name)) {
+            throw new Error(`Cannot override built-in scope: ${scope.name}`);
         }
 
-        // Load rules from appropriate source
-        if (this.mongoService?.isConnected()) {
-            await this.loadRulesFromMongo();
-        } else {
-            await this.loadRulesFromLocal();
+        this.customScopes.set(scope.name, scope);
+        Logger.info(`Registered custom scope: ${scope.name}`);
+
+        // Remember the owner so its rules can be explained once the extension is gone
+        if (scope.extensionId) {
+            const owners = this.getCustomScopeOwners();
+            if (owners[scope.name] !== scope.extensionId) {
+                owners[scope.name] = scope.extensionId;
+                this.host.globalState.update(STORAGE_CONSTANTS.customScopeOwnersKey, owners).then(undefined, error => {
+                    Logger.error('Failed to save custom scope owners', error as Error);
+                });
+            }
         }
+
+        return {
+            dispose: () => {
+                if (this.customScopes.get(scope.name) === scope) {
+                    this.customScopes.delete(scope.name);
+                }
+            }
+        };
     }
 
-    private async connectToMongoDB(uri: string): Promise<void> {
-        try {
-            Logger.info('Connecting to MongoDB...');
-
-            const connectionConfig: MongoConnectionConfig = {
-                uri,
-                maxPoolSize: 10,
-                minPoolSize: 2,
-                maxConnecting: 2,
-                connectTimeoutMS: 10000,
-                serverSelectionTimeoutMS: 5000,
-                heartbeatFrequencyMS: 10000,
-                retryWrites: true,
-                retryReads: true
-            };
-
-            this.mongoService = MongoService.getInstance(connectionConfig, {
-                maxRetries: 3,
-                retryDelayMs: 1000,
-                exponentialBackoff: true
-            });
+    /**
+     * Custom scopes registered in this session
+     */
+    getCustomScopes(): CustomScope[] {
+        return Array.from(this.customScopes.values());
+    }
+
+    /**
+     * Why a custom-scoped rule is inactive, or undefined when its scope is registered
+     */
+    getCustomScopeProblem(rule: Rule): string | undefined {
+        if (rule.scope !== 'custom' || (rule.customScope && this.customScopes.has(rule.customScope))) {
+            return undefined;
+        }
+
+        const owner = rule.customScope ? this.getCustomScopeOwners()[rule.customScope] : undefined;
+        if (owner && this.host.isExtensionInstalled?.(owner) === false) {
+            return `Extension ${owner} is not installed`;
+        }
+        return `Scope "${rule.customScope}" is not registered`;
+    }
 
-            const connection = await this.mongoService.connect();
-            this.ruleModel = createRuleModel(connection);
+    private getCustomScopeOwners(): Record<string, string> {
+        return { ...this.host.globalState.get<Record<string, string>>(STORAGE_CONSTANTS.customScopeOwnersKey, {}) };
+    }
 
-            Logger.info('Connected to MongoDB successfully');
+    /**
+     * Layer of the primary store, which rules are added to by default
+     */
+    getPrimaryLayer(): RuleLayer {
+        return this.primaryLayer;
+    }
+
+    /**
+     * Layers rules can be added to, highest precedence first
+     */
+    getRuleLayers(): RuleLayer[] {
+        const available = [this.primaryLayer, ...this.layers.map(state => state.layer)];
+        return RULE_LAYERS.filter(layer => available.includes(layer));
+    }
+
+    /**
+     * Open the user, team and workspace folder layers that are read alongside the primary store
+     */
+    private async openLayers(teamRulesSource: string): Promise<void> {
+        const stores: Array<[RuleLayer, RuleStore | undefined]> = [
+            ['team', await this.createTeamStore(teamRulesSource)]
+        ];
+        if (this.primaryLayer !== 'user') {
+            const globalStorageDir = this.host.globalStoragePath;
+            stores.push(['user', new JsonRuleStore(
+                path.join(globalStorageDir, STORAGE_CONSTANTS.localFileName),
+                path.join(globalStorageDir, STORAGE_CONSTANTS.legacyGlobalFileName),
+                this.getFirstFolderPath()
+            )]);
+        }
+
+        for (const [layer, store] of stores) {
+            if (store) {
+                await this.openLayer(layer, store);
+            }
+        }
+
+        if (this.primaryLayer === 'workspace') {
+            for (const folder of this.host.workspace.getFolders()) {
+                await this.openFolderLayer(folder);
+            }
+            this.folderSubscription = this.host.workspace.onDidChangeFolders?.(event => {
+                this.updateFolderLayers(event).catch(error =>
+                    Logger.error('Failed to update workspace folder rules', error as Error));
+            });
+        }
+    }
+
+    private async openLayer(layer: RuleLayer, store: RuleStore, folderPath?: string): Promise<RuleLayerState | undefined> {
+        try {
+            await store.initialize?.();
+            const state: RuleLayerState = { layer, store, folderPath, rules: this.withLayer(await store.list(), layer) };
+            if (store.watch) {
+                state.subscription = store.watch(() => this.scheduleLayerReload(state));
+            }
+            this.layers.push(state);
+            Logger.info(`Loaded ${state.rules.length} rules from the ${layer} layer (${store.id} store)`);
+            return state;
         } catch (error) {
-            Logger.error('MongoDB connection failed', error as Error);
-            throw error;
+            Logger.error(`Failed to open the ${layer} rule layer`, error as Error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Open the .copilot-memory.json of a workspace folder other than the one holding the primary rules
+     */
+    private async openFolderLayer(folder: HostFolder): Promise<RuleLayerState | undefined> {
+        const filePath = path.join(folder.fsPath, STORAGE_CONSTANTS.localFileName);
+        if (filePath === this.localStore.filePath || this.layers.some(state => state.folderPath === folder.fsPath)) {
+            return undefined;
+        }
+        return this.openLayer('workspace', new JsonRuleStore(filePath), folder.fsPath);
+    }
+
+    private async updateFolderLayers(event: FoldersChangeEvent): Promise<void> {
+        for (const folder of event.removed) {
+            const state = this.layers.find(s => s.folderPath === folder.fsPath);
+            if (state) {
+                this.layers = this.layers.filter(s => s !== state);
+                this.closeLayer(state);
+                this.emitChanges(state.rules, []);
+            }
+        }
+        for (const folder of event.added) {
+            const state = await this.openFolderLayer(folder);
+            if (state) {
+                this.emitChanges([], state.rules);
+            }
+        }
+    }
+
+    private closeLayer(state: RuleLayerState): void {
+        state.subscription?.dispose();
+        if (state.pendingReload) {
+            clearTimeout(state.pendingReload);
+        }
+        Promise.resolve(state.store.dispose?.()).catch(error =>
+            Logger.error(`Failed to close the ${state.layer} rule layer`, error as Error));
+    }
+
+    /**
+     * Create the store for a team rules file path or MongoDB connection string
+     */
+    private async createTeamStore(source: string): Promise<RuleStore | undefined> {
+        if (!source) {
+            return undefined;
+        }
+
+        if (/^mongodb(\+srv)?:\/\//.test(source)) {
+            if (this.getMongoStore() && source === ConfigValidator.getSafeConfig(this.host).mongodbUri) {
+                Logger.warn('Team rules source is the primary MongoDB database, ignoring it');
+                return undefined;
+            }
+            return new (await import('./stores/mongoRuleStore')).MongoRuleStore(source, true);
         }
+
+        const workspaceRoot = this.getFirstFolderPath();
+        if (!path.isAbsolute(source) && !workspaceRoot) {
+            Logger.warn(`Cannot resolve team rules file ${source} without a workspace folder`);
+            return undefined;
+        }
+
+        const filePath = path.resolve(workspaceRoot || '', source);
+        if (filePath === this.localStore.filePath) {
+            Logger.warn('Team rules file is the workspace rules file, ignoring it');
+            return undefined;
+        }
+        return new JsonRuleStore(filePath);
+    }
+
+    private scheduleLayerReload(state: RuleLayerState): void {
+        if (state.pendingReload) {
+            clearTimeout(state.pendingReload);
+        }
+        state.pendingReload = setTimeout(async () => {
+            state.pendingReload = undefined;
+            try {
+                const previous = state.rules;
+                state.rules = this.withLayer(await state.store.list(), state.layer);
+                this.emitChanges(previous, state.rules);
+            } catch (error) {
+                Logger.error(`Failed to reload the ${state.layer} rule layer`, error as Error);
+            }
+        }, 300);
     }
 
-    private async loadRulesFromMongo(): Promise<void> {
+    private withLayer(rules: Rule[], layer: RuleLayer): Rule[] {
+        for (const rule of rules) {
+            rule.layer = layer;
+        }
+        return rules;
+    }
+
+    /**
+     * Rules of every layer, including trashed ones, highest precedence first
+     */
+    private allRules(): Rule[] {
+        const rank = (rule: Rule) => RULE_LAYERS.indexOf(rule.layer || this.primaryLayer);
+        return [...this.rules, ...this.layers.flatMap(state => state.rules)]
+            .sort((a, b) => rank(a) - rank(b));
+    }
+
+    /**
+     * Non-trashed rules of every layer. When the same rule is in more than one layer,
+     * by ID or by scope and text, only the copy from the highest-precedence layer is kept,
+     * so a workspace copy can change or deactivate a user or team rule. Rules within one layer are all kept.
+     */
+    private getVisibleRules(): Rule[] {
+        const seen = new Map<string, RuleLayer>();
+        return this.allRules().filter(rule => {
+            if (rule.deletedAt) {
+                return false;
+            }
+            const keys = [
+                rule.ruleId,
+                [
+                    rule.scope,
+                    rule.languageScope || '',
+                    rule.projectPath || '',
+                    (rule.pathPatterns || []).join('\n'),
+                    rule.customScope || '',
+                    rule.condition || '',
+                    rule.ruleText.trim().toLowerCase()
+                ].join(':')
+            ];
+            const layer = rule.layer || this.primaryLayer;
+            const shadowed = keys.some(key => seen.has(key) && seen.get(key) !== layer);
+            keys.filter(key => !seen.has(key)).forEach(key => seen.set(key, layer));
+            return !shadowed;
+        });
+    }
+
+    /**
+     * Layer holding a rule, or undefined for rules of the primary store
+     */
+    private getLayerState(rule: Rule): RuleLayerState | undefined {
+        return this.layers.find(state => state.rules.includes(rule));
+    }
+
+    /**
+     * Layer a new rule is written to, or undefined for the primary store
+     */
+    private getTargetLayerState(rule: Rule): RuleLayerState | undefined {
+        // Project rules of other workspace folders are kept in that folder's file
+        if (rule.layer === 'workspace' && rule.scope === 'project') {
+            const folderState = this.layers.find(state => state.folderPath && state.folderPath === rule.projectPath);
+            if (folderState) {
+                return folderState;
+            }
+        }
+        return rule.layer === this.primaryLayer
+            ? undefined
+            : this.layers.find(state => state.layer === rule.layer && !state.folderPath);
+    }
+
+    /**
+     * Identifier of the store rules are read from and written to
+     */
+    getStorageBackend(): string {
+        return this.store.id;
+    }
+
+    /**
+     * The primary store when it is MongoDB; registered stores cannot use the built-in mongodb ID
+     */
+    private getMongoStore(): MongoRuleStore | undefined {
+        return this.store.id === 'mongodb' ? this.store as MongoRuleStore : undefined;
+    }
+
+    /**
+     * Create the store for a storage backend, falling back to the local file when allowed
+     */
+    private async createStore(backend: string): Promise<RuleStore> {
+        switch (backend) {
+            case 'json':
+                return this.localStore;
+            case 'sqlite': {
+                // The MongoDB and SQLite drivers are only loaded when their backend is selected
+                const sqlite = await import('./stores/sqliteRuleStore');
+                return this.initializeStore(
+                    new sqlite.SqliteRuleStore(path.join(path.dirname(this.localStore.filePath), STORAGE_CONSTANTS.sqliteFileName))
+                );
+            }
+            case 'auto':
+            case 'mongodb': {
+                const mongoUri = ConfigValidator.getSafeConfig(this.host).mongodbUri;
+                if (!mongoUri || mongoUri === STORAGE_CONSTANTS.defaultMongoUri) {
+                    Logger.info('Skipping MongoDB connection (using default/test URI)');
+                    return this.localStore;
+                }
+                return this.initializeStore(new (await import('./stores/mongoRuleStore')).MongoRuleStore(mongoUri));
+            }
+            default: {
+                const factory = this.storeFactories.get(backend);
+                if (!factory) {
+                    // The providing extension may register it later
+                    Logger.warn(`Rule store "${backend}" is not registered yet, using local storage`);
+                    return this.localStore;
+                }
+                return this.initializeStore(await factory());
+            }
+        }
+    }
+
+    private async initializeStore(store: RuleStore): Promise<RuleStore> {
         try {
-            if (!this.ruleModel) {
-                throw new Error('MongoDB model not initialized');
+            await store.initialize?.();
+            Logger.info(`Using ${store.id} rule store`);
+            return store;
+        } catch (error) {
+            Logger.error(`Failed to open ${store.id} rule store`, error as Error);
+            if (!this.fallbackToLocal) {
+                throw new Error(`${store.id} rule store failed and fallback is disabled`);
             }
+            return this.localStore;
+        }
+    }
 
-            Logger.info('Loading rules from MongoDB...');
-            const mongoRules = await this.ruleModel.find({ isActive: true }).sort({ createdAt: -1 });
-
-            this.rules = mongoRules.map(rule => ({
-                ruleId: rule.ruleId,
-                ruleText: rule.ruleText,
-                scope: rule.scope,
-                languageScope: rule.languageScope,
-                projectPath: rule.projectPath,
-                createdAt: rule.createdAt,
-                updatedAt: rule.updatedAt,
-                isActive: rule.isActive
+    private async switchStore(backend: string): Promise<void> {
+        const previous = this.rules;
+        await this.useStore(await this.createStore(backend));
+        this.emitChanges(previous, this.rules);
+    }
+
+    /**
+     * Make a store the primary store and load rules from it
+     */
+    private async useStore(store: RuleStore): Promise<void> {
+        this.storeSubscriptions.forEach(subscription => subscription.dispose());
+        this.storeSubscriptions = [];
+        if (this.store !== store && this.store !== this.localStore) {
+            await this.store.dispose?.();
+        }
+        this.store = store;
+
+        // Revisions live next to the rules when MongoDB is used
+        const connection = this.getMongoStore()?.getConnection();
+        if (connection) {
+            const { createRuleRevisionModel } = await import('./models/ruleRevisionSchema');
+            this.historyService.setModel(createRuleRevisionModel(connection));
+        } else {
+            this.historyService.setModel(null);
+        }
+
+        if (store.onDidBecomeAvailable) {
+            this.storeSubscriptions.push(store.onDidBecomeAvailable(async () => {
+                // Writes made while offline go first so a following sync sees them
+                await this.replayPendingWrites();
+                this.reconnectEmitter.fire();
             }));
+        }
 
-            Logger.info(`Loaded ${this.rules.length} rules from MongoDB`);
-        } catch (error) {
-            Logger.error('Failed to load rules from MongoDB', error as Error);
-            if (this.fallbackToLocal) {
-                Logger.info('Falling back to local storage');
-                await this.loadRulesFromLocal();
-            } else {
-                throw error;
+        if (store.watch) {
+            try {
+                this.storeSubscriptions.push(store.watch(() => this.scheduleReload()));
+            } catch (error) {
+                Logger.warn(`Cannot watch ${store.id} rule store for outside changes: ${(error as Error).message}`);
             }
         }
+
+        await this.replayPendingWrites();
+        await this.loadRules();
     }
 
-    private async loadRulesFromLocal(): Promise<void> {
+    private async loadRules(): Promise<void> {
         try {
-            if (fs.existsSync(this.localFilePath)) {
-                const data = fs.readFileSync(this.localFilePath, 'utf8');
-                this.rules = JSON.parse(data).map((rule: any) => ({
-                    ...rule,
-                    createdAt: new Date(rule.createdAt),
-                    updatedAt: new Date(rule.updatedAt)
-                }));
+            // Inactive and trashed rules are loaded too so they can be listed and restored
+            this.rules = this.withLayer(await this.store.list(), this.primaryLayer);
+            Logger.info(`Loaded ${this.rules.length} rules from ${this.store.id} store`);
+        } catch (error) {
+            Logger.error(`Failed to load rules from ${this.store.id} store`, error as Error);
+            if (this.store !== this.localStore && this.fallbackToLocal) {
+                Logger.info('Falling back to local storage');
+                this.rules = this.withLayer(await this.localStore.list(), this.primaryLayer);
             } else {
-                this.rules = [];
+                throw error;
             }
-        } catch (error) {
-            console.error('Failed to load rules from local file:', error);
-            this.rules = [];
         }
     }
 
-    private async saveRulesToLocal(): Promise<void> {
-        try {
-            const dir = path.dirname(this.localFilePath);
-            if (!fs.existsSync(dir)) {
-                fs.mkdirSync(dir, { recursive: true });
+    /**
+     * Reload rules after an outside change, batching bursts of change notifications
+     */
+    private scheduleReload(): void {
+        if (this.pendingReload) {
+            clearTimeout(this.pendingReload);
+        }
+        this.pendingReload = setTimeout(async () => {
+            this.pendingReload = undefined;
+            try {
+                const previous = this.rules;
+                this.rules = this.withLayer(await this.store.list(), this.primaryLayer);
+                this.emitChanges(previous, this.rules);
+            } catch (error) {
+                Logger.error(`Failed to reload rules from ${this.store.id} store`, error as Error);
             }
-            fs.writeFileSync(this.localFilePath, JSON.stringify(this.rules, null, 2));
-        } catch (error) {
-            console.error('Failed to save rules to local file:', error);
-            throw error;
+        }, 300);
+    }
+
+    /**
+     * Replay writes queued while the rule store was unreachable
+     */
+    private async replayPendingWrites(): Promise<void> {
+        if (this.writeQueue.size === 0 || this.store === this.localStore || this.store.isAvailable?.() === false) {
+            return;
         }
+        await this.writeQueue.replay(this.store);
+    }
+
+    /**
+     * Number of writes waiting for the rule store to become reachable
+     */
+    getPendingWriteCount(): number {
+        return this.writeQueue.size;
+    }
+
+    private async saveRulesToLocal(rules: Rule[] = this.rules): Promise<void> {
+        await this.localStore.replaceAll(rules);
     }
 
     async addRule(
         ruleText: string,
-        scope: 'global' | 'project' | 'language',
-        languageScope?: string
-    ): Promise<void> {
+        scope: RuleScope,
+        languageScope?: string,
+        projectPath?: string,
+        layer: RuleLayer = this.primaryLayer,
+        details: RuleDetails = {}
+    ): Promise<string> {
         const rule: Rule = {
             ruleId: crypto.randomUUID(),
             ruleText,
             scope,
             languageScope,
-            projectPath: scope === 'project' ? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath : undefined,
+            projectPath: scope === 'project'
+                ? projectPath || getWorkspaceRoot(undefined, this.host.workspace)
+                : undefined,
+            pathPatterns: scope === 'path' ? details.pathPatterns : undefined,
+            customScope: scope === 'custom' ? details.customScope : undefined,
+            condition: details.condition || undefined,
+            priority: details.priority,
+            supersedes: scope !== 'global' && details.supersedes?.length ? details.supersedes : undefined,
             createdAt: new Date(),
             updatedAt: new Date(),
             isActive: true
         };
 
+        await this.insertRule(rule, layer);
+        return rule.ruleId;
+    }
+
+    /**
+     * Work out which imported rules are new, changed or identical without writing anything
+     */
+    planImport(incoming: ImportedRule[], mode: RuleImportMode): RuleImportPlan {
+        return planRuleImport(this.rules.filter(rule => !rule.deletedAt), incoming, mode);
+    }
+
+    /**
+     * Apply a previously computed import plan
+     */
+    async applyImport(plan: RuleImportPlan): Promise<RuleImportSummary> {
+        const summary = await applyRuleImport(plan, {
+            hasRuleId: ruleId => this.allRules().some(rule => rule.ruleId === ruleId),
+            insertRule: rule => this.insertRule(rule),
+            updateRule: async (ruleId, updates) => {
+                await this.updateRule(ruleId, updates);
+            },
+            removeRule: ruleId => this.removeRule(ruleId)
+        });
+
+        Logger.info(`Imported rules (${plan.mode}): ${summary.added} added, ${summary.updated} updated, ${summary.removed} removed`);
+        return summary;
+    }
+
+    private async insertRule(rule: Rule, layer: RuleLayer = this.primaryLayer): Promise<void> {
+        rule.layer = layer;
+
+        const state = this.getTargetLayerState(rule);
+        if (state) {
+            await state.store.create(rule);
+            state.rules.push(rule);
+            await this.notifyChange('added', rule);
+            return;
+        }
+        if (layer !== this.primaryLayer) {
+            throw new Error(`The ${layer} rule layer is not available`);
+        }
+
         this.rules.push(rule);
 
-        if (this.mongoService?.isConnected() && this.ruleModel) {
-            try {
-                await this.ruleModel.create(rule);
-                Logger.info(`Saved rule ${rule.ruleId} to MongoDB`);
-            } catch (error) {
-                Logger.error('Failed to save rule to MongoDB', error as Error);
-                if (this.fallbackToLocal) {
-                    await this.saveRulesToLocal();
-                } else {
-                    throw error;
-                }
+        await this.persist(
+            `save rule ${rule.ruleId}`,
+            store => store.create(rule),
+            () => this.writeQueue.enqueueUpsert(rule)
+        );
+
+        await this.notifyChange('added', rule);
+    }
+
+    /**
+     * Move a rule to the trash; it can be restored until the retention period ends
+     */
+    async removeRule(ruleId: string): Promise<void> {
+        const rule = this.findRule(ruleId);
+
+        await this.persistUpdate(rule, { deletedAt: new Date() });
+        Logger.info(`Moved rule ${ruleId} to trash`);
+
+        await this.notifyChange('removed', rule);
+    }
+
+    /**
+     * Bring a rule back from the trash
+     */
+    async restoreRule(ruleId: string): Promise<Rule> {
+        const rule = this.allRules().find(r => r.ruleId === ruleId && r.deletedAt);
+        if (!rule) {
+            throw new Error(`Rule not found in trash: ${ruleId}`);
+        }
+
+        await this.persistUpdate(rule, { deletedAt: undefined });
+        Logger.info(`Restored rule ${ruleId} from trash`);
+
+        await this.notifyChange('added', rule, 'restored');
+        return rule;
+    }
+
+    /**
+     * Get rules in the trash, most recently removed first
+     */
+    async getTrash(): Promise<Rule[]> {
+        return this.allRules()
+            .filter(rule => rule.deletedAt)
+            .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+    }
+
+    /**
+     * Permanently delete every rule in the trash
+     */
+    async emptyTrash(): Promise<number> {
+        const trashed = this.allRules().filter(rule => rule.deletedAt);
+        await this.deleteRulesPermanently(trashed);
+        return trashed.length;
+    }
+
+    /**
+     * Permanently delete trashed rules older than the retention period
+     */
+    async purgeExpiredTrash(retentionDays: number): Promise<number> {
+        const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+        const expired = this.allRules().filter(rule => rule.deletedAt && rule.deletedAt.getTime() < cutoff);
+
+        if (expired.length > 0) {
+            await this.deleteRulesPermanently(expired);
+            Logger.info(`Purged ${expired.length} expired rules from trash`);
+        }
+
+        return expired.length;
+    }
+
+    private async deleteRulesPermanently(rules: Rule[]): Promise<void> {
+        for (const state of this.layers) {
+            const layerRules = rules.filter(rule => this.getLayerState(rule) === state);
+            if (layerRules.length > 0) {
+                state.rules = state.rules.filter(rule => !layerRules.includes(rule));
+                await state.store.delete(layerRules.map(rule => rule.ruleId));
             }
-        } else {
-            await this.saveRulesToLocal();
         }
+
+        const ruleIds = rules.filter(rule => !this.getLayerState(rule)).map(rule => rule.ruleId);
+        if (ruleIds.length === 0) {
+            return;
+        }
+
+        this.rules = this.rules.filter(rule => !ruleIds.includes(rule.ruleId));
+        await this.addTombstones(ruleIds);
+
+        await this.persist(
+            `delete ${ruleIds.length} rules`,
+            store => store.delete(ruleIds),
+            () => ruleIds.forEach(ruleId => this.writeQueue.enqueueDelete(ruleId))
+        );
     }
 
-    async removeRule(ruleId: string): Promise<void> {
-        this.rules = this.rules.filter(rule => rule.ruleId !== ruleId);
+    /**
+     * Remember permanently deleted rules so sync does not bring them back
+     */
+    private async addTombstones(ruleIds: string[]): Promise<void> {
+        const tombstones = this.getTombstones();
+        const deletedAt = new Date().toISOString();
+        for (const ruleId of ruleIds) {
+            tombstones[ruleId] = deletedAt;
+        }
+        await this.host.workspaceState.update(STORAGE_CONSTANTS.tombstonesKey, tombstones);
+    }
 
-        if (this.mongoService?.isConnected() && this.ruleModel) {
-            try {
-                await this.ruleModel.findOneAndDelete({ ruleId });
-                Logger.info(`Removed rule ${ruleId} from MongoDB`);
-            } catch (error) {
-                Logger.error('Failed to remove rule from MongoDB', error as Error);
-                if (this.fallbackToLocal) {
-                    await this.saveRulesToLocal();
-                } else {
-                    throw error;
-                }
+    private getTombstones(): Record<string, string> {
+        return { ...this.host.workspaceState.get<Record<string, string>>(STORAGE_CONSTANTS.tombstonesKey, {}) };
+    }
+
+    /**
+     * Two-way sync between the local rules file and the configured rule store, newest change wins
+     */
+    async synchronize(lastSyncAt?: Date): Promise<RuleSyncResult> {
+        if (this.store === this.localStore) {
+            // The remote store may have been unreachable at startup
+            const backend = ConfigValidator.getSafeConfig(this.host).storageBackend;
+            if (backend !== 'json') {
+                await this.useStore(await this.createStore(backend));
+            }
+            if (this.store === this.localStore) {
+                throw new Error('Sync needs a remote rule store such as MongoDB');
             }
+        }
+        if (this.store.isAvailable?.() === false) {
+            throw new Error(`The ${this.store.id} rule store is not reachable`);
+        }
+
+        const syncedAt = new Date();
+        const local = await this.localStore.list();
+        const remote = await this.store.list();
+        const tombstones = this.getTombstones();
+
+        const plan = planRuleSync(local, remote, tombstones, lastSyncAt);
+
+        for (const rule of plan.toPush) {
+            await upsertRule(this.store, rule);
+        }
+        if (plan.removeRemote.length > 0) {
+            await this.store.delete(plan.removeRemote);
+        }
+
+        const previous = this.rules;
+        this.rules = this.withLayer(plan.merged, this.primaryLayer);
+        await this.saveRulesToLocal();
+
+        // Both sides now match, so queued offline writes are redundant
+        this.writeQueue.clear();
+
+        // Tombstones are only needed until both sides have dropped the rule
+        for (const ruleId of Object.keys(tombstones)) {
+            if (!plan.merged.some(rule => rule.ruleId === ruleId)) {
+                delete tombstones[ruleId];
+            }
+        }
+        await this.host.workspaceState.update(STORAGE_CONSTANTS.tombstonesKey, tombstones);
+
+        // Changes pulled from the remote store were recorded in history where they were made
+        this.emitChanges(previous, this.rules);
+
+        return {
+            pushed: plan.toPush.length + plan.removeRemote.length,
+            pulled: plan.toPull.length + plan.removeLocal.length,
+            conflicts: plan.conflicts,
+            syncedAt
+        };
+    }
+
+    /**
+     * Fire change events for the differences between two snapshots of the rules
+     */
+    private emitChanges(previous: Rule[], next: Rule[]): void {
+        const previousById = new Map(previous.map(rule => [rule.ruleId, rule]));
+        const nextIds = new Set(next.map(rule => rule.ruleId));
+
+        for (const rule of next) {
+            const before = previousById.get(rule.ruleId);
+            const wasVisible = before !== undefined && !before.deletedAt;
+            if (!rule.deletedAt && !wasVisible) {
+                this.fireChange('added', rule);
+            } else if (rule.deletedAt && wasVisible) {
+                this.fireChange('removed', rule);
+            } else if (!rule.deletedAt && before!.updatedAt.getTime() !== rule.updatedAt.getTime()) {
+                this.fireChange('updated', rule);
+            }
+        }
+        for (const rule of previous) {
+            if (!rule.deletedAt && !nextIds.has(rule.ruleId)) {
+                this.fireChange('removed', rule);
+            }
+        }
+    }
+
+    /**
+     * Apply changes to an existing rule and persist them
+     */
+    async updateRule(ruleId: string, updates: RuleUpdate): Promise<Rule> {
+        const rule = this.findRule(ruleId);
+        const wasActive = rule.isActive;
+
+        await this.persistUpdate(rule, updates);
+
+        if (updates.isActive !== undefined && updates.isActive !== wasActive) {
+            await this.notifyChange(rule.isActive ? 'activated' : 'deactivated', rule);
         } else {
-            await this.saveRulesToLocal();
+            await this.notifyChange('updated', rule);
         }
+
+        return rule;
+    }
+
+    /**
+     * Activate or deactivate a rule without removing it
+     */
+    async setRuleActive(ruleId: string, isActive: boolean): Promise<Rule> {
+        return this.updateRule(ruleId, { isActive });
     }
 
-    async getRules(scope?: 'global' | 'project' | 'language', languageId?: string): Promise<Rule[]> {
-        let filteredRules = this.rules.filter(rule => rule.isActive);
+    /**
+     * Get the revisions of a rule, newest first
+     */
+    async getRuleHistory(ruleId: string): Promise<RuleRevision[]> {
+        return this.historyService.getHistory(ruleId);
+    }
+
+    /**
+     * Restore an existing rule to the state captured in one of its revisions
+     */
+    async restoreRevision(ruleId: string, revisionId: string): Promise<Rule> {
+        const rule = this.findRule(ruleId);
+        const history = await this.historyService.getHistory(ruleId);
+        const revision = history.find(r => r.revisionId === revisionId);
+        if (!revision) {
+            throw new Error(`Revision not found: ${revisionId}`);
+        }
+
+        await this.persistUpdate(rule, {
+            ruleText: revision.ruleText,
+            scope: revision.scope,
+            languageScope: revision.languageScope,
+            projectPath: revision.projectPath,
+            pathPatterns: revision.pathPatterns,
+            customScope: revision.customScope,
+            condition: revision.condition,
+            priority: revision.priority,
+            supersedes: revision.supersedes,
+            isActive: revision.isActive
+        });
+        await this.notifyChange('updated', rule, 'restored');
+
+        return rule;
+    }
+
+    /**
+     * Move a rule up (negative offset) or down among the rules of the current context with the
+     * same scope, language and layer. Those rules are given priorities matching the new order; the ones
+     * whose priority changes are written together.
+     */
+    async moveRule(ruleId: string, offset: number): Promise<void> {
+        const moved = (await this.getRules()).find(rule => rule.ruleId === ruleId);
+        if (!moved) {
+            throw new Error(`Rule not found: ${ruleId}`);
+        }
+
+        const state = this.getLayerState(moved);
+        const rules = (await this.getRules(moved.scope))
+            .filter(rule => rule.layer === moved.layer && rule.languageScope === moved.languageScope && this.getLayerState(rule) === state);
+        const index = rules.indexOf(moved);
+        const target = Math.max(0, Math.min(rules.length - 1, index + offset));
+        if (target === index) {
+            return;
+        }
+
+        rules.splice(index, 1);
+        rules.splice(target, 0, moved);
+
+        const priorities = planRulePriorities(rules);
+        await this.persistUpdates(new Map(rules
+            .filter(rule => priorities.has(rule.ruleId))
+            .map(rule => [rule, { priority: priorities.get(rule.ruleId) }])));
+        await this.notifyChange('updated', moved);
+        Logger.info(`Moved rule ${ruleId} to position ${target + 1} of its ${moved.scope} rules`);
+    }
+
+    /**
+     * Get every rule in prompt order, including the project rules of other projects
+     */
+    async getAllRules(scope?: RuleScope): Promise<Rule[]> {
+        return sortRules(this.getVisibleRules().filter(rule => !scope || rule.scope === scope));
+    }
+
+    /**
+     * Get rules in prompt order, with project rules limited to the workspace folder of a document
+     * (by default the active document)
+     */
+    async getRules(
+        scope?: RuleScope,
+        languageId?: string,
+        documentUri?: DocumentLocation
+    ): Promise<Rule[]> {
+        let filteredRules = this.getVisibleRules();
 
         if (scope) {
             filteredRules = filteredRules.filter(rule => rule.scope === scope);
@@ -230,35 +1001,260 @@ export class RuleManager {
             );
         }
 
-        // For project scope, filter by current workspace
-        const currentProjectPath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        // For project scope, filter by the workspace folder of the document
+        const currentProjectPath = getWorkspaceRoot(documentUri, this.host.workspace);
         if (currentProjectPath) {
             filteredRules = filteredRules.filter(rule =>
                 rule.scope !== 'project' || rule.projectPath === currentProjectPath
             );
         }
 
-        return filteredRules;
+        return sortRules(filteredRules);
     }
 
-    async getActiveRulesForContext(languageId?: string): Promise<string[]> {
-        const globalRules = await this.getRules('global');
-        const projectRules = await this.getRules('project');
-        const languageRules = languageId ? await this.getRules('language', languageId) : [];
+    async getActiveRulesForContext(languageId?: string, documentUri?: DocumentLocation): Promise<string[]> {
+        const rules = await this.getApplicableRules(languageId, documentUri);
+        return rules.map(rule => rule.ruleText);
+    }
 
-        const allRules = [...globalRules, ...projectRules, ...languageRules];
-        return allRules.map(rule => rule.ruleText);
+    /**
+     * Get the active rules that apply in a context, in prompt order, without duplicates
+     * or global rules superseded by another applicable rule
+     */
+    async getApplicableRules(languageId?: string, documentUri?: DocumentLocation): Promise<Rule[]> {
+        const globalRules = await this.getRules('global', undefined, documentUri);
+        const projectRules = await this.getRules('project', undefined, documentUri);
+        const languageRules = languageId ? await this.getRules('language', languageId, documentUri) : [];
+
+        // Path rules apply only when there is a document to match their patterns against
+        const uri = documentUri || this.host.workspace.getActiveDocument()?.location;
+        const pathRules = uri
+            ? (await this.getRules('path', undefined, uri))
+                .filter(rule => matchesPathPatterns(uri, rule.pathPatterns || [], this.host.workspace))
+            : [];
+
+        const customContext = {
+            languageId,
+            filePath: uri?.fsPath,
+            projectPath: getWorkspaceRoot(uri, this.host.workspace),
+            workspaceRoot: this.getFirstFolderPath()
+        };
+        const customRules = (await this.getRules('custom', undefined, uri))
+            .filter(rule => this.matchesCustomScope(rule, customContext));
+
+        // Inactive rules are paused: still listed, but never applied
+        const activeRules = [...globalRules, ...projectRules, ...pathRules, ...customRules, ...languageRules]
+            .filter(rule => rule.isActive);
+
+        const conditionContext = this.createConditionContext(languageId, uri);
+        const matches = await Promise.all(activeRules.map(rule => this.matchesCondition(rule, conditionContext)));
+        return composeRules(activeRules.filter((_, index) => matches[index]));
+    }
+
+    /**
+     * Evaluate a rule's when-clause; rules with an invalid condition never apply
+     */
+    private async matchesCondition(rule: Rule, context: RuleConditionContext): Promise<boolean> {
+        if (!rule.condition) {
+            return true;
+        }
+
+        try {
+            return await evaluateCondition(rule.condition, context);
+        } catch (error) {
+            Logger.warn(`Skipping rule ${rule.ruleId} with invalid condition: ${(error as Error).message}`);
+            return false;
+        }
+    }
+
+    /**
+     * Condition context for a document; file lookups are cached so rules sharing a check run it once
+     */
+    private createConditionContext(languageId?: string, documentUri?: DocumentLocation): RuleConditionContext {
+        const workspace = this.host.workspace;
+        const folder = documentUri ? getWorkspaceFolder(documentUri, workspace) : workspace.getFolders()[0];
+        const workspaceLookups = new Map<string, Promise<boolean>>();
+        let documentText: Promise<string> | undefined;
+
+        return {
+            languageId,
+            path: documentUri ? getRelativePath(documentUri, workspace) : undefined,
+            workspaceContains: pattern => {
+                if (!folder) {
+                    return Promise.resolve(false);
+                }
+                if (!workspaceLookups.has(pattern)) {
+                    workspaceLookups.set(pattern, workspace.containsFile(folder, pattern));
+                }
+                return workspaceLookups.get(pattern)!;
+            },
+            fileContains: async text => {
+                if (!documentUri) {
+                    return false;
+                }
+                documentText = documentText || this.readDocumentText(documentUri);
+                return (await documentText).includes(text);
+            }
+        };
+    }
+
+    /**
+     * Text of a document, preferring unsaved changes in an open editor
+     */
+    private async readDocumentText(documentUri: DocumentLocation): Promise<string> {
+        const openDocument = this.host.workspace.getOpenDocument?.(documentUri);
+        if (openDocument) {
+            return openDocument.getText();
+        }
+
+        try {
+            return await fs.promises.readFile(documentUri.fsPath, 'utf8');
+        } catch {
+            return '';
+        }
+    }
+
+    /**
+     * Run the validator of a rule's custom scope; rules whose scope is not registered never apply
+     */
+    private matchesCustomScope(rule: Rule, context: Parameters<CustomScope['validator']>[0]): boolean {
+        const scope = rule.customScope ? this.customScopes.get(rule.customScope) : undefined;
+        if (!scope) {
+            return false;
+        }
+
+        try {
+            return scope.validator(context);
+        } catch (error) {
+            Logger.warn(`Custom scope validator failed: ${scope.name}`, error as Error);
+            return false;
+        }
+    }
+
+    private getFirstFolderPath(): string | undefined {
+        return this.host.workspace.getFolders()[0]?.fsPath;
+    }
+
+    private findRule(ruleId: string): Rule {
+        const rule = this.allRules().find(r => r.ruleId === ruleId && !r.deletedAt);
+        if (!rule) {
+            throw new Error(`Rule not found: ${ruleId}`);
+        }
+        return rule;
+    }
+
+    private async persistUpdate(rule: Rule, updates: Partial<Rule>): Promise<void> {
+        await this.persistUpdates(new Map([[rule, updates]]));
+    }
+
+    /**
+     * Write changes to rules with one write per store, changing the rules in memory only once they are stored
+     */
+    private async persistUpdates(changes: Map<Rule, Partial<Rule>>): Promise<void> {
+        const updatedAt = new Date();
+        const changesByState = new Map<RuleLayerState | undefined, Map<Rule, Partial<Rule>>>();
+        for (const [rule, updates] of changes) {
+            const state = this.getLayerState(rule);
+            changesByState.set(state, (changesByState.get(state) || new Map()).set(rule, { ...updates, updatedAt }));
+        }
+
+        for (const [state, stateChanges] of changesByState) {
+            const storeUpdates = new Map(Array.from(stateChanges, ([rule, updates]) => [rule.ruleId, updates]));
+
+            // Only the primary store is mirrored locally and queued while offline
+            if (state) {
+                await updateRules(state.store, storeUpdates);
+            } else {
+                const updated = new Map(Array.from(stateChanges, ([rule, updates]) => [rule, { ...rule, ...updates }]));
+                await this.persist(
+                    `update rules ${Array.from(storeUpdates.keys()).join(', ')}`,
+                    store => updateRules(store, storeUpdates),
+                    () => updated.forEach(rule => this.writeQueue.enqueueUpsert(rule)),
+                    this.rules.map(rule => updated.get(rule) || rule)
+                );
+            }
+
+            stateChanges.forEach((updates, rule) => Object.assign(rule, updates));
+        }
+    }
+
+    /**
+     * Write a change to the rule store. When the store is unreachable the change is kept
+     * in the local file and queued for replay, if falling back to local storage is allowed.
+     * @param localRules the primary rules as they are after the change, by default the rules in memory
+     */
+    private async persist(
+        description: string,
+        write: (store: RuleStore) => Promise<void>,
+        enqueue: () => void,
+        localRules: Rule[] = this.rules
+    ): Promise<void> {
+        if (this.store === this.localStore) {
+            await this.saveRulesToLocal(localRules);
+            return;
+        }
+
+        if (this.store.isAvailable?.() === false) {
+            enqueue();
+            await this.saveRulesToLocal(localRules);
+            return;
+        }
+
+        try {
+            await write(this.store);
+            Logger.info(`Stored change in ${this.store.id}: ${description}`);
+        } catch (error) {
+            Logger.error(`Failed to ${description} in ${this.store.id} store`, error as Error);
+            if (this.fallbackToLocal) {
+                enqueue();
+                await this.saveRulesToLocal(localRules);
+            } else {
+                throw error;
+            }
+        }
+    }
+
+    /**
+     * Record a revision for the change and notify listeners
+     */
+    private async notifyChange(
+        type: RuleChangeEventType,
+        rule: Rule,
+        action: RuleRevisionAction = REVISION_ACTIONS[type]
+    ): Promise<void> {
+        try {
+            await this.historyService.record(action, rule);
+        } catch (error) {
+            Logger.error(`Failed to record revision for rule ${rule.ruleId}`, error as Error);
+        }
+
+        this.fireChange(type, rule);
+    }
+
+    private fireChange(type: RuleChangeEventType, rule: Rule): void {
+        this.changeEmitter.fire({
+            type,
+            ruleId: rule.ruleId,
+            rule: { ...rule },
+            timestamp: new Date()
+        });
     }
 
     /**
      * Cleanup resources and close MongoDB connection
      */
     async dispose(): Promise<void> {
+        this.changeEmitter.dispose();
+        this.reconnectEmitter.dispose();
+        this.storeSubscriptions.forEach(subscription => subscription.dispose());
+        this.writeQueue.dispose();
+        if (this.pendingReload) {
+            clearTimeout(this.pendingReload);
+        }
+        this.folderSubscription?.dispose();
+        this.layers.forEach(state => this.closeLayer(state));
         try {
-            if (this.mongoService) {
-                await this.mongoService.disconnect();
-                Logger.info('MongoDB connection closed');
-            }
+            await this.store.dispose?.();
         } catch (error) {
             Logger.error('Error during RuleManager cleanup', error as Error);
         }
@@ -271,13 +1267,16 @@ export class RuleManager {
         isMongoConnected: boolean;
         fallbackEnabled: boolean;
         totalRules: number;
+        storageBackend: string;
         connectionStats?: any;
     } {
+        const mongoStore = this.getMongoStore();
         return {
-            isMongoConnected: this.mongoService?.isConnected() || false,
+            isMongoConnected: mongoStore?.isAvailable() || false,
             fallbackEnabled: this.fallbackToLocal,
-            totalRules: this.rules.length,
-            connectionStats: this.mongoService?.getConnectionStats()
+            totalRules: this.getVisibleRules().length,
+            storageBackend: this.store.id,
+            connectionStats: mongoStore?.getConnectionStats()
         };
     }
 }
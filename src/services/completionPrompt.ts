@@ -0,0 +1,62 @@
+/**
+ * Prompts and replies for inline completions written by a language model under the current rules
+ */
+
+/**
+ * Lines of code around the cursor sent with a completion request
+ */
+export const COMPLETION_CONTEXT_LINES = {
+    before: 60,
+    after: 20
+} as const;
+
+export const CURSOR_MARKER = '<CURSOR>';
+
+/**
+ * The code around the cursor and the rules to follow when completing it
+ */
+export interface CompletionRequest {
+    languageId: string;
+    prefix: string;
+    suffix: string;
+    /** Composed rules prompt, empty when no rules apply */
+    rulesPrompt: string;
+}
+
+/**
+ * Build the user messages of a completion request: the rules first, then the code with the cursor marked
+ */
+export function buildCompletionMessages(request: CompletionRequest): string[] {
+    const instructions = [
+        `You complete ${request.languageId} code at the ${CURSOR_MARKER} marker.`,
+        'Reply with only the text to insert at the marker: no explanations, no markdown fences, and nothing that is already before or after it.',
+        'Reply with nothing if no completion is needed.'
+    ].join(' ');
+
+    return [
+        request.rulesPrompt ? `${instructions}\n\n${request.rulesPrompt}` : instructions,
+        `${request.prefix}${CURSOR_MARKER}${request.suffix}`
+    ];
+}
+
+/**
+ * Turn a model reply into text to insert: drop markdown fences, a repeated cursor marker,
+ * and a last line that repeats the next line after the cursor
+ */
+export function cleanCompletion(reply: string, suffix = ''): string {
+    let text = reply.replace(/\r\n/g, '\n');
+
+    const fenced = text.match(/^\s*```[\w+-]*\n([\s\S]*?)\n?```\s*$/);
+    if (fenced) {
+        text = fenced[1];
+    }
+    text = text.split(CURSOR_MARKER).join('');
+
+    const lines = text.trimEnd().split('\n');
+    const nextLine = suffix.split('\n').find(line => line.trim().length > 0)?.trim();
+    if (lines.length > 1 && nextLine && lines[lines.length - 1].trim() === nextLine) {
+        lines.pop();
+    }
+
+    return lines.join('\n').trimEnd();
+}
@@ -0,0 +1,467 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { RuleManager, Rule } from '../ruleManager';
+import { Logger } from '../utils/logger';
+import { PromptTemplate, TemplateContext, getBuiltInTemplate, renderTemplate } from './promptTemplates';
+import { getTemplateForUse } from './templateSettings';
+import { INSTRUCTIONS_CONSTANTS, LANGUAGE_FILE_GLOBS } from '../constants';
+
+/**
+ * Files written by one export run
+ */
+export interface InstructionsExportResult {
+    repositoryFile: string;
+    languageFiles: string[];
+    ruleCount: number;
+}
+
+/**
+ * Render a rule as a markdown bullet carrying its stable rule marker
+ */
+export function renderRuleLine(rule: Rule): string {
+    return `- ${rule.ruleText} <!-- rule:${rule.ruleId} -->`;
+}
+
+/**
+ * Render active rules as the managed block of copilot-instructions.md, by default grouped by scope
+ * and language. Every rule carries its marker whichever template is used.
+ */
+export function renderInstructionsBlock(
+    rules: Rule[],
+    template: PromptTemplate = getBuiltInTemplate('markdown'),
+    context: TemplateContext = {}
+): string {
+    return [
+        INSTRUCTIONS_CONSTANTS.blockStart,
+        INSTRUCTIONS_CONSTANTS.generatedMarker,
+        renderTemplate(template, rules, { ...context, withMarkers: true }).replace(/\s+$/, ''),
+        INSTRUCTIONS_CONSTANTS.blockEnd
+    ].join('\n');
+}
+
+/**
+ * Render a per-language .instructions.md file with an applyTo glob
+ */
+export function renderLanguageInstructions(languageId: string, rules: Rule[]): string {
+    const applyTo = LANGUAGE_FILE_GLOBS[languageId] || `**/*.${languageId}`;
+    return [
+        '---',
+        `applyTo: "${applyTo}"`,
+        '---',
+        INSTRUCTIONS_CONSTANTS.generatedMarker,
+        `# ${languageId} Coding Rules`,
+        '',
+        ...rules.map(renderRuleLine),
+        ''
+    ].join('\n');
+}
+
+/**
+ * Replace the managed block in existing content, or append it, keeping hand-written text
+ */
+export function applyManagedBlock(existing: string, block: string): string {
+    const start = existing.indexOf(INSTRUCTIONS_CONSTANTS.blockStart);
+    const end = existing.indexOf(INSTRUCTIONS_CONSTANTS.blockEnd);
+
+    if (start !== -1 && end > start) {
+        return existing.slice(0, start) + block + existing.slice(end + INSTRUCTIONS_CONSTANTS.blockEnd.length);
+    }
+
+    if (existing.trim().length === 0) {
+        return `${block}\n`;
+    }
+
+    return `${existing.replace(/\s*$/, '')}\n\n${block}\n`;
+}
+
+/**
+ * A hidden instructions file in the instructions directory and the files its rules apply to
+ */
+export interface HiddenInstructionsFile {
+    fileName: string;
+    applyTo: string;
+    rules: Rule[];
+}
+
+/**
+ * Split rules into hidden instruction files: language rules apply to the files of their language, path rules
+ * to the files matching their globs, and every other rule to all files
+ */
+export function planHiddenInstructions(rules: Rule[]): HiddenInstructionsFile[] {
+    const files = new Map<string, HiddenInstructionsFile>();
+    const add = (name: string | undefined, applyTo: string, rule: Rule) => {
+        const fileName = name
+            ? `${INSTRUCTIONS_CONSTANTS.hiddenFilePrefix}${name}${INSTRUCTIONS_CONSTANTS.languageFileSuffix}`
+            : path.basename(INSTRUCTIONS_CONSTANTS.hiddenFile);
+        const file = files.get(fileName) || { fileName, applyTo, rules: [] };
+        file.rules.push(rule);
+        files.set(fileName, file);
+    };
+    const pathGroups: string[] = [];
+
+    for (const rule of rules) {
+        if (rule.scope === 'language' && rule.languageScope) {
+            add(rule.languageScope.replace(/[^\w-]/g, '-'), LANGUAGE_FILE_GLOBS[rule.languageScope] || `**/*.${rule.languageScope}`, rule);
+        } else if (rule.scope === 'path' && rule.pathPatterns?.length) {
+            const applyTo = rule.pathPatterns.join(',');
+            if (!pathGroups.includes(applyTo)) {
+                pathGroups.push(applyTo);
+            }
+            add(`path-${pathGroups.indexOf(applyTo) + 1}`, applyTo, rule);
+        } else {
+            add(undefined, '**', rule);
+        }
+    }
+    return Array.from(files.values());
+}
+
+/**
+ * Render a hidden instructions file: the rules with the given template, without markers
+ */
+export function renderHiddenInstructions(
+    rules: Rule[],
+    template: PromptTemplate = getBuiltInTemplate('markdown'),
+    context: TemplateContext = {},
+    applyTo = '**'
+): string {
+    return [
+        '---',
+        `applyTo: "${applyTo}"`,
+        '---',
+        INSTRUCTIONS_CONSTANTS.hiddenMarker,
+        renderTemplate(template, rules, context).replace(/\s+$/, ''),
+        ''
+    ].join('\n');
+}
+
+/**
+ * Add a path to the content of .git/info/exclude, or return undefined if it is already listed
+ */
+export function addGitExcludeEntry(existing: string, relativePath: string): string | undefined {
+    const entry = `/${relativePath}`;
+    if (existing.split(/\r?\n/).some(line => line.trim() === entry)) {
+        return undefined;
+    }
+    return `${existing.replace(/\s*$/, '')}${existing.trim() ? '\n' : ''}${entry}\n`;
+}
+
+/**
+ * Find the info/exclude file of the git repository checked out in a folder, as `git rev-parse --git-path info/exclude`
+ * does: .git is a directory in a plain clone, and a file pointing to the git directory in a worktree or submodule.
+ * Worktrees share info/ with the main repository through their commondir file.
+ */
+export function findGitExcludeFile(workspaceRoot: string): string | undefined {
+    const dotGit = path.join(workspaceRoot, '.git');
+    if (!fs.existsSync(dotGit)) {
+        return undefined;
+    }
+
+    let gitDirectory = dotGit;
+    if (fs.statSync(dotGit).isFile()) {
+        const match = fs.readFileSync(dotGit, 'utf8').match(/^gitdir:\s*(.+?)\s*$/m);
+        if (!match) {
+            return undefined;
+        }
+        gitDirectory = path.resolve(workspaceRoot, match[1]);
+    }
+
+    const commonDirFile = path.join(gitDirectory, 'commondir');
+    if (fs.existsSync(commonDirFile)) {
+        gitDirectory = path.resolve(gitDirectory, fs.readFileSync(commonDirFile, 'utf8').trim());
+    }
+    return fs.existsSync(gitDirectory) ? path.join(gitDirectory, 'info', 'exclude') : undefined;
+}
+
+/**
+ * Writes active rules into the instruction files Copilot reads natively
+ */
+export class InstructionsExporter {
+    private pendingExport: NodeJS.Timeout | undefined;
+    private pendingHiddenWrite: NodeJS.Timeout | undefined;
+    private hiddenFilesWatched = false;
+
+    constructor(private ruleManager: RuleManager) {}
+
+    /**
+     * Render rules into .github/copilot-instructions.md and, if enabled, per-language files
+     */
+    async export(workspaceRoot: string): Promise<InstructionsExportResult> {
+        const config = vscode.workspace.getConfiguration('copilotMemory');
+        const perLanguageFiles = config.get<boolean>('exportLanguageInstructionFiles', false);
+
+        const repositoryRules = await this.getRepositoryRules(workspaceRoot);
+        const languageRules = await this.getLanguageRules(workspaceRoot);
+
+        // With per-language files, language rules live there instead of the repository file
+        const blockRules = perLanguageFiles
+            ? repositoryRules
+            : [...repositoryRules, ...Array.from(languageRules.values()).flat()];
+
+        const repositoryFile = path.join(workspaceRoot, INSTRUCTIONS_CONSTANTS.repositoryFile);
+        const existing = fs.existsSync(repositoryFile) ? fs.readFileSync(repositoryFile, 'utf8') : '';
+        const block = renderInstructionsBlock(blockRules, getTemplateForUse('export'), { project: path.basename(workspaceRoot) });
+        this.writeFile(repositoryFile, applyManagedBlock(existing, block));
+
+        const languageFiles = perLanguageFiles
+            ? this.writeLanguageFiles(workspaceRoot, languageRules)
+            : [];
+
+        Logger.info(`Exported ${blockRules.length} rules to ${repositoryFile}`);
+
+        // The hidden files leave out the rules now in the generated files
+        if (this.hiddenFilesWatched) {
+            await this.writeHiddenFiles(workspaceRoot);
+        }
+        return {
+            repositoryFile,
+            languageFiles,
+            ruleCount: repositoryRules.length + Array.from(languageRules.values()).flat().length
+        };
+    }
+
+    /**
+     * Regenerate the instruction files whenever rules change, if enabled in settings
+     */
+    watch(): vscode.Disposable {
+        const subscription = this.ruleManager.onDidChangeRules(() => {
+            const config = vscode.workspace.getConfiguration('copilotMemory');
+            if (!config.get<boolean>('autoExportInstructions', false)) {
+                return;
+            }
+
+            // Debounce bulk operations such as imports and Remove All
+            if (this.pendingExport) {
+                clearTimeout(this.pendingExport);
+            }
+            this.pendingExport = setTimeout(() => {
+                this.pendingExport = undefined;
+                // Each folder of a multi-root workspace gets its own project rules
+                for (const folder of vscode.workspace.workspaceFolders || []) {
+                    this.export(folder.uri.fsPath).catch(error => {
+                        Logger.error(`Failed to update copilot-instructions.md in ${folder.name}`, error as Error);
+                    });
+                }
+            }, 500);
+        });
+
+        return new vscode.Disposable(() => {
+            subscription.dispose();
+            if (this.pendingExport) {
+                clearTimeout(this.pendingExport);
+            }
+        });
+    }
+
+    /**
+     * Write the rules that apply in a workspace folder to the hidden instruction files, each applied to the files
+     * its rules are for, and keep them out of git. Rules already in a generated instruction file are left out,
+     * so Copilot does not read them twice.
+     */
+    async writeHiddenFiles(workspaceRoot: string): Promise<string[]> {
+        const generatedIds = this.getGeneratedRuleIds(workspaceRoot);
+        const rules = [
+            ...(await this.getRepositoryRules(workspaceRoot)),
+            ...Array.from((await this.getLanguageRules(workspaceRoot)).values()).flat()
+        ].filter(rule => !generatedIds.has(rule.ruleId));
+
+        const directory = path.join(workspaceRoot, INSTRUCTIONS_CONSTANTS.languageFileDirectory);
+        const template = getTemplateForUse('export');
+        const written = planHiddenInstructions(rules).map(file => {
+            const filePath = path.join(directory, file.fileName);
+            this.writeFile(filePath, renderHiddenInstructions(file.rules, template, { project: path.basename(workspaceRoot) }, file.applyTo));
+            return filePath;
+        });
+
+        this.removeHiddenFiles(workspaceRoot, written);
+        this.excludeFromGit(workspaceRoot, INSTRUCTIONS_CONSTANTS.hiddenFilePattern);
+        return written;
+    }
+
+    /**
+     * Delete the hidden instruction files written by writeHiddenFiles, except those to keep
+     */
+    removeHiddenFiles(workspaceRoot: string, keep: string[] = []): void {
+        const directory = path.join(workspaceRoot, INSTRUCTIONS_CONSTANTS.languageFileDirectory);
+        if (!fs.existsSync(directory)) {
+            return;
+        }
+
+        for (const fileName of fs.readdirSync(directory)) {
+            const filePath = path.join(directory, fileName);
+            if (!fileName.startsWith(INSTRUCTIONS_CONSTANTS.hiddenFilePrefix) ||
+                !fileName.endsWith(INSTRUCTIONS_CONSTANTS.languageFileSuffix) ||
+                keep.includes(filePath)) {
+                continue;
+            }
+            if (fs.readFileSync(filePath, 'utf8').includes(INSTRUCTIONS_CONSTANTS.hiddenMarker)) {
+                fs.unlinkSync(filePath);
+            }
+        }
+    }
+
+    /**
+     * Write the hidden instruction files of every workspace folder now and whenever rules change
+     */
+    watchHiddenFiles(): vscode.Disposable {
+        this.hiddenFilesWatched = true;
+        const writeAll = () => {
+            for (const folder of vscode.workspace.workspaceFolders || []) {
+                this.writeHiddenFiles(folder.uri.fsPath).catch(error => {
+                    Logger.error(`Failed to update the Copilot instruction files in ${folder.name}`, error as Error);
+                });
+            }
+        };
+        writeAll();
+
+        const subscription = this.ruleManager.onDidChangeRules(() => {
+            if (this.pendingHiddenWrite) {
+                clearTimeout(this.pendingHiddenWrite);
+            }
+            this.pendingHiddenWrite = setTimeout(() => {
+                this.pendingHiddenWrite = undefined;
+                writeAll();
+            }, 500);
+        });
+        const folderSubscription = vscode.workspace.onDidChangeWorkspaceFolders(event => {
+            event.removed.forEach(folder => this.removeHiddenFiles(folder.uri.fsPath));
+            writeAll();
+        });
+
+        return new vscode.Disposable(() => {
+            subscription.dispose();
+            folderSubscription.dispose();
+            this.hiddenFilesWatched = false;
+            if (this.pendingHiddenWrite) {
+                clearTimeout(this.pendingHiddenWrite);
+                this.pendingHiddenWrite = undefined;
+            }
+        });
+    }
+
+    /**
+     * IDs of the rules an export of a workspace folder writes, so rules it leaves out, such as paused,
+     * superseded or conditioned rules, are not mistaken for lines deleted by hand
+     */
+    async getExportedRuleIds(workspaceRoot: string): Promise<Set<string>> {
+        const rules = [
+            ...(await this.getRepositoryRules(workspaceRoot)),
+            ...Array.from((await this.getLanguageRules(workspaceRoot)).values()).flat()
+        ];
+        return new Set(rules.map(rule => rule.ruleId));
+    }
+
+    /**
+     * Active rules for copilot-instructions.md. Every active path rule is included under its globs,
+     * not only those matching the folder itself.
+     */
+    private async getRepositoryRules(workspaceRoot: string): Promise<Rule[]> {
+        const folderUri = vscode.Uri.file(workspaceRoot);
+        return [
+            ...(await this.ruleManager.getApplicableRules(undefined, folderUri)).filter(rule => rule.scope !== 'path'),
+            ...(await this.ruleManager.getRules('path', undefined, folderUri)).filter(rule => rule.isActive)
+        ];
+    }
+
+    /**
+     * Language rules that apply in a workspace folder, grouped by language ID. As for getRepositoryRules, paused
+     * rules, rules whose condition does not match and superseded rules are left out.
+     */
+    private async getLanguageRules(workspaceRoot: string): Promise<Map<string, Rule[]>> {
+        const folderUri = vscode.Uri.file(workspaceRoot);
+        const languageIds = new Set((await this.ruleManager.getRules('language', undefined, folderUri))
+            .filter(rule => rule.isActive && rule.languageScope)
+            .map(rule => rule.languageScope!));
+
+        const grouped = new Map<string, Rule[]>();
+        for (const languageId of languageIds) {
+            const rules = (await this.ruleManager.getApplicableRules(languageId, folderUri))
+                .filter(rule => rule.scope === 'language' && rule.languageScope === languageId);
+            if (rules.length > 0) {
+                grouped.set(languageId, rules);
+            }
+        }
+        return grouped;
+    }
+
+    /**
+     * IDs of the rules in copilot-instructions.md and the generated language files, read from their rule markers
+     */
+    private getGeneratedRuleIds(workspaceRoot: string): Set<string> {
+        const contents: string[] = [];
+        const repositoryFile = path.join(workspaceRoot, INSTRUCTIONS_CONSTANTS.repositoryFile);
+        if (fs.existsSync(repositoryFile)) {
+            const content = fs.readFileSync(repositoryFile, 'utf8');
+            const start = content.indexOf(INSTRUCTIONS_CONSTANTS.blockStart);
+            const end = content.indexOf(INSTRUCTIONS_CONSTANTS.blockEnd);
+            if (start !== -1 && end > start) {
+                contents.push(content.slice(start, end));
+            }
+        }
+
+        const directory = path.join(workspaceRoot, INSTRUCTIONS_CONSTANTS.languageFileDirectory);
+        if (fs.existsSync(directory)) {
+            for (const fileName of fs.readdirSync(directory)) {
+                if (!fileName.endsWith(INSTRUCTIONS_CONSTANTS.languageFileSuffix)) {
+                    continue;
+                }
+                const content = fs.readFileSync(path.join(directory, fileName), 'utf8');
+                if (content.includes(INSTRUCTIONS_CONSTANTS.generatedMarker)) {
+                    contents.push(content);
+                }
+            }
+        }
+
+        return new Set(contents.flatMap(content => Array.from(content.matchAll(/<!-- rule:(\S+) -->/g), match => match[1])));
+    }
+
+    private writeLanguageFiles(workspaceRoot: string, languageRules: Map<string, Rule[]>): string[] {
+        const directory = path.join(workspaceRoot, INSTRUCTIONS_CONSTANTS.languageFileDirectory);
+        const written: string[] = [];
+
+        for (const [languageId, rules] of languageRules) {
+            const filePath = path.join(directory, `${languageId}${INSTRUCTIONS_CONSTANTS.languageFileSuffix}`);
+            this.writeFile(filePath, renderLanguageInstructions(languageId, rules));
+            written.push(filePath);
+        }
+
+        // Remove generated files for languages that no longer have rules
+        if (fs.existsSync(directory)) {
+            for (const fileName of fs.readdirSync(directory)) {
+                const filePath = path.join(directory, fileName);
+                if (!fileName.endsWith(INSTRUCTIONS_CONSTANTS.languageFileSuffix) || written.includes(filePath)) {
+                    continue;
+                }
+                if (fs.readFileSync(filePath, 'utf8').includes(INSTRUCTIONS_CONSTANTS.generatedMarker)) {
+                    fs.unlinkSync(filePath);
+                }
+            }
+        }
+
+        return written;
+    }
+
+    /**
+     * List a file in the repository's info/exclude so it never shows up as a change, when the folder is a git checkout
+     */
+    private excludeFromGit(workspaceRoot: string, relativePath: string): void {
+        const excludeFile = findGitExcludeFile(workspaceRoot);
+        if (!excludeFile) {
+            return;
+        }
+
+        const existing = fs.existsSync(excludeFile) ? fs.readFileSync(excludeFile, 'utf8') : '';
+        const updated = addGitExcludeEntry(existing, relativePath);
+        if (updated !== undefined) {
+            this.writeFile(excludeFile, updated);
+        }
+    }
+
+    private writeFile(filePath: string, content: string): void {
+        const dir = path.dirname(filePath);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+        fs.writeFileSync(filePath, content);
+    }
+}
@@ -0,0 +1,360 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { RuleManager, Rule } from '../ruleManager';
+import { InstructionsExporter } from './instructionsExporter';
+import { getTemplateForUse } from './templateSettings';
+import { Logger } from '../utils/logger';
+import { sanitizeInput, validateRuleText, validateGlobPattern } from '../utils/helpers';
+import { INSTRUCTIONS_CONSTANTS, RuleScope } from '../constants';
+
+/**
+ * Rule parsed from an instruction file; ruleId is missing for lines added by hand
+ */
+export interface ParsedInstructionRule {
+    ruleId?: string;
+    ruleText: string;
+    scope: RuleScope;
+    languageScope?: string;
+    pathPatterns?: string[];
+}
+
+const RULE_LINE = /^\s*[-*]\s+(.+?)\s*(?:<!--\s*rule:([\w-]+)\s*-->)?\s*$/;
+const SECTION_HEADING = /^#{2,}\s+(.+?)\s*$/;
+
+/**
+ * Parse the managed block of copilot-instructions.md back into rules
+ */
+export function parseInstructionsBlock(content: string): ParsedInstructionRule[] {
+    const start = content.indexOf(INSTRUCTIONS_CONSTANTS.blockStart);
+    const end = content.indexOf(INSTRUCTIONS_CONSTANTS.blockEnd);
+    if (start === -1 || end < start) {
+        return [];
+    }
+
+    const rules: ParsedInstructionRule[] = [];
+    let scope: RuleScope | undefined;
+    let languageScope: string | undefined;
+    let pathPatterns: string[] | undefined;
+
+    for (const line of content.slice(start, end).split('\n')) {
+        const heading = SECTION_HEADING.exec(line);
+        if (heading) {
+            const title = heading[1];
+            const language = /^Language:\s*(.+)$/i.exec(title);
+            const paths = /^Path:\s*(.+)$/i.exec(title);
+            pathPatterns = undefined;
+            if (language) {
+                scope = 'language';
+                languageScope = language[1].trim();
+            } else if (paths) {
+                scope = 'path';
+                languageScope = undefined;
+                pathPatterns = parseHeadingPatterns(paths[1]);
+            } else if (/^global$/i.test(title) || /^project$/i.test(title)) {
+                scope = title.toLowerCase() as RuleScope;
+                languageScope = undefined;
+            } else {
+                scope = undefined; // e.g. the "Coding Rules" title
+            }
+            continue;
+        }
+
+        const rule = scope ? parseRuleLine(line, scope, languageScope, pathPatterns) : undefined;
+        if (rule) {
+            rules.push(rule);
+        }
+    }
+
+    return rules;
+}
+
+/**
+ * Parse a per-language .instructions.md file back into language rules
+ */
+export function parseLanguageInstructions(content: string, languageId: string): ParsedInstructionRule[] {
+    const body = content.replace(/^---\n[\s\S]*?\n---\n/, '');
+    return body.split('\n')
+        .map(line => parseRuleLine(line, 'language', languageId))
+        .filter((rule): rule is ParsedInstructionRule => rule !== undefined);
+}
+
+/**
+ * Read the globs of a "Path: `src/**`, `**\/*.ts`" heading
+ */
+function parseHeadingPatterns(text: string): string[] | undefined {
+    const quoted = Array.from(text.matchAll(/`([^`]+)`/g), match => match[1].trim());
+    const patterns = quoted.length > 0 ? quoted : text.split(',').map(pattern => pattern.trim());
+    const valid = patterns.filter(pattern => validateGlobPattern(pattern).isValid);
+    return valid.length > 0 ? valid : undefined;
+}
+
+function parseRuleLine(
+    line: string,
+    scope: RuleScope,
+    languageScope?: string,
+    pathPatterns?: string[]
+): ParsedInstructionRule | undefined {
+    const match = RULE_LINE.exec(line);
+    if (!match) {
+        return undefined;
+    }
+
+    const ruleText = sanitizeInput(match[1]);
+    if (!validateRuleText(ruleText).isValid) {
+        return undefined;
+    }
+
+    if (scope === 'path' && !pathPatterns) {
+        return undefined;
+    }
+
+    const rule: ParsedInstructionRule = { ruleId: match[2], ruleText, scope, languageScope };
+    if (pathPatterns) {
+        rule.pathPatterns = pathPatterns;
+    }
+    return rule;
+}
+
+/**
+ * Watches copilot-instructions.md and generated *.instructions.md files and
+ * reconciles hand edits with the rule store using the rule markers
+ */
+export class InstructionsSync {
+    private snapshots: Map<string, ParsedInstructionRule[]> = new Map();
+    private syncing: Promise<void> = Promise.resolve();
+
+    constructor(private ruleManager: RuleManager, private exporter: InstructionsExporter) {}
+
+    /**
+     * Start watching instruction files, if enabled in settings
+     */
+    watch(): vscode.Disposable {
+        const watchers = (vscode.workspace.workspaceFolders || []).flatMap(folder => this.watchFolder(folder));
+        return vscode.Disposable.from(...watchers);
+    }
+
+    /**
+     * Snapshot and watch the instruction files of one workspace folder
+     */
+    private watchFolder(workspaceFolder: vscode.WorkspaceFolder): vscode.FileSystemWatcher[] {
+        // Changes are measured against each file as it was last seen
+        for (const filePath of this.getInstructionFiles(workspaceFolder.uri.fsPath)) {
+            this.takeSnapshot(filePath);
+        }
+
+        const watchers = [
+            vscode.workspace.createFileSystemWatcher(
+                new vscode.RelativePattern(workspaceFolder, INSTRUCTIONS_CONSTANTS.repositoryFile)
+            ),
+            vscode.workspace.createFileSystemWatcher(
+                new vscode.RelativePattern(
+                    workspaceFolder,
+                    `${INSTRUCTIONS_CONSTANTS.languageFileDirectory}/*${INSTRUCTIONS_CONSTANTS.languageFileSuffix}`
+                )
+            )
+        ];
+
+        const onFileChanged = (uri: vscode.Uri) => {
+            const config = vscode.workspace.getConfiguration('copilotMemory');
+            if (!config.get<boolean>('syncInstructionsFile', false)) {
+                return;
+            }
+            // Run one reconciliation at a time
+            this.syncing = this.syncing
+                .then(() => this.syncFile(uri.fsPath, workspaceFolder.uri.fsPath))
+                .catch(error => Logger.error(`Failed to sync rules from ${uri.fsPath}`, error as Error));
+        };
+
+        for (const watcher of watchers) {
+            watcher.onDidChange(onFileChanged);
+            watcher.onDidCreate(onFileChanged);
+        }
+
+        return watchers;
+    }
+
+    /**
+     * Reconcile one instruction file with the rule store
+     */
+    async syncFile(filePath: string, workspaceRoot: string): Promise<void> {
+        const previous = this.snapshots.get(filePath) || [];
+        const current = this.readFile(filePath);
+        if (!current) {
+            return;
+        }
+        this.snapshots.set(filePath, current);
+
+        const folderRules = await this.ruleManager.getRules(undefined, undefined, vscode.Uri.file(workspaceRoot));
+        const stored = new Map(folderRules.map(rule => [rule.ruleId, rule]));
+        const previousById = new Map(previous.filter(r => r.ruleId).map(r => [r.ruleId!, r]));
+        const currentIds = new Set(current.filter(r => r.ruleId).map(r => r.ruleId!));
+        let addedRules = 0;
+
+        for (const parsed of current) {
+            const rule = parsed.ruleId ? stored.get(parsed.ruleId) : undefined;
+            const base = parsed.ruleId ? previousById.get(parsed.ruleId) : undefined;
+
+            if (!rule) {
+                // Hand-written line, or a rule that no longer exists in the store
+                if (!parsed.ruleId || !base || !isSameParsedRule(base, parsed)) {
+                    await this.ruleManager.addRule(
+                        parsed.ruleText, parsed.scope, parsed.languageScope, workspaceRoot, undefined, { pathPatterns: parsed.pathPatterns }
+                    );
+                    addedRules++;
+                }
+                continue;
+            }
+
+            const fileChanged = !base || !isSameParsedRule(base, parsed);
+            if (!fileChanged || isSameParsedRule(toParsed(rule), parsed)) {
+                continue;
+            }
+
+            const storeChanged = base !== undefined && !isSameParsedRule(base, toParsed(rule));
+            if (storeChanged && !(await this.resolveConflict(rule, parsed))) {
+                continue;
+            }
+
+            await this.ruleManager.updateRule(rule.ruleId, {
+                ruleText: parsed.ruleText,
+                scope: parsed.scope,
+                languageScope: parsed.languageScope,
+                projectPath: parsed.scope === 'project' ? rule.projectPath || workspaceRoot : undefined,
+                pathPatterns: parsed.pathPatterns
+            });
+        }
+
+        // Lines deleted from the file; rules moved to another instruction file, or left out by the export, are kept
+        const markedIds = this.getMarkedRuleIds(workspaceRoot);
+        const exportedIds = await this.exporter.getExportedRuleIds(workspaceRoot);
+        for (const base of previousById.values()) {
+            const rule = stored.get(base.ruleId!);
+            if (!rule || currentIds.has(base.ruleId!) || markedIds.has(base.ruleId!) || !exportedIds.has(base.ruleId!)) {
+                continue;
+            }
+
+            const storeChanged = !isSameParsedRule(base, toParsed(rule));
+            if (storeChanged && !(await this.resolveDeleteConflict(rule))) {
+                continue;
+            }
+
+            await this.ruleManager.removeRule(rule.ruleId);
+        }
+
+        // Write markers for lines added by hand so they can be tracked from now on
+        if (addedRules > 0) {
+            await this.exporter.export(workspaceRoot);
+            this.takeSnapshot(filePath);
+        }
+
+        Logger.info(`Synced rules from ${filePath}`);
+    }
+
+    private getInstructionFiles(workspaceRoot: string): string[] {
+        const files = [path.join(workspaceRoot, INSTRUCTIONS_CONSTANTS.repositoryFile)];
+        const directory = path.join(workspaceRoot, INSTRUCTIONS_CONSTANTS.languageFileDirectory);
+
+        if (fs.existsSync(directory)) {
+            for (const fileName of fs.readdirSync(directory)) {
+                if (fileName.endsWith(INSTRUCTIONS_CONSTANTS.languageFileSuffix)) {
+                    files.push(path.join(directory, fileName));
+                }
+            }
+        }
+
+        return files;
+    }
+
+    /**
+     * Rule IDs currently present in any instruction file on disk
+     */
+    private getMarkedRuleIds(workspaceRoot: string): Set<string> {
+        const ids = new Set<string>();
+        for (const filePath of this.getInstructionFiles(workspaceRoot)) {
+            for (const rule of this.readFile(filePath) || []) {
+                if (rule.ruleId) {
+                    ids.add(rule.ruleId);
+                }
+            }
+        }
+        return ids;
+    }
+
+    private takeSnapshot(filePath: string): void {
+        const parsed = this.readFile(filePath);
+        if (parsed) {
+            this.snapshots.set(filePath, parsed);
+        }
+    }
+
+    private readFile(filePath: string): ParsedInstructionRule[] | undefined {
+        if (!fs.existsSync(filePath)) {
+            return undefined;
+        }
+
+        const content = fs.readFileSync(filePath, 'utf8');
+        const fileName = path.basename(filePath);
+
+        if (fileName.endsWith(INSTRUCTIONS_CONSTANTS.languageFileSuffix)) {
+            // Only files generated by Copilot Memory are treated as rule sources
+            if (!content.includes(INSTRUCTIONS_CONSTANTS.generatedMarker)) {
+                return undefined;
+            }
+            const languageId = fileName.slice(0, -INSTRUCTIONS_CONSTANTS.languageFileSuffix.length);
+            return parseLanguageInstructions(content, languageId);
+        }
+
+        // Rules can only be read back from the markdown sections the rule scopes are taken from
+        if (getTemplateForUse('export').format !== 'markdown') {
+            return undefined;
+        }
+        return parseInstructionsBlock(content);
+    }
+
+    /**
+     * Ask which version to keep when a rule changed in both the file and the store
+     */
+    private async resolveConflict(rule: Rule, parsed: ParsedInstructionRule): Promise<boolean> {
+        const choice = await vscode.window.showWarningMessage(
+            `This rule was changed both in copilot-instructions.md and in Copilot Memory.\n\n` +
+            `File: "${parsed.ruleText}"\nStored: "${rule.ruleText}"`,
+            { modal: true },
+            'Keep File Version',
+            'Keep Stored Version'
+        );
+
+        return choice === 'Keep File Version';
+    }
+
+    /**
+     * Ask whether to delete a rule removed from the file but edited in the store
+     */
+    private async resolveDeleteConflict(rule: Rule): Promise<boolean> {
+        const choice = await vscode.window.showWarningMessage(
+            `This rule was removed from copilot-instructions.md but changed in Copilot Memory.\n\n"${rule.ruleText}"`,
+            { modal: true },
+            'Remove Rule',
+            'Keep Rule'
+        );
+
+        return choice === 'Remove Rule';
+    }
+}
+
+function toParsed(rule: Rule): ParsedInstructionRule {
+    return {
+        ruleId: rule.ruleId,
+        ruleText: rule.ruleText,
+        scope: rule.scope,
+        languageScope: rule.scope === 'language' ? rule.languageScope : undefined,
+        pathPatterns: rule.scope === 'path' ? rule.pathPatterns : undefined
+    };
+}
+
+function isSameParsedRule(a: ParsedInstructionRule, b: ParsedInstructionRule): boolean {
+    return a.ruleText === b.ruleText &&
+        a.scope === b.scope &&
+        (a.languageScope || undefined) === (b.languageScope || undefined) &&
+        (a.pathPatterns || []).join('\n') === (b.pathPatterns || []).join('\n');
+}
@@ -0,0 +1,135 @@
+import * as vscode from 'vscode';
+import * as https from 'https';
+import * as http from 'http';
+
+/**
+ * Configuration for the LLM provider used by AI-powered features
+ */
+export interface LLMConfig {
+    provider: string;
+    apiKey: string;
+    model: string;
+    enabled: boolean;
+    ollamaEndpoint?: string;
+    ollamaPort?: number;
+}
+
+/**
+ * Read the LLM configuration from VS Code settings
+ */
+export async function getLLMConfig(): Promise<LLMConfig> {
+    const config = vscode.workspace.getConfiguration('copilotMemory');
+    return {
+        provider: config.get('llmProvider', 'openai'),
+        apiKey: config.get('llmApiKey', ''),
+        model: config.get('llmModel', 'gpt-3.5-turbo'),
+        enabled: config.get('enableLLMFeatures', false),
+        ollamaEndpoint: config.get('ollamaEndpoint', 'localhost'),
+        ollamaPort: config.get('ollamaPort', 11434)
+    };
+}
+
+/**
+ * Send a prompt to the configured LLM provider and return its text response
+ */
+export async function callLLM(prompt: string, config: LLMConfig): Promise<string> {
+    // Ollama doesn't need API key - it runs locally
+    if (!config.enabled || (config.provider !== 'ollama' && !config.apiKey)) {
+        throw new Error('LLM features are disabled or API key is missing');
+    }
+
+    return new Promise((resolve, reject) => {
+        let requestBody: any;
+        let options: any;
+        let useHttps = false;
+
+        if (config.provider === 'ollama') {
+            // Ollama API format (local or remote)
+            requestBody = {
+                model: config.model || 'llama3.2:3b',
+                prompt: prompt,
+                stream: false
+            };
+            const endpoint = config.ollamaEndpoint || 'localhost';
+            const port = config.ollamaPort || 11434;
+
+            // Handle URLs with protocol (https://example.com)
+            let hostname = endpoint;
+
+            if (endpoint.startsWith('https://')) {
+                hostname = endpoint.replace('https://', '');
+                useHttps = true;
+            } else if (endpoint.startsWith('http://')) {
+                hostname = endpoint.replace('http://', '');
+            }
+
+            // Remove any trailing paths or ports from hostname
+            hostname = hostname.split('/')[0].split(':')[0];
+
+            options = {
+                hostname: hostname,
+                port: port,
+                path: '/api/generate',
+                method: 'POST',
+                headers: {
+                    // eslint-disable-next-line @typescript-eslint/naming-convention
+                    'Content-Type': 'application/json'
+                }
+            };
+        } else {
+            // OpenAI/Anthropic format
+            useHttps = true; // Always use HTTPS for external APIs
+            requestBody = {
+                model: config.model,
+                messages: [{ role: 'user', content: prompt }],
+                // eslint-disable-next-line @typescript-eslint/naming-convention
+                max_tokens: 500,
+                temperature: 0.7
+            };
+            options = {
+                hostname: config.provider === 'openai' ? 'api.openai.com' : 'api.anthropic.com',
+                port: 443,
+                path: config.provider === 'openai' ? '/v1/chat/completions' : '/v1/messages',
+                method: 'POST',
+                headers: {
+                    // eslint-disable-next-line @typescript-eslint/naming-convention
+                    'Content-Type': 'application/json',
+                    // eslint-disable-next-line @typescript-eslint/naming-convention
+                    'Authorization': `Bearer ${config.apiKey}`,
+                    // eslint-disable-next-line @typescript-eslint/naming-convention
+                    'Content-Length': JSON.stringify(requestBody).length
+                }
+            };
+        }
+
+        const data = JSON.stringify(requestBody);
+
+        const protocol = (config.provider === 'ollama' && !useHttps) ? http : https;
+        const req = protocol.request(options, (res: any) => {
+            let responseData = '';
+            res.on('data', (chunk: any) => responseData += chunk);
+            res.on('end', () => {
+                try {
+                    const parsed = JSON.parse(responseData);
+                    let content: string;
+
+                    if (config.provider === 'ollama') {
+                        content = parsed.response;
+                    } else if (config.provider === 'openai') {
+                        content = parsed.choices[0].message.content;
+                    } else {
+                        content = parsed.content[0].text;
+                    }
+
+                    resolve(content);
+                } catch (error) {
+                    reject(error);
+                }
+            });
+        });
+
+        req.on('error', reject);
+        req.write(data);
+        req.end();
+    });
+}
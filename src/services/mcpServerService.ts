@@ -0,0 +1,99 @@
+import * as vscode from 'vscode';
+import * as http from 'http';
+import { RuleManager } from '../ruleManager';
+import { Logger } from '../utils/logger';
+import { ConfigValidator } from '../utils/configValidator';
+import { McpServer, McpRuleSource, serveHttp } from '../mcp/mcpServer';
+
+/**
+ * Runs the MCP server on a localhost port while copilotMemory.enableMcpServer is on
+ */
+export class McpServerService {
+    private httpServer: http.Server | undefined;
+    private server: McpServer;
+    private applying: Promise<void> = Promise.resolve();
+    private disposed = false;
+
+    constructor(private ruleManager: RuleManager, version: string) {
+        this.server = new McpServer(this.createRuleSource(), version);
+    }
+
+    /**
+     * Start or stop the server now and whenever its settings change
+     */
+    start(): vscode.Disposable {
+        this.apply();
+
+        const configSubscription = vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('copilotMemory.enableMcpServer') ||
+                event.affectsConfiguration('copilotMemory.mcpServerPort')) {
+                this.apply();
+            }
+        });
+
+        return new vscode.Disposable(() => {
+            configSubscription.dispose();
+            this.disposed = true;
+            this.applying = this.applying.then(() => this.stop());
+        });
+    }
+
+    /**
+     * Restart the server with the current settings, after any restart still in progress
+     */
+    private apply(): void {
+        this.applying = this.applying
+            .then(() => this.restart())
+            .catch(error => Logger.error('Failed to restart the MCP server', error as Error));
+    }
+
+    private async restart(): Promise<void> {
+        await this.stop();
+
+        const config = ConfigValidator.getSafeConfig();
+        if (this.disposed || !config.enableMcpServer) {
+            return;
+        }
+
+        try {
+            this.httpServer = await serveHttp(this.server, config.mcpServerPort);
+            Logger.info(`MCP server listening at http://127.0.0.1:${config.mcpServerPort}/mcp`);
+        } catch (error) {
+            const errorMessage = `Failed to start the MCP server on port ${config.mcpServerPort}: ${(error as Error).message}`;
+            Logger.error(errorMessage, error as Error);
+            vscode.window.showErrorMessage(errorMessage);
+        }
+    }
+
+    /**
+     * Close the server and its connections, so the port is free when this resolves
+     */
+    private async stop(): Promise<void> {
+        const httpServer = this.httpServer;
+        if (!httpServer) {
+            return;
+        }
+        this.httpServer = undefined;
+        await new Promise<void>(resolve => {
+            httpServer.close(() => resolve());
+            // Not available before Node 18.2, where idle connections close on their own timeout
+            httpServer.closeAllConnections?.();
+        });
+        Logger.info('MCP server stopped');
+    }
+
+    private createRuleSource(): McpRuleSource {
+        return {
+            listRules: () => this.ruleManager.getRules(),
+            addRule: rule => this.ruleManager.addRule(
+                rule.ruleText,
+                rule.scope,
+                rule.languageScope,
+                undefined,
+                undefined,
+                { pathPatterns: rule.pathPatterns }
+            ),
+            removeRule: ruleId => this.ruleManager.removeRule(ruleId)
+        };
+    }
+}
@@ -0,0 +1,261 @@
+import * as vscode from 'vscode';
+import { RuleManager, Rule } from '../ruleManager';
+import { Logger } from '../utils/logger';
+import { validateRuleText, sanitizeInput, getRelativePath, getWorkspaceRoot, matchesPathPatterns } from '../utils/helpers';
+import { PromptComposer } from './promptComposer';
+import { CHAT_PARTICIPANT_ID, COMMANDS, UI_MESSAGES } from '../constants';
+
+/**
+ * Whether this VS Code has the chat participant API; older versions keep the clipboard commands
+ */
+export function isChatParticipantSupported(): boolean {
+    return typeof vscode.chat?.createChatParticipant === 'function';
+}
+
+/**
+ * The @memory chat participant: adds the rules for the active file to each request and
+ * forwards it to the language model, with /rules, /add and /why commands
+ */
+export class MemoryChatParticipant {
+    constructor(private ruleManager: RuleManager, private promptComposer: PromptComposer) {}
+
+    /**
+     * Register the participant, or nothing when the chat API is not available
+     */
+    register(): vscode.Disposable {
+        if (!isChatParticipantSupported()) {
+            Logger.info('Chat participant API not available, use the copy commands to apply rules in chat');
+            return new vscode.Disposable(() => undefined);
+        }
+
+        const participant = vscode.chat.createChatParticipant(CHAT_PARTICIPANT_ID, (request, context, response, token) =>
+            this.handleRequest(request, context, response, token));
+        participant.iconPath = new vscode.ThemeIcon('book');
+
+        Logger.info('Registered the @memory chat participant');
+        return participant;
+    }
+
+    private async handleRequest(
+        request: vscode.ChatRequest,
+        context: vscode.ChatContext,
+        response: vscode.ChatResponseStream,
+        token: vscode.CancellationToken
+    ): Promise<vscode.ChatResult> {
+        try {
+            switch (request.command) {
+                case 'rules':
+                    return await this.showRules(response);
+                case 'add':
+                    return await this.addRule(request.prompt, response);
+                case 'why':
+                    return await this.explainRules(request.prompt, response);
+                default:
+                    return await this.answerWithRules(request, context, response, token);
+            }
+        } catch (error) {
+            Logger.error('Chat request failed', error as Error);
+            return { errorDetails: { message: `Copilot Memory could not answer: ${(error as Error).message}` } };
+        }
+    }
+
+    /**
+     * Send the request to the language model with the composed rules in front of it
+     */
+    private async answerWithRules(
+        request: vscode.ChatRequest,
+        context: vscode.ChatContext,
+        response: vscode.ChatResponseStream,
+        token: vscode.CancellationToken
+    ): Promise<vscode.ChatResult> {
+        const composed = await this.promptComposer.composePrompt('chat');
+        const model = request.model || (await this.selectModel());
+
+        if (!model) {
+            response.markdown('No language model is available. Copy your rules and paste them into any chat instead.');
+            response.button({ command: COMMANDS.copyRulesForChat, title: 'Copy Rules for Chat' });
+            return {};
+        }
+
+        const messages = [
+            ...(composed.rules.length > 0 ? [vscode.LanguageModelChatMessage.User(composed.prompt)] : []),
+            ...this.toHistoryMessages(context),
+            vscode.LanguageModelChatMessage.User(request.prompt)
+        ];
+
+        if (composed.rules.length > 0) {
+            response.progress(`Applying ${composed.rules.length} rules`);
+        }
+
+        try {
+            const reply = await model.sendRequest(messages, {}, token);
+            for await (const fragment of reply.text) {
+                response.markdown(fragment);
+            }
+        } catch (error) {
+            if (error instanceof vscode.LanguageModelError) {
+                Logger.warn(`Language model request failed: ${error.message} (${error.code})`);
+                return { errorDetails: { message: error.message } };
+            }
+            throw error;
+        }
+
+        if (composed.droppedRules.length > 0) {
+            response.markdown(`\n\n_${composed.droppedRules.length} lower-priority rules were left out to fit the ${composed.tokenBudget} token budget._`);
+        }
+        return { metadata: { ruleIds: composed.rules.map(rule => rule.ruleId) } };
+    }
+
+    /**
+     * List the rules that apply to the active file, in prompt order
+     */
+    private async showRules(response: vscode.ChatResponseStream): Promise<vscode.ChatResult> {
+        const composed = await this.promptComposer.compose();
+
+        if (composed.rules.length === 0) {
+            response.markdown(`${UI_MESSAGES.noRulesFound}\n\n`);
+        } else {
+            response.markdown(`**${composed.rules.length} rules apply here:**\n\n`);
+            response.markdown(composed.rules.map((rule, index) => `${index + 1}. ${rule.ruleText}`).join('\n') + '\n\n');
+        }
+        if (composed.droppedRules.length > 0) {
+            response.markdown(`Left out to fit the ${composed.tokenBudget} token budget:\n\n` +
+                composed.droppedRules.map(rule => `- ~~${rule.ruleText}~~`).join('\n') + '\n\n');
+        }
+
+        response.button({ command: COMMANDS.listRules, title: 'Manage Rules' });
+        return {};
+    }
+
+    /**
+     * Add the text after /add as a global rule
+     */
+    private async addRule(text: string, response: vscode.ChatResponseStream): Promise<vscode.ChatResult> {
+        const validation = validateRuleText(text);
+        if (!validation.isValid) {
+            response.markdown(`${validation.error}. Write the rule after the command, e.g. \`/add Use const for values that are not reassigned\`.`);
+            return {};
+        }
+
+        const ruleText = sanitizeInput(text);
+        const ruleId = await this.ruleManager.addRule(ruleText, 'global');
+        Logger.info(`Rule added from chat: ${ruleText}`);
+
+        response.markdown(`${UI_MESSAGES.ruleAdded} It is now a global rule:\n\n> ${ruleText}\n\n`);
+        response.button({ command: COMMANDS.addRule, title: 'Add a Scoped Rule' });
+        return { metadata: { ruleIds: [ruleId] } };
+    }
+
+    /**
+     * Explain why each rule applies to the active file, or why rules matching the text after /why do not
+     */
+    private async explainRules(query: string, response: vscode.ChatResponseStream): Promise<vscode.ChatResult> {
+        const document = vscode.window.activeTextEditor?.document;
+        const composed = await this.promptComposer.compose();
+        const applied = new Set(composed.rules.map(rule => rule.ruleId));
+        const dropped = new Set(composed.droppedRules.map(rule => rule.ruleId));
+
+        const search = query.trim().toLowerCase();
+        const rules = search
+            ? (await this.ruleManager.getRules()).filter(rule => rule.ruleText.toLowerCase().includes(search))
+            : [...composed.rules, ...composed.droppedRules];
+
+        if (rules.length === 0) {
+            response.markdown(search ? `No rule mentions "${query.trim()}".` : UI_MESSAGES.noRulesFound);
+            return {};
+        }
+
+        const target = document ? `\`${getRelativePath(document.uri)}\`` : 'this workspace';
+        response.markdown(`**Rules for ${target}:**\n\n`);
+        for (const rule of rules) {
+            const status = applied.has(rule.ruleId)
+                ? `applies because ${describeReason(rule)}`
+                : dropped.has(rule.ruleId)
+                    ? `applies, but was left out to fit the ${composed.tokenBudget} token budget`
+                    : `does not apply: ${describeExclusion(rule, document)}`;
+            response.markdown(`- **${rule.ruleText}** ${status}\n`);
+        }
+        return {};
+    }
+
+    private async selectModel(): Promise<vscode.LanguageModelChat | undefined> {
+        if (typeof vscode.lm?.selectChatModels !== 'function') {
+            return undefined;
+        }
+        const [model] = await vscode.lm.selectChatModels({ vendor: 'copilot' });
+        return model;
+    }
+
+    /**
+     * Earlier turns with @memory, so follow-up questions keep their context
+     */
+    private toHistoryMessages(context: vscode.ChatContext): vscode.LanguageModelChatMessage[] {
+        return context.history.flatMap(turn => {
+            if (turn instanceof vscode.ChatRequestTurn) {
+                return turn.command ? [] : [vscode.LanguageModelChatMessage.User(turn.prompt)];
+            }
+
+            const text = turn.response
+                .map(part => part instanceof vscode.ChatResponseMarkdownPart ? part.value.value : '')
+                .join('');
+            return text ? [vscode.LanguageModelChatMessage.Assistant(text)] : [];
+        });
+    }
+}
+
+/**
+ * Why an applied rule matches the document
+ */
+function describeReason(rule: Rule): string {
+    const reasons: string[] = [];
+    switch (rule.scope) {
+        case 'global':
+            reasons.push('it is a global rule');
+            break;
+        case 'project':
+            reasons.push('it is a rule for this project');
+            break;
+        case 'language':
+            reasons.push(`the file is ${rule.languageScope}`);
+            break;
+        case 'path':
+            reasons.push(`the file matches ${(rule.pathPatterns || []).map(pattern => `\`${pattern}\``).join(', ')}`);
+            break;
+        case 'custom':
+            reasons.push(`the custom scope "${rule.customScope}" matches`);
+            break;
+    }
+    if (rule.condition) {
+        reasons.push(`\`${rule.condition}\` holds`);
+    }
+    return reasons.join(' and ');
+}
+
+/**
+ * Why a rule does not match the document
+ */
+function describeExclusion(rule: Rule, document: vscode.TextDocument | undefined): string {
+    if (!rule.isActive) {
+        return 'it is paused';
+    }
+
+    const patterns = (rule.pathPatterns || []).map(pattern => `\`${pattern}\``).join(', ');
+    if (rule.scope === 'language' && document?.languageId !== rule.languageScope) {
+        return `it is for ${rule.languageScope} files`;
+    }
+    if (rule.scope === 'path' && !(document && matchesPathPatterns(document.uri, rule.pathPatterns || []))) {
+        return `the file does not match ${patterns}`;
+    }
+    if (rule.scope === 'project' && rule.projectPath !== getWorkspaceRoot(document?.uri)) {
+        return 'it belongs to another project';
+    }
+    if (rule.condition) {
+        return `\`${rule.condition}\` does not hold`;
+    }
+    if (rule.scope === 'custom') {
+        return `the custom scope "${rule.customScope}" does not match`;
+    }
+    return rule.scope === 'global'
+        ? 'a more specific rule supersedes it here, or it repeats another rule'
+        : 'it repeats another rule';
+}
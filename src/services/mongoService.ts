@@ -1,6 +1,6 @@
 import * as mongoose from 'mongoose';
-import * as vscode from 'vscode';
 import { Logger } from '../utils/logger';
+import { Emitter } from '../utils/events';
 
 /**
  * Configuration options for MongoDB connection
@@ -38,6 +38,12 @@ export class MongoService {
     private connectionPromise: Promise<mongoose.Connection> | null = null;
     private retryConfig: RetryConfig;
     private connectionConfig: MongoConnectionConfig;
+    private reconnectEmitter = new Emitter<void>();
+
+    /**
+     * Fires when a dropped connection has been re-established
+     */
+    public readonly onReconnected = this.reconnectEmitter.event;
 
     private constructor(config: MongoConnectionConfig, retryConfig: RetryConfig = {
         maxRetries: 3,
@@ -73,6 +79,13 @@ export class MongoService {
         return MongoService.instance;
     }
 
+    /**
+     * Create a service with its own connection, e.g. for a second database
+     */
+    public static createDedicated(config: MongoConnectionConfig, retryConfig?: RetryConfig): MongoService {
+        return new MongoService(config, retryConfig);
+    }
+
     /**
      * Connect to MongoDB with retry logic
      */
@@ -222,6 +235,7 @@ export class MongoService {
 
         connection.on('reconnected', () => {
             Logger.info('MongoDB reconnected');
+            this.reconnectEmitter.fire();
         });
 
         connection.on('close', () => {
@@ -0,0 +1,142 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { Rule } from '../ruleManager';
+import { RuleStore, reviveRule, upsertRule } from '../stores/ruleStore';
+import { Logger } from '../utils/logger';
+import { Emitter } from '../utils/events';
+
+/**
+ * A rule store write that could not be applied yet. Upserts carry the full rule,
+ * so replaying an operation more than once has the same effect as replaying it once.
+ */
+export interface PendingWrite {
+    opId: string;
+    type: 'upsert' | 'delete';
+    ruleId: string;
+    rule?: Rule;
+    queuedAt: Date;
+}
+
+/**
+ * Durable log of rule store writes made while offline, replayed in order on reconnect
+ */
+export class PendingWriteQueue {
+    private writes: PendingWrite[];
+    private changeEmitter = new Emitter<number>();
+
+    /**
+     * Fires with the number of pending writes whenever it changes
+     */
+    readonly onDidChange = this.changeEmitter.event;
+
+    constructor(private queueFilePath: string) {
+        this.writes = this.load();
+    }
+
+    get size(): number {
+        return this.writes.length;
+    }
+
+    /**
+     * Queue the latest state of a rule; older writes for the same rule are superseded
+     */
+    enqueueUpsert(rule: Rule): void {
+        this.enqueue({ opId: crypto.randomUUID(), type: 'upsert', ruleId: rule.ruleId, rule: { ...rule }, queuedAt: new Date() });
+    }
+
+    /**
+     * Queue a permanent deletion of a rule
+     */
+    enqueueDelete(ruleId: string): void {
+        this.enqueue({ opId: crypto.randomUUID(), type: 'delete', ruleId, queuedAt: new Date() });
+    }
+
+    /**
+     * Apply pending writes in order, stopping at the first failure
+     */
+    async replay(store: RuleStore): Promise<number> {
+        let replayed = 0;
+
+        while (this.writes.length > 0) {
+            const write = this.writes[0];
+            try {
+                if (write.type === 'upsert') {
+                    await upsertRule(store, write.rule!);
+                } else {
+                    await store.delete([write.ruleId]);
+                }
+            } catch (error) {
+                Logger.error(`Failed to replay pending write for rule ${write.ruleId}`, error as Error);
+                break;
+            }
+
+            this.writes.shift();
+            this.save();
+            replayed++;
+        }
+
+        if (replayed > 0) {
+            Logger.info(`Replayed ${replayed} pending writes to the ${store.id} store`);
+        }
+        return replayed;
+    }
+
+    /**
+     * Drop all pending writes, e.g. after a full sync made them redundant
+     */
+    clear(): void {
+        if (this.writes.length > 0) {
+            this.writes = [];
+            this.save();
+        }
+    }
+
+    dispose(): void {
+        this.changeEmitter.dispose();
+    }
+
+    private enqueue(write: PendingWrite): void {
+        this.writes = this.writes.filter(w => w.ruleId !== write.ruleId);
+        this.writes.push(write);
+        this.save();
+        Logger.info(`Queued ${write.type} of rule ${write.ruleId} until the rule store is reachable`);
+    }
+
+    private load(): PendingWrite[] {
+        try {
+            if (!fs.existsSync(this.queueFilePath)) {
+                return [];
+            }
+            const records: any[] = JSON.parse(fs.readFileSync(this.queueFilePath, 'utf8')) || [];
+            return records.map(record => ({
+                ...record,
+                queuedAt: new Date(record.queuedAt),
+                rule: record.rule && reviveRule(record.rule)
+            }));
+        } catch (error) {
+            Logger.error('Failed to load pending writes', error as Error);
+            return [];
+        }
+    }
+
+    private save(): void {
+        try {
+            const dir = path.dirname(this.queueFilePath);
+            if (!fs.existsSync(dir)) {
+                fs.mkdirSync(dir, { recursive: true });
+            }
+            if (this.writes.length === 0) {
+                if (fs.existsSync(this.queueFilePath)) {
+                    fs.unlinkSync(this.queueFilePath);
+                }
+            } else {
+                fs.writeFileSync(this.queueFilePath, JSON.stringify(this.writes, null, 2));
+            }
+        } catch (error) {
+            Logger.error('Failed to save pending writes', error as Error);
+        }
+
+        this.changeEmitter.fire(this.writes.length);
+    }
+}
@@ -0,0 +1,211 @@
+import * as path from 'path';
+import { RuleManager, Rule } from '../ruleManager';
+import { Logger } from '../utils/logger';
+import { ConfigValidator } from '../utils/configValidator';
+import { getLanguageIdForPath, getRelativePath, getWorkspaceRoot } from '../utils/workspacePaths';
+import { TemplateUse, renderTemplate } from './promptTemplates';
+import { getTemplateForUse } from './templateSettings';
+import { RuleScope } from '../constants';
+import { DocumentLocation, OpenDocument, RuleHost, getHost } from '../core/host';
+
+/**
+ * Rules chosen for a prompt, in prompt order, and the rules left out to stay within the token budget
+ */
+export interface ComposedRules {
+    rules: Rule[];
+    droppedRules: Rule[];
+    /** Estimated tokens of the chosen rules */
+    tokenCount: number;
+    /** Budget the rules were fitted to; 0 means no limit */
+    tokenBudget: number;
+}
+
+/**
+ * Document to compose rules for, and the token budget to fit them into
+ */
+export interface PromptCompositionOptions {
+    languageId?: string;
+    /** Defaults to the active document */
+    documentUri?: DocumentLocation;
+    /** Defaults to copilotMemory.promptTokenBudget; 0 means no limit */
+    tokenBudget?: number;
+}
+
+/**
+ * Composed rules rendered with the template chosen for a use
+ */
+export interface ComposedPrompt extends ComposedRules {
+    prompt: string;
+}
+
+/**
+ * Document a prompt is composed for, used to rank rules by relevance
+ */
+export interface PromptContext {
+    languageId?: string;
+    /** Path of the document relative to its workspace folder */
+    path?: string;
+    /** Text of the document */
+    text?: string;
+}
+
+/**
+ * How specific each scope is; more specific rules are kept first when the budget is tight
+ */
+const SCOPE_RELEVANCE: Record<RuleScope, number> = {
+    global: 0,
+    project: 1,
+    language: 2,
+    custom: 2,
+    path: 3
+};
+
+/** Tokens each rule adds besides its text, for the bullet and line break */
+const RULE_OVERHEAD_TOKENS = 2;
+
+/** Only the start of large documents is scanned for terms */
+const MAX_SCANNED_CHARACTERS = 50000;
+
+/**
+ * Approximate the number of tokens a text uses with BPE tokenizers: one per short word and
+ * about five letters per token in longer ones, three digits per token, and one per punctuation
+ * mark or other symbol
+ */
+export function estimateTokens(text: string): number {
+    const pieces: string[] = text.match(/[A-Za-z]+|\d+|[^\sA-Za-z\d]/g) || [];
+    return pieces.reduce((count, piece) => {
+        if (/^[A-Za-z]/.test(piece)) {
+            return count + Math.max(1, Math.round(piece.length / 5));
+        }
+        if (/^\d/.test(piece)) {
+            return count + Math.ceil(piece.length / 3);
+        }
+        return count + 1;
+    }, 0);
+}
+
+/**
+ * Estimated tokens a rule adds to a prompt
+ */
+export function estimateRuleTokens(rule: Rule): number {
+    return estimateTokens(rule.ruleText) + RULE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Score how relevant a rule is to a document: the specificity of its scope and condition,
+ * plus the share of the rule's words that appear in the document's path or text
+ */
+export function scoreRuleRelevance(rule: Rule, context: PromptContext, documentTerms = getDocumentTerms(context)): number {
+    const ruleTerms = getTerms(rule.ruleText);
+    const overlap = ruleTerms.size > 0
+        ? Array.from(ruleTerms).filter(term => documentTerms.has(term)).length / ruleTerms.size
+        : 0;
+
+    return SCOPE_RELEVANCE[rule.scope] + (rule.condition ? 1 : 0) + overlap;
+}
+
+/**
+ * Fit rules, given in prompt order, into a token budget. Rules are taken by priority and then
+ * relevance; a rule too large for what is left is dropped and smaller ones are still tried.
+ * The chosen rules keep their prompt order.
+ */
+export function fitRulesToBudget(rules: Rule[], tokenBudget: number, context: PromptContext = {}): ComposedRules {
+    const costs = new Map(rules.map(rule => [rule, estimateRuleTokens(rule)]));
+    const totalTokens = rules.reduce((sum, rule) => sum + costs.get(rule)!, 0);
+    if (tokenBudget <= 0 || totalTokens <= tokenBudget) {
+        return { rules, droppedRules: [], tokenCount: totalTokens, tokenBudget };
+    }
+
+    const documentTerms = getDocumentTerms(context);
+    const relevance = new Map(rules.map(rule => [rule, scoreRuleRelevance(rule, context, documentTerms)]));
+    const fillOrder = [...rules].sort((a, b) =>
+        (b.priority ?? 0) - (a.priority ?? 0) ||
+        relevance.get(b)! - relevance.get(a)! ||
+        rules.indexOf(a) - rules.indexOf(b));
+
+    const chosen = new Set<Rule>();
+    let tokenCount = 0;
+    for (const rule of fillOrder) {
+        const cost = costs.get(rule)!;
+        if (tokenCount + cost <= tokenBudget) {
+            chosen.add(rule);
+            tokenCount += cost;
+        }
+    }
+
+    return {
+        rules: rules.filter(rule => chosen.has(rule)),
+        droppedRules: rules.filter(rule => !chosen.has(rule)),
+        tokenCount,
+        tokenBudget
+    };
+}
+
+function getDocumentTerms(context: PromptContext): Set<string> {
+    return getTerms(`${context.path || ''} ${(context.text || '').slice(0, MAX_SCANNED_CHARACTERS)}`);
+}
+
+/**
+ * Lowercase words of four or more letters, which carry most of a rule's meaning
+ */
+function getTerms(text: string): Set<string> {
+    return new Set((text.toLowerCase().match(/[a-z][a-z0-9_]{3,}/g) || []));
+}
+
+/**
+ * Chooses the rules that go into a prompt for a document, within the configured token budget.
+ * Shared by the Copilot interceptor, the chat commands and the public API.
+ */
+export class PromptComposer {
+    constructor(private ruleManager: RuleManager, private host: RuleHost = getHost()) {}
+
+    /**
+     * Compose the applicable rules for a document, by default the active one
+     */
+    async compose(options: PromptCompositionOptions = {}): Promise<ComposedRules> {
+        const { documentUri, document, languageId } = this.resolveDocument(options);
+        const tokenBudget = options.tokenBudget ?? ConfigValidator.getSafeConfig(this.host).promptTokenBudget;
+
+        const rules = await this.ruleManager.getApplicableRules(languageId, documentUri);
+        const composed = fitRulesToBudget(rules, tokenBudget, {
+            languageId,
+            path: documentUri ? getRelativePath(documentUri, this.host.workspace) : undefined,
+            text: document?.getText()
+        });
+
+        if (composed.droppedRules.length > 0) {
+            Logger.info(`Left out ${composed.droppedRules.length} of ${rules.length} rules to fit the ${tokenBudget} token budget`);
+        }
+        return composed;
+    }
+
+    /**
+     * Compose the rules for a document and render them with the template chosen for a use
+     */
+    async composePrompt(use: TemplateUse, options: PromptCompositionOptions = {}): Promise<ComposedPrompt> {
+        const composed = await this.compose(options);
+        const { documentUri, languageId } = this.resolveDocument(options);
+        const projectPath = getWorkspaceRoot(documentUri, this.host.workspace);
+
+        const prompt = renderTemplate(getTemplateForUse(use), composed.rules, {
+            language: languageId,
+            project: projectPath ? path.basename(projectPath) : undefined
+        });
+        return { ...composed, prompt };
+    }
+
+    /**
+     * The document to compose for, defaulting to the active one, and its language,
+     * taken from the file name when the document is not open
+     */
+    private resolveDocument(options: PromptCompositionOptions): {
+        documentUri?: DocumentLocation;
+        document?: OpenDocument;
+        languageId?: string;
+    } {
+        const documentUri = options.documentUri || this.host.workspace.getActiveDocument()?.location;
+        const document = documentUri ? this.host.workspace.getOpenDocument?.(documentUri) : undefined;
+        const languageId = options.languageId || document?.languageId || (documentUri && getLanguageIdForPath(documentUri.fsPath));
+        return { documentUri, document, languageId };
+    }
+}
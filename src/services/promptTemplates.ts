@@ -0,0 +1,228 @@
+import { Rule } from '../ruleManager';
+import { Logger } from '../utils/logger';
+
+/**
+ * Places rules are written to, each with its own template setting
+ */
+export const TEMPLATE_USES = ['chat', 'interceptor', 'export'] as const;
+export type TemplateUse = typeof TEMPLATE_USES[number];
+
+/**
+ * How the {{rules}} placeholder is rendered
+ * - numbered: a numbered list
+ * - xml: one <rule> element per rule
+ * - markdown: a section per scope, language and set of globs, with bullets
+ */
+export const RULE_FORMATS = ['numbered', 'xml', 'markdown'] as const;
+export type RuleFormat = typeof RULE_FORMATS[number];
+
+/**
+ * Text around the rules, with {{rules}}, {{language}}, {{project}} and {{count}} placeholders
+ */
+export interface PromptTemplate {
+    name: string;
+    format: RuleFormat;
+    text: string;
+    description?: string;
+}
+
+/**
+ * Values for the placeholders other than {{rules}}
+ */
+export interface TemplateContext {
+    language?: string;
+    project?: string;
+    /** Append each rule's <!-- rule:ID --> marker, so edits to exported files can be traced back */
+    withMarkers?: boolean;
+}
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+    {
+        name: 'numbered',
+        format: 'numbered',
+        description: 'Numbered list of rules',
+        text: 'Please follow these coding rules when writing code, explanations and suggestions:\n\n{{rules}}'
+    },
+    {
+        name: 'xml',
+        format: 'xml',
+        description: 'Rules in XML tags, with their scope',
+        text: '<coding_rules count="{{count}}">\n{{rules}}\n</coding_rules>\n\nFollow every rule in <coding_rules> when writing or explaining code.'
+    },
+    {
+        name: 'markdown',
+        format: 'markdown',
+        description: 'Markdown sections by scope',
+        text: '## Coding Rules\n\n{{rules}}'
+    }
+];
+
+/**
+ * One of the built-in templates by name
+ */
+export function getBuiltInTemplate(name: string): PromptTemplate {
+    return BUILT_IN_TEMPLATES.find(template => template.name === name) || BUILT_IN_TEMPLATES[0];
+}
+
+/**
+ * Template used when the setting for a use is missing or names an unknown template
+ */
+export const DEFAULT_TEMPLATES: Record<TemplateUse, string> = {
+    chat: 'numbered',
+    interceptor: 'numbered',
+    export: 'markdown'
+};
+
+/**
+ * Setting under copilotMemory that names the template for each use
+ */
+export const TEMPLATE_SETTINGS: Record<TemplateUse, string> = {
+    chat: 'chatTemplate',
+    interceptor: 'interceptorTemplate',
+    export: 'exportTemplate'
+};
+
+/**
+ * Fill a template's placeholders; unknown placeholders are left as they are
+ */
+export function renderTemplate(template: PromptTemplate, rules: Rule[], context: TemplateContext = {}): string {
+    const values: Record<string, string> = {
+        rules: renderRules(template.format, rules, context.withMarkers),
+        language: context.language || '',
+        project: context.project || '',
+        count: String(rules.length)
+    };
+
+    return template.text.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+        Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder);
+}
+
+/**
+ * Render rules in one of the built-in formats
+ */
+export function renderRules(format: RuleFormat, rules: Rule[], withMarkers = false): string {
+    const marker = (rule: Rule) => withMarkers ? ` <!-- rule:${rule.ruleId} -->` : '';
+
+    switch (format) {
+        case 'numbered':
+            return rules.map((rule, index) => `${index + 1}. ${rule.ruleText}${marker(rule)}`).join('\n');
+        case 'xml':
+            return rules.map(rule => `<rule scope="${describeScope(rule)}">${escapeXml(rule.ruleText)}</rule>${marker(rule)}`).join('\n');
+        case 'markdown':
+            return groupRulesByScope(rules)
+                .map(section => [`### ${section.title}`, ...section.rules.map(rule => `- ${rule.ruleText}${marker(rule)}`)].join('\n'))
+                .join('\n\n');
+    }
+}
+
+/**
+ * Describe a rule on one line, with its ID and where it applies, for tools and the command line
+ */
+export function formatRuleLine(rule: Rule): string {
+    const where = rule.scope === 'language' ? `language: ${rule.languageScope}`
+        : rule.scope === 'path' ? `files: ${(rule.pathPatterns || []).join(', ')}`
+            : rule.scope === 'custom' ? `custom: ${rule.customScope}`
+                : rule.scope;
+    const details = [where, ...(rule.condition ? [`when: ${rule.condition}`] : []), ...(rule.isActive ? [] : ['paused'])];
+    return `- ${rule.ruleText} (${details.join('; ')}) [${rule.ruleId}]`;
+}
+
+/**
+ * Group rules into sections: global, project, one per set of globs, custom, then one per language
+ */
+export function groupRulesByScope(rules: Rule[]): { title: string; rules: Rule[] }[] {
+    const sections: { title: string; rules: Rule[] }[] = [
+        { title: 'Global', rules: rules.filter(rule => rule.scope === 'global') },
+        { title: 'Project', rules: rules.filter(rule => rule.scope === 'project') }
+    ];
+
+    // Rules sharing the same globs go under one heading
+    const pathRules = rules.filter(rule => rule.scope === 'path' && rule.pathPatterns?.length);
+    const patternSets = Array.from(new Set(pathRules.map(rule => JSON.stringify(rule.pathPatterns))));
+    for (const patternSet of patternSets) {
+        const patterns: string[] = JSON.parse(patternSet);
+        sections.push({
+            title: `Path: ${patterns.map(pattern => `\`${pattern}\``).join(', ')}`,
+            rules: pathRules.filter(rule => JSON.stringify(rule.pathPatterns) === patternSet)
+        });
+    }
+
+    const customScopes = Array.from(new Set(
+        rules.filter(rule => rule.scope === 'custom' && rule.customScope).map(rule => rule.customScope!)
+    )).sort();
+    for (const customScope of customScopes) {
+        sections.push({
+            title: `Custom: ${customScope}`,
+            rules: rules.filter(rule => rule.scope === 'custom' && rule.customScope === customScope)
+        });
+    }
+
+    const languages = Array.from(new Set(
+        rules.filter(rule => rule.scope === 'language' && rule.languageScope).map(rule => rule.languageScope!)
+    )).sort();
+    for (const language of languages) {
+        sections.push({
+            title: `Language: ${language}`,
+            rules: rules.filter(rule => rule.scope === 'language' && rule.languageScope === language)
+        });
+    }
+
+    return sections.filter(section => section.rules.length > 0);
+}
+
+/**
+ * The built-in templates and custom ones given by name, which can replace a built-in one
+ */
+export function resolveTemplates(custom: Record<string, unknown>): PromptTemplate[] {
+    const templates = [...BUILT_IN_TEMPLATES];
+
+    for (const [name, value] of Object.entries(custom || {})) {
+        const template = parseCustomTemplate(name, value);
+        if (!template) {
+            Logger.warn(`Ignoring custom template "${name}": it needs a "text" containing {{rules}}`);
+            continue;
+        }
+        const index = templates.findIndex(t => t.name === name);
+        if (index === -1) {
+            templates.push(template);
+        } else {
+            templates[index] = template;
+        }
+    }
+
+    return templates;
+}
+
+/**
+ * A custom template is either its text, rendered as a numbered list, or { text, format, description }
+ */
+function parseCustomTemplate(name: string, value: unknown): PromptTemplate | undefined {
+    const record = (typeof value === 'string' ? { text: value } : value) as Partial<PromptTemplate> | null;
+    if (!record || typeof record.text !== 'string' || !/\{\{\s*rules\s*\}\}/.test(record.text)) {
+        return undefined;
+    }
+
+    return {
+        name,
+        format: RULE_FORMATS.includes(record.format as RuleFormat) ? record.format as RuleFormat : 'numbered',
+        text: record.text,
+        description: typeof record.description === 'string' ? record.description : undefined
+    };
+}
+
+function describeScope(rule: Rule): string {
+    switch (rule.scope) {
+        case 'language':
+            return `language:${escapeXml(rule.languageScope || '')}`;
+        case 'path':
+            return `path:${escapeXml((rule.pathPatterns || []).join(','))}`;
+        case 'custom':
+            return `custom:${escapeXml(rule.customScope || '')}`;
+        default:
+            return rule.scope;
+    }
+}
+
+function escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -0,0 +1,156 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as mongoose from 'mongoose';
+import { IRuleRevisionDocument } from '../models/ruleRevisionSchema';
+import { Rule } from '../ruleManager';
+import { RuleScope } from '../constants';
+import { Logger } from '../utils/logger';
+
+export type RuleRevisionAction = 'created' | 'updated' | 'activated' | 'deactivated' | 'deleted' | 'restored';
+
+/**
+ * Snapshot of a rule taken after a change
+ */
+export interface RuleRevision {
+    revisionId: string;
+    ruleId: string;
+    action: RuleRevisionAction;
+    ruleText: string;
+    scope: RuleScope;
+    languageScope?: string;
+    projectPath?: string;
+    pathPatterns?: string[];
+    customScope?: string;
+    condition?: string;
+    priority?: number;
+    supersedes?: string[];
+    isActive: boolean;
+    author: string;
+    createdAt: Date;
+}
+
+/**
+ * Records rule revisions in MongoDB or in a local sidecar file
+ */
+export class RuleHistoryService {
+    private revisionModel: mongoose.Model<IRuleRevisionDocument> | null = null;
+    private author: string;
+
+    constructor(private historyFilePath: string) {
+        this.author = RuleHistoryService.resolveAuthor();
+    }
+
+    /**
+     * Use MongoDB for revisions, or pass null to use the local file
+     */
+    setModel(model: mongoose.Model<IRuleRevisionDocument> | null): void {
+        this.revisionModel = model;
+    }
+
+    /**
+     * Record a snapshot of the rule after a change
+     */
+    async record(action: RuleRevisionAction, rule: Rule): Promise<RuleRevision> {
+        const revision: RuleRevision = {
+            revisionId: crypto.randomUUID(),
+            ruleId: rule.ruleId,
+            action,
+            ruleText: rule.ruleText,
+            scope: rule.scope,
+            languageScope: rule.languageScope,
+            projectPath: rule.projectPath,
+            pathPatterns: rule.pathPatterns,
+            customScope: rule.customScope,
+            condition: rule.condition,
+            priority: rule.priority,
+            supersedes: rule.supersedes,
+            isActive: rule.isActive,
+            author: this.author,
+            createdAt: new Date()
+        };
+
+        if (this.revisionModel) {
+            try {
+                await this.revisionModel.create(revision);
+                return revision;
+            } catch (error) {
+                Logger.error('Failed to save rule revision to MongoDB', error as Error);
+            }
+        }
+
+        const revisions = this.loadLocalRevisions();
+        revisions.push(revision);
+        this.saveLocalRevisions(revisions);
+        return revision;
+    }
+
+    /**
+     * Get all revisions of a rule, newest first
+     */
+    async getHistory(ruleId: string): Promise<RuleRevision[]> {
+        if (this.revisionModel) {
+            try {
+                const documents = await this.revisionModel.find({ ruleId }).sort({ createdAt: -1 });
+                return documents.map(doc => ({
+                    revisionId: doc.revisionId,
+                    ruleId: doc.ruleId,
+                    action: doc.action,
+                    ruleText: doc.ruleText,
+                    scope: doc.scope,
+                    languageScope: doc.languageScope,
+                    projectPath: doc.projectPath,
+                    pathPatterns: doc.pathPatterns?.length ? [...doc.pathPatterns] : undefined,
+                    customScope: doc.customScope,
+                    condition: doc.condition,
+                    priority: doc.priority,
+                    supersedes: doc.supersedes?.length ? [...doc.supersedes] : undefined,
+                    isActive: doc.isActive,
+                    author: doc.author,
+                    createdAt: doc.createdAt
+                }));
+            } catch (error) {
+                Logger.error('Failed to load rule history from MongoDB', error as Error);
+            }
+        }
+
+        // Revisions are appended, so reversing first keeps same-millisecond entries newest first
+        return this.loadLocalRevisions()
+            .filter(revision => revision.ruleId === ruleId)
+            .reverse()
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    }
+
+    private loadLocalRevisions(): RuleRevision[] {
+        try {
+            if (!fs.existsSync(this.historyFilePath)) {
+                return [];
+            }
+            const data = fs.readFileSync(this.historyFilePath, 'utf8');
+            return JSON.parse(data).map((revision: any) => ({
+                ...revision,
+                createdAt: new Date(revision.createdAt)
+            }));
+        } catch (error) {
+            Logger.error('Failed to load rule history from local file', error as Error);
+            return [];
+        }
+    }
+
+    private saveLocalRevisions(revisions: RuleRevision[]): void {
+        const dir = path.dirname(this.historyFilePath);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+        fs.writeFileSync(this.historyFilePath, JSON.stringify(revisions, null, 2));
+    }
+
+    private static resolveAuthor(): string {
+        try {
+            return os.userInfo().username;
+        } catch {
+            return 'unknown';
+        }
+    }
+}
@@ -0,0 +1,285 @@
+import * as crypto from 'crypto';
+import { Rule } from '../ruleManager';
+import { RULE_SCOPES, RuleScope } from '../constants';
+import { validateRuleText, validateGlobPattern, sanitizeInput } from '../utils/validation';
+import { validateCondition } from '../utils/ruleCondition';
+
+/**
+ * How imported rules are combined with existing rules
+ * - merge: add new rules and overwrite changed ones
+ * - replace: like merge, and move existing rules missing from the import to the trash
+ * - skip-duplicates: only add new rules
+ */
+export type RuleImportMode = 'merge' | 'replace' | 'skip-duplicates';
+
+/**
+ * Rule read from an import file; only text and scope are required
+ */
+export interface ImportedRule {
+    ruleId?: string;
+    ruleText: string;
+    scope: RuleScope;
+    languageScope?: string;
+    projectPath?: string;
+    pathPatterns?: string[];
+    customScope?: string;
+    condition?: string;
+    priority?: number;
+    supersedes?: string[];
+    isActive: boolean;
+    createdAt?: Date;
+}
+
+/**
+ * What an import would do, computed before anything is written
+ */
+export interface RuleImportPlan {
+    mode: RuleImportMode;
+    newRules: ImportedRule[];
+    changedRules: { existing: Rule; incoming: ImportedRule }[];
+    identicalRules: Rule[];
+    removedRules: Rule[];
+}
+
+/**
+ * Counts reported after an import
+ */
+export interface RuleImportSummary {
+    added: number;
+    updated: number;
+    unchanged: number;
+    skipped: number;
+    removed: number;
+}
+
+/**
+ * Parse an export file ({ exportedAt, totalRules, rules }) or a bare array of rules
+ */
+export function parseRuleImport(content: string | object): ImportedRule[] {
+    const data = typeof content === 'string' ? JSON.parse(content) : content;
+    const records = Array.isArray(data) ? data : (data as any)?.rules;
+
+    if (!Array.isArray(records)) {
+        throw new Error('Import file must be a rules export or an array of rules');
+    }
+
+    return records.map((record: any, index: number) => {
+        const validation = validateRuleText(record?.ruleText);
+        if (!validation.isValid) {
+            throw new Error(`Invalid rule at index ${index}: ${validation.error}`);
+        }
+
+        if (!RULE_SCOPES.includes(record.scope)) {
+            throw new Error(`Invalid rule at index ${index}: unknown scope "${record.scope}"`);
+        }
+
+        const pathPatterns = record.scope === 'path' ? parsePathPatterns(record.pathPatterns, index) : undefined;
+
+        // Custom scopes may belong to extensions that are not installed yet, so any name is accepted
+        if (record.scope === 'custom' && (typeof record.customScope !== 'string' || !record.customScope.trim())) {
+            throw new Error(`Invalid rule at index ${index}: custom rules need a customScope name`);
+        }
+
+        const condition = typeof record.condition === 'string' && record.condition.trim() ? record.condition.trim() : undefined;
+        const conditionValidation = condition ? validateCondition(condition) : { isValid: true };
+        if (!conditionValidation.isValid) {
+            throw new Error(`Invalid rule at index ${index}: ${conditionValidation.error}`);
+        }
+
+        if (record.priority !== undefined && record.priority !== null && !Number.isFinite(record.priority)) {
+            throw new Error(`Invalid rule at index ${index}: priority must be a number`);
+        }
+
+        return {
+            ruleId: typeof record.ruleId === 'string' ? record.ruleId : undefined,
+            ruleText: sanitizeInput(record.ruleText),
+            scope: record.scope,
+            languageScope: record.languageScope || undefined,
+            projectPath: record.projectPath || undefined,
+            pathPatterns,
+            customScope: record.scope === 'custom' ? record.customScope.trim() : undefined,
+            condition,
+            priority: Number.isFinite(record.priority) ? record.priority : undefined,
+            supersedes: record.scope !== 'global' ? parseSupersedes(record.supersedes, index) : undefined,
+            isActive: record.isActive !== false,
+            createdAt: record.createdAt ? new Date(record.createdAt) : undefined
+        };
+    });
+}
+
+/**
+ * Normalize rule text so that whitespace and case differences still match
+ */
+export function normalizeRuleText(text: string): string {
+    return sanitizeInput(text).toLowerCase();
+}
+
+/**
+ * Match imported rules against existing ones by ruleId, then by normalized text
+ */
+export function planRuleImport(existing: Rule[], incoming: ImportedRule[], mode: RuleImportMode): RuleImportPlan {
+    const plan: RuleImportPlan = {
+        mode,
+        newRules: [],
+        changedRules: [],
+        identicalRules: [],
+        removedRules: []
+    };
+
+    const byId = new Map(existing.map(rule => [rule.ruleId, rule]));
+    const byText = new Map(existing.map(rule => [normalizeRuleText(rule.ruleText), rule]));
+    const matched = new Set<string>();
+    const seenTexts = new Set<string>();
+
+    for (const rule of incoming) {
+        const normalizedText = normalizeRuleText(rule.ruleText);
+        if (seenTexts.has(normalizedText)) {
+            continue; // Duplicate within the import itself
+        }
+        seenTexts.add(normalizedText);
+
+        const match = (rule.ruleId && byId.get(rule.ruleId)) || byText.get(normalizedText);
+        if (!match || matched.has(match.ruleId)) {
+            plan.newRules.push(rule);
+            continue;
+        }
+
+        matched.add(match.ruleId);
+        if (isSameRule(match, rule)) {
+            plan.identicalRules.push(match);
+        } else {
+            plan.changedRules.push({ existing: match, incoming: rule });
+        }
+    }
+
+    if (mode === 'replace') {
+        plan.removedRules = existing.filter(rule => !matched.has(rule.ruleId));
+    }
+
+    return plan;
+}
+
+/**
+ * Counts an import plan would produce if applied
+ */
+export function summarizeImportPlan(plan: RuleImportPlan): RuleImportSummary {
+    const skipChanged = plan.mode === 'skip-duplicates';
+    return {
+        added: plan.newRules.length,
+        updated: skipChanged ? 0 : plan.changedRules.length,
+        unchanged: plan.identicalRules.length,
+        skipped: skipChanged ? plan.changedRules.length : 0,
+        removed: plan.removedRules.length
+    };
+}
+
+/**
+ * Where an import plan is written: RuleManager in the extension, a rule store in the CLI
+ */
+export interface RuleImportTarget {
+    /** Whether a rule, including one in the trash, already uses an ID */
+    hasRuleId(ruleId: string): boolean;
+    insertRule(rule: Rule): Promise<void>;
+    updateRule(ruleId: string, updates: Omit<ImportedRule, 'ruleId' | 'createdAt'>): Promise<void>;
+    /** Move a rule to the trash */
+    removeRule(ruleId: string): Promise<void>;
+}
+
+/**
+ * Apply a previously computed import plan
+ */
+export async function applyRuleImport(plan: RuleImportPlan, target: RuleImportTarget): Promise<RuleImportSummary> {
+    const summary: RuleImportSummary = {
+        added: 0,
+        updated: 0,
+        unchanged: plan.identicalRules.length,
+        skipped: 0,
+        removed: 0
+    };
+
+    for (const imported of plan.newRules) {
+        const idTaken = !imported.ruleId || target.hasRuleId(imported.ruleId);
+        await target.insertRule({
+            ruleId: idTaken ? crypto.randomUUID() : imported.ruleId!,
+            ruleText: imported.ruleText,
+            scope: imported.scope,
+            languageScope: imported.languageScope,
+            projectPath: imported.projectPath,
+            pathPatterns: imported.pathPatterns,
+            customScope: imported.customScope,
+            condition: imported.condition,
+            priority: imported.priority,
+            supersedes: imported.supersedes,
+            createdAt: imported.createdAt || new Date(),
+            updatedAt: new Date(),
+            isActive: imported.isActive
+        });
+        summary.added++;
+    }
+
+    for (const { existing, incoming } of plan.changedRules) {
+        if (plan.mode === 'skip-duplicates') {
+            summary.skipped++;
+            continue;
+        }
+        await target.updateRule(existing.ruleId, {
+            ruleText: incoming.ruleText,
+            scope: incoming.scope,
+            languageScope: incoming.languageScope,
+            projectPath: incoming.projectPath,
+            pathPatterns: incoming.pathPatterns,
+            customScope: incoming.customScope,
+            condition: incoming.condition,
+            priority: incoming.priority,
+            supersedes: incoming.supersedes,
+            isActive: incoming.isActive
+        });
+        summary.updated++;
+    }
+
+    for (const rule of plan.removedRules) {
+        await target.removeRule(rule.ruleId);
+        summary.removed++;
+    }
+
+    return summary;
+}
+
+function isSameRule(existing: Rule, incoming: ImportedRule): boolean {
+    return existing.ruleText === incoming.ruleText &&
+        existing.scope === incoming.scope &&
+        (existing.languageScope || undefined) === incoming.languageScope &&
+        (existing.projectPath || undefined) === incoming.projectPath &&
+        (existing.pathPatterns || []).join('\n') === (incoming.pathPatterns || []).join('\n') &&
+        (existing.customScope || undefined) === incoming.customScope &&
+        (existing.condition || undefined) === incoming.condition &&
+        existing.priority === incoming.priority &&
+        (existing.supersedes || []).join('\n') === (incoming.supersedes || []).join('\n') &&
+        existing.isActive === incoming.isActive;
+}
+
+function parsePathPatterns(value: unknown, index: number): string[] {
+    if (!Array.isArray(value) || value.length === 0) {
+        throw new Error(`Invalid rule at index ${index}: path rules need at least one glob pattern`);
+    }
+
+    return value.map(pattern => {
+        const validation = typeof pattern === 'string'
+            ? validateGlobPattern(pattern)
+            : { isValid: false, error: 'Glob pattern must be a string' };
+        if (!validation.isValid) {
+            throw new Error(`Invalid rule at index ${index}: ${validation.error}`);
+        }
+        return (pattern as string).trim();
+    });
+}
+
+function parseSupersedes(value: unknown, index: number): string[] | undefined {
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (!Array.isArray(value) || value.some(ruleId => typeof ruleId !== 'string' || !ruleId)) {
+        throw new Error(`Invalid rule at index ${index}: supersedes must be a list of rule IDs`);
+    }
+    return value.length > 0 ? [...value] : undefined;
+}
@@ -0,0 +1,78 @@
+import * as vscode from 'vscode';
+import { PromptComposer } from './promptComposer';
+import { Logger } from '../utils/logger';
+import { COMPLETION_CONTEXT_LINES, buildCompletionMessages, cleanCompletion } from './completionPrompt';
+
+/**
+ * Inline completions written by a Copilot language model, with the rules for the file in front of the code
+ */
+export class RuleInlineCompletionProvider implements vscode.InlineCompletionItemProvider {
+    /** Set when the model refuses requests, so the rest of the session does not keep asking */
+    private unavailable = false;
+
+    constructor(private promptComposer: PromptComposer, private debounceMs = 300) {}
+
+    async provideInlineCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        _context: vscode.InlineCompletionContext,
+        token: vscode.CancellationToken
+    ): Promise<vscode.InlineCompletionItem[]> {
+        if (this.unavailable || typeof vscode.lm?.selectChatModels !== 'function') {
+            return [];
+        }
+
+        // Wait for a pause in typing; VS Code cancels the token on the next keystroke
+        await new Promise(resolve => setTimeout(resolve, this.debounceMs));
+        if (token.isCancellationRequested) {
+            return [];
+        }
+
+        const [model] = await vscode.lm.selectChatModels({ vendor: 'copilot' });
+        if (!model || token.isCancellationRequested) {
+            return [];
+        }
+
+        const composed = await this.promptComposer.composePrompt('interceptor', {
+            languageId: document.languageId,
+            documentUri: document.uri
+        });
+        const firstLine = Math.max(0, position.line - COMPLETION_CONTEXT_LINES.before);
+        const lastLine = Math.min(document.lineCount - 1, position.line + COMPLETION_CONTEXT_LINES.after);
+        const suffix = document.getText(new vscode.Range(position, document.lineAt(lastLine).range.end));
+
+        const messages = buildCompletionMessages({
+            languageId: document.languageId,
+            prefix: document.getText(new vscode.Range(new vscode.Position(firstLine, 0), position)),
+            suffix,
+            rulesPrompt: composed.rules.length > 0 ? composed.prompt : ''
+        }).map(message => vscode.LanguageModelChatMessage.User(message));
+
+        let reply = '';
+        try {
+            const response = await model.sendRequest(messages, {}, token);
+            for await (const fragment of response.text) {
+                reply += fragment;
+            }
+        } catch (error) {
+            if (error instanceof vscode.LanguageModelError) {
+                Logger.warn(`Inline completion request failed: ${error.message} (${error.code})`);
+                if (error.code === vscode.LanguageModelError.NoPermissions().code ||
+                    error.code === vscode.LanguageModelError.Blocked().code) {
+                    this.unavailable = true;
+                }
+                return [];
+            }
+            if (token.isCancellationRequested) {
+                return [];
+            }
+            throw error;
+        }
+
+        const text = cleanCompletion(reply, suffix);
+        if (!text || token.isCancellationRequested) {
+            return [];
+        }
+        return [new vscode.InlineCompletionItem(text, new vscode.Range(position, position))];
+    }
+}
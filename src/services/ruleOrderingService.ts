@@ -0,0 +1,63 @@
+import { Rule } from '../ruleManager';
+import { RuleScope } from '../constants';
+import { normalizeRuleText } from './ruleImportService';
+
+/**
+ * Order of scopes among rules with the same priority, broadest first
+ */
+const SCOPE_ORDER: RuleScope[] = ['global', 'project', 'path', 'custom', 'language'];
+
+/**
+ * Compare rules for prompt order: higher priority first (unset counts as 0), then by scope,
+ * then oldest first, with the rule ID as a final tie-breaker so the order never depends on storage
+ */
+export function compareRules(a: Rule, b: Rule): number {
+    return (b.priority ?? 0) - (a.priority ?? 0) ||
+        SCOPE_ORDER.indexOf(a.scope) - SCOPE_ORDER.indexOf(b.scope) ||
+        a.createdAt.getTime() - b.createdAt.getTime() ||
+        (a.ruleId < b.ruleId ? -1 : a.ruleId > b.ruleId ? 1 : 0);
+}
+
+/**
+ * Sort a copy of the rules into prompt order
+ */
+export function sortRules(rules: Rule[]): Rule[] {
+    return [...rules].sort(compareRules);
+}
+
+/**
+ * Build the list of rules for a prompt: sort them, leave out global rules superseded by another
+ * rule in the list, and keep only the first of rules with the same ID or the same text
+ */
+export function composeRules(rules: Rule[]): Rule[] {
+    const superseded = new Set(rules
+        .filter(rule => rule.scope !== 'global')
+        .flatMap(rule => rule.supersedes || []));
+
+    const seen = new Set<string>();
+    return sortRules(rules).filter(rule => {
+        if (rule.scope === 'global' && superseded.has(rule.ruleId)) {
+            return false;
+        }
+
+        const keys = [rule.ruleId, normalizeRuleText(rule.ruleText)];
+        const duplicate = keys.some(key => seen.has(key));
+        keys.forEach(key => seen.add(key));
+        return !duplicate;
+    });
+}
+
+/**
+ * Priorities that put the rules in the given order, highest first; only rules whose priority
+ * changes are returned
+ */
+export function planRulePriorities(orderedRules: Rule[]): Map<string, number> {
+    const changes = new Map<string, number>();
+    orderedRules.forEach((rule, index) => {
+        const priority = orderedRules.length - index;
+        if (rule.priority !== priority) {
+            changes.set(rule.ruleId, priority);
+        }
+    });
+    return changes;
+}
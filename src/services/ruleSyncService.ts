@@ -0,0 +1,192 @@
+import { RuleManager, Rule } from '../ruleManager';
+import { Logger } from '../utils/logger';
+import { Disposable } from '../utils/events';
+import { RuleHost, getHost } from '../core/host';
+import { ConfigValidator } from '../utils/configValidator';
+import { STORAGE_CONSTANTS } from '../constants';
+
+/**
+ * Changes to apply to each side so local storage and the remote rule store hold the same rules
+ */
+export interface RuleSyncPlan {
+    merged: Rule[];
+    toPush: Rule[];
+    toPull: Rule[];
+    removeRemote: string[];
+    removeLocal: string[];
+    conflicts: number;
+}
+
+/**
+ * Outcome of one sync run
+ */
+export interface RuleSyncResult {
+    pushed: number;
+    pulled: number;
+    conflicts: number;
+    syncedAt: Date;
+}
+
+/**
+ * Merge local and remote (e.g. MongoDB) rules by ruleId. The most recently updated copy wins;
+ * a conflict is counted when both copies changed since the last sync.
+ * Rules permanently deleted on one side are dropped using tombstones and the last sync time.
+ */
+export function planRuleSync(
+    local: Rule[],
+    remote: Rule[],
+    tombstones: Record<string, string>,
+    lastSyncAt?: Date
+): RuleSyncPlan {
+    const plan: RuleSyncPlan = { merged: [], toPush: [], toPull: [], removeRemote: [], removeLocal: [], conflicts: 0 };
+    const remoteById = new Map(remote.map(rule => [rule.ruleId, rule]));
+    const changedSinceSync = (rule: Rule) => !lastSyncAt || rule.updatedAt.getTime() > lastSyncAt.getTime();
+
+    for (const localRule of local) {
+        const remoteRule = remoteById.get(localRule.ruleId);
+        remoteById.delete(localRule.ruleId);
+
+        if (!remoteRule) {
+            if (tombstones[localRule.ruleId] || !changedSinceSync(localRule)) {
+                // Deleted permanently, here or in the remote store, after the last sync
+                plan.removeLocal.push(localRule.ruleId);
+            } else {
+                plan.toPush.push(localRule);
+                plan.merged.push(localRule);
+            }
+            continue;
+        }
+
+        if (isSameRuleState(localRule, remoteRule)) {
+            plan.merged.push(localRule);
+            continue;
+        }
+
+        if (changedSinceSync(localRule) && changedSinceSync(remoteRule)) {
+            plan.conflicts++;
+        }
+
+        if (localRule.updatedAt.getTime() >= remoteRule.updatedAt.getTime()) {
+            plan.toPush.push(localRule);
+            plan.merged.push(localRule);
+        } else {
+            plan.toPull.push(remoteRule);
+            plan.merged.push(remoteRule);
+        }
+    }
+
+    for (const remoteRule of remoteById.values()) {
+        if (tombstones[remoteRule.ruleId]) {
+            plan.removeRemote.push(remoteRule.ruleId);
+        } else {
+            plan.toPull.push(remoteRule);
+            plan.merged.push(remoteRule);
+        }
+    }
+
+    return plan;
+}
+
+function isSameRuleState(a: Rule, b: Rule): boolean {
+    return a.ruleText === b.ruleText &&
+        a.scope === b.scope &&
+        (a.languageScope || undefined) === (b.languageScope || undefined) &&
+        (a.projectPath || undefined) === (b.projectPath || undefined) &&
+        (a.pathPatterns || []).join('\n') === (b.pathPatterns || []).join('\n') &&
+        (a.customScope || undefined) === (b.customScope || undefined) &&
+        (a.condition || undefined) === (b.condition || undefined) &&
+        a.priority === b.priority &&
+        (a.supersedes || []).join('\n') === (b.supersedes || []).join('\n') &&
+        a.isActive === b.isActive &&
+        (a.deletedAt?.getTime() || undefined) === (b.deletedAt?.getTime() || undefined);
+}
+
+/**
+ * Runs remote/local sync on the configured interval, on reconnect and on demand
+ */
+export class RuleSyncService {
+    private timer: NodeJS.Timeout | undefined;
+    private running: Promise<RuleSyncResult> | undefined;
+
+    constructor(private ruleManager: RuleManager, private host: RuleHost = getHost()) {}
+
+    /**
+     * Start automatic sync according to the enableAutoSync and syncIntervalMinutes settings
+     */
+    start(): Disposable {
+        this.schedule();
+
+        const configSubscription = this.host.configuration.onDidChange?.(event => {
+            if (event.affects('enableAutoSync') || event.affects('syncIntervalMinutes')) {
+                this.schedule();
+            }
+        });
+
+        const reconnectSubscription = this.ruleManager.onDidReconnectStore(() => {
+            if (ConfigValidator.getSafeConfig(this.host).enableAutoSync) {
+                this.runAutomaticSync('reconnect');
+            }
+        });
+
+        return {
+            dispose: () => {
+                configSubscription?.dispose();
+                reconnectSubscription.dispose();
+                this.stopTimer();
+            }
+        };
+    }
+
+    /**
+     * Sync now; concurrent calls share the run in progress
+     */
+    async syncNow(): Promise<RuleSyncResult> {
+        if (!this.running) {
+            this.running = this.sync().finally(() => {
+                this.running = undefined;
+            });
+        }
+        return this.running;
+    }
+
+    /**
+     * Time of the last successful sync
+     */
+    getLastSyncAt(): Date | undefined {
+        const lastSyncAt = this.host.workspaceState.get<string | undefined>(STORAGE_CONSTANTS.lastSyncKey, undefined);
+        return lastSyncAt ? new Date(lastSyncAt) : undefined;
+    }
+
+    private async sync(): Promise<RuleSyncResult> {
+        const result = await this.ruleManager.synchronize(this.getLastSyncAt());
+        await this.host.workspaceState.update(STORAGE_CONSTANTS.lastSyncKey, result.syncedAt.toISOString());
+
+        Logger.info(`Sync complete: ${result.pushed} pushed, ${result.pulled} pulled, ${result.conflicts} conflicts`);
+        return result;
+    }
+
+    private schedule(): void {
+        this.stopTimer();
+
+        const config = ConfigValidator.getSafeConfig(this.host);
+        if (!config.enableAutoSync) {
+            return;
+        }
+
+        this.timer = setInterval(() => this.runAutomaticSync('interval'), config.syncIntervalMinutes * 60 * 1000);
+        Logger.info(`Auto-sync scheduled every ${config.syncIntervalMinutes} minutes`);
+    }
+
+    private runAutomaticSync(trigger: string): void {
+        this.syncNow().catch(error => {
+            Logger.error(`Automatic sync (${trigger}) failed`, error as Error);
+        });
+    }
+
+    private stopTimer(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+}
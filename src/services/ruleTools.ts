@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { RuleManager, Rule } from '../ruleManager';
+import { Logger } from '../utils/logger';
+import { sanitizeInput, validateNewRule } from '../utils/helpers';
+import { PromptComposer } from './promptComposer';
+import { formatRuleLine } from './promptTemplates';
+import { LANGUAGE_MODEL_TOOLS, RuleScope } from '../constants';
+
+/**
+ * Input of copilotMemory_getRules
+ */
+export interface GetRulesToolInput {
+    /** File to get the rules for, absolute or relative to the first workspace folder; defaults to the active file */
+    filePath?: string;
+    languageId?: string;
+}
+
+/**
+ * Input of copilotMemory_searchRules
+ */
+export interface SearchRulesToolInput {
+    query: string;
+    scope?: RuleScope;
+}
+
+/**
+ * Input of copilotMemory_addRule
+ */
+export interface AddRuleToolInput {
+    ruleText: string;
+    scope?: RuleScope;
+    languageScope?: string;
+    pathPatterns?: string[];
+}
+
+/**
+ * Rules whose text contains every word of the query, ignoring case
+ */
+export function searchRules(rules: Rule[], query: string, scope?: RuleScope): Rule[] {
+    const words = query.toLowerCase().split(/\s+/).filter(word => word.length > 0);
+    return rules.filter(rule => {
+        const text = rule.ruleText.toLowerCase();
+        return (!scope || rule.scope === scope) && words.every(word => text.includes(word));
+    });
+}
+
+/**
+ * Language model tools that let agent mode read the rules and record new ones
+ */
+export class RuleTools {
+    constructor(private ruleManager: RuleManager, private promptComposer: PromptComposer) {}
+
+    /**
+     * Register the tools, or nothing when the language model tools API is not available
+     */
+    register(): vscode.Disposable {
+        if (typeof vscode.lm?.registerTool !== 'function') {
+            Logger.info('Language model tools API not available, rule tools are not registered');
+            return new vscode.Disposable(() => undefined);
+        }
+
+        return vscode.Disposable.from(
+            vscode.lm.registerTool<GetRulesToolInput>(LANGUAGE_MODEL_TOOLS.getRules, {
+                invoke: options => this.getRules(options.input)
+            }),
+            vscode.lm.registerTool<SearchRulesToolInput>(LANGUAGE_MODEL_TOOLS.searchRules, {
+                invoke: options => this.searchRules(options.input)
+            }),
+            vscode.lm.registerTool<AddRuleToolInput>(LANGUAGE_MODEL_TOOLS.addRule, {
+                prepareInvocation: options => this.prepareAddRule(options.input),
+                invoke: options => this.addRule(options.input)
+            })
+        );
+    }
+
+    /**
+     * Rules that apply to a file, in prompt order and within the token budget
+     */
+    private async getRules(input: GetRulesToolInput): Promise<vscode.LanguageModelToolResult> {
+        const documentUri = input.filePath ? this.resolveFile(input.filePath) : undefined;
+        const composed = await this.promptComposer.compose({ documentUri, languageId: input.languageId });
+
+        const text = composed.rules.length > 0
+            ? `Follow these coding rules:\n${composed.rules.map(formatRuleLine).join('\n')}`
+            : 'No coding rules apply to this file.';
+        return toolResult(text);
+    }
+
+    /**
+     * Rules matching a text, including those that do not apply to the active file
+     */
+    private async searchRules(input: SearchRulesToolInput): Promise<vscode.LanguageModelToolResult> {
+        if (typeof input.query !== 'string' || input.query.trim().length === 0) {
+            throw new Error('query must be a non-empty string');
+        }
+
+        const matches = searchRules(await this.ruleManager.getAllRules(), input.query, input.scope);
+        return toolResult(matches.length > 0
+            ? `Rules matching "${input.query}":\n${matches.map(formatRuleLine).join('\n')}`
+            : `No rules match "${input.query}".`);
+    }
+
+    /**
+     * Ask before a rule is added; invalid input is reported when the tool is invoked
+     */
+    private prepareAddRule(input: AddRuleToolInput): vscode.PreparedToolInvocation {
+        const scope = input.scope || 'global';
+        const where = scope === 'language' ? `${input.languageScope} files`
+            : scope === 'path' ? (input.pathPatterns || []).map(pattern => `\`${pattern}\``).join(', ')
+                : scope === 'project' ? 'this project'
+                    : 'all projects';
+
+        return {
+            invocationMessage: 'Adding a rule to Copilot Memory',
+            confirmationMessages: {
+                title: 'Add a rule to Copilot Memory?',
+                message: new vscode.MarkdownString(`> ${sanitizeInput(input.ruleText || '')}\n\nThis rule will apply to ${where}.`)
+            }
+        };
+    }
+
+    private async addRule(input: AddRuleToolInput): Promise<vscode.LanguageModelToolResult> {
+        const validation = validateNewRule(input);
+        if (!validation.rule) {
+            throw new Error(validation.error);
+        }
+
+        const { ruleText, scope, languageScope, pathPatterns } = validation.rule;
+        const ruleId = await this.ruleManager.addRule(ruleText, scope, languageScope, undefined, undefined, { pathPatterns });
+
+        Logger.info(`Rule added by a language model tool: ${ruleText} (scope: ${scope})`);
+        return toolResult(`Added rule ${ruleId}: ${ruleText}`);
+    }
+
+    private resolveFile(filePath: string): vscode.Uri {
+        const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        return vscode.Uri.file(path.isAbsolute(filePath) || !root ? filePath : path.join(root, filePath));
+    }
+}
+
+function toolResult(text: string): vscode.LanguageModelToolResult {
+    return new vscode.LanguageModelToolResult([new vscode.LanguageModelTextPart(text)]);
+}
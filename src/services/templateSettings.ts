@@ -0,0 +1,32 @@
+import { Logger } from '../utils/logger';
+import {
+    DEFAULT_TEMPLATES,
+    PromptTemplate,
+    TEMPLATE_SETTINGS,
+    TemplateUse,
+    getBuiltInTemplate,
+    resolveTemplates
+} from './promptTemplates';
+import { getHost } from '../core/host';
+
+/**
+ * Templates that can be chosen: the built-in ones and those defined in copilotMemory.customTemplates
+ */
+export function getTemplates(): PromptTemplate[] {
+    return resolveTemplates(getHost().configuration.get<Record<string, unknown>>('customTemplates') || {});
+}
+
+/**
+ * Template chosen in settings for a use, falling back to the default for that use
+ */
+export function getTemplateForUse(use: TemplateUse): PromptTemplate {
+    const templates = getTemplates();
+    const name = getHost().configuration.get<string>(TEMPLATE_SETTINGS[use]) || DEFAULT_TEMPLATES[use];
+
+    const template = templates.find(t => t.name === name);
+    if (!template) {
+        Logger.warn(`Template "${name}" for ${use} not found, using "${DEFAULT_TEMPLATES[use]}"`);
+        return getBuiltInTemplate(DEFAULT_TEMPLATES[use]);
+    }
+    return template;
+}
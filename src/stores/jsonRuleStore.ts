@@ -0,0 +1,184 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { Rule } from '../ruleManager';
+import { RuleStore, reviveRule } from './ruleStore';
+import { Logger } from '../utils/logger';
+import { Disposable } from '../utils/events';
+import { watchFile } from '../utils/fileWatcher';
+
+/**
+ * Rule shape written by releases before the RuleManager-based storage
+ */
+interface LegacyRule {
+    id: string;
+    text: string;
+    scope: 'global' | 'project' | 'language';
+    createdAt: string;
+}
+
+/**
+ * Stores rules in a .copilot-memory.json file
+ */
+export class JsonRuleStore implements RuleStore {
+    readonly id = 'json';
+    private lastWritten: string | undefined;
+
+    /**
+     * @param legacyFilePath file from older releases, read when filePath does not exist yet
+     * @param legacyProjectPath folder that legacy project rules belong to, by default the file's folder
+     */
+    constructor(
+        readonly filePath: string,
+        private legacyFilePath?: string,
+        private legacyProjectPath: string | undefined = path.dirname(filePath)
+    ) {}
+
+    /**
+     * Migrate legacy rules into the current file format
+     */
+    async initialize(): Promise<void> {
+        const readPath = this.resolveReadPath();
+        if (!readPath) {
+            return;
+        }
+
+        try {
+            const records: any[] = JSON.parse(fs.readFileSync(readPath, 'utf8')) || [];
+            const legacyCount = records.filter(record => this.isLegacyRule(record)).length;
+
+            if (legacyCount > 0 || readPath !== this.filePath) {
+                Logger.info(`Migrated ${legacyCount} legacy rules from ${readPath}`);
+                this.write(records.map(record => this.parseRecord(record)));
+            }
+        } catch (error) {
+            Logger.error(`Failed to load rules from ${readPath}`, error as Error);
+        }
+    }
+
+    async list(): Promise<Rule[]> {
+        try {
+            return this.read();
+        } catch (error) {
+            Logger.error(`Failed to load rules from ${this.filePath}`, error as Error);
+            return [];
+        }
+    }
+
+    async get(ruleId: string): Promise<Rule | undefined> {
+        return (await this.list()).find(rule => rule.ruleId === ruleId);
+    }
+
+    async create(rule: Rule): Promise<void> {
+        const rules = this.read();
+        rules.push(rule);
+        this.write(rules);
+    }
+
+    async update(ruleId: string, updates: Partial<Rule>): Promise<void> {
+        await this.updateMany(new Map([[ruleId, updates]]));
+    }
+
+    async updateMany(updates: Map<string, Partial<Rule>>): Promise<void> {
+        const rules = this.read();
+        for (const [ruleId, fields] of updates) {
+            const rule = rules.find(r => r.ruleId === ruleId);
+            if (!rule) {
+                throw new Error(`Rule not found: ${ruleId}`);
+            }
+            Object.assign(rule, fields);
+        }
+        this.write(rules);
+    }
+
+    async delete(ruleIds: string[]): Promise<void> {
+        const rules = this.read();
+        this.write(rules.filter(rule => !ruleIds.includes(rule.ruleId)));
+    }
+
+    /**
+     * Overwrite the file with a complete set of rules, unless the file holds rules that could not be read
+     */
+    async replaceAll(rules: Rule[]): Promise<void> {
+        this.read();
+        this.write(rules);
+    }
+
+    watch(listener: () => void): Disposable {
+        return watchFile(this.filePath, () => {
+            // Ignore the change events caused by our own writes
+            if (fs.existsSync(this.filePath) && fs.readFileSync(this.filePath, 'utf8') === this.lastWritten) {
+                return;
+            }
+            listener();
+        });
+    }
+
+    /**
+     * Read every rule in the file, throwing if it is not a JSON list so writes never replace a file that could not be read
+     */
+    private read(): Rule[] {
+        if (!fs.existsSync(this.filePath)) {
+            return [];
+        }
+        const records: unknown = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) || [];
+        if (!Array.isArray(records)) {
+            throw new Error(`${this.filePath} does not contain a list of rules`);
+        }
+        return records.map(record => this.parseRecord(record));
+    }
+
+    private write(rules: Rule[]): void {
+        try {
+            const dir = path.dirname(this.filePath);
+            if (!fs.existsSync(dir)) {
+                fs.mkdirSync(dir, { recursive: true });
+            }
+            // The layer is assigned when rules are loaded, so it is not stored
+            this.lastWritten = JSON.stringify(rules, (key, value) => key === 'layer' ? undefined : value, 2);
+            fs.writeFileSync(this.filePath, this.lastWritten);
+        } catch (error) {
+            Logger.error(`Failed to save rules to ${this.filePath}`, error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Find the file to read, falling back to the legacy global storage file
+     */
+    private resolveReadPath(): string | undefined {
+        if (fs.existsSync(this.filePath)) {
+            return this.filePath;
+        }
+
+        if (this.legacyFilePath && fs.existsSync(this.legacyFilePath)) {
+            return this.legacyFilePath;
+        }
+
+        return undefined;
+    }
+
+    private parseRecord(record: any): Rule {
+        return this.isLegacyRule(record) ? this.migrateLegacyRule(record) : reviveRule(record);
+    }
+
+    private isLegacyRule(record: any): record is LegacyRule {
+        return record && typeof record.text === 'string' && record.ruleText === undefined;
+    }
+
+    /**
+     * Convert a legacy { id, text, scope, createdAt } record to the Rule shape
+     */
+    private migrateLegacyRule(legacy: LegacyRule): Rule {
+        const createdAt = legacy.createdAt ? new Date(legacy.createdAt) : new Date();
+        return {
+            ruleId: legacy.id || crypto.randomUUID(),
+            ruleText: legacy.text,
+            scope: legacy.scope,
+            projectPath: legacy.scope === 'project' ? this.legacyProjectPath : undefined,
+            createdAt,
+            updatedAt: createdAt,
+            isActive: true
+        };
+    }
+}
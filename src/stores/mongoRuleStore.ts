@@ -0,0 +1,177 @@
+import * as mongoose from 'mongoose';
+import { MongoService, MongoConnectionConfig } from '../services/mongoService';
+import { createRuleModel, IRuleDocument } from '../models/ruleSchema';
+import { Rule } from '../ruleManager';
+import { RuleStore } from './ruleStore';
+import { Logger } from '../utils/logger';
+import { Disposable, Emitter } from '../utils/events';
+
+/**
+ * Stores rules in the copilot_rules MongoDB collection
+ */
+export class MongoRuleStore implements RuleStore {
+    readonly id = 'mongodb';
+    private mongoService: MongoService | null = null;
+    private ruleModel: mongoose.Model<IRuleDocument> | null = null;
+    private reconnectEmitter = new Emitter<void>();
+    private reconnectSubscription: Disposable | undefined;
+
+    readonly onDidBecomeAvailable = this.reconnectEmitter.event;
+
+    /**
+     * @param dedicatedConnection connect separately from the shared MongoService instance
+     */
+    constructor(private uri: string, private dedicatedConnection = false) {}
+
+    async initialize(): Promise<void> {
+        try {
+            Logger.info('Connecting to MongoDB...');
+
+            const connectionConfig: MongoConnectionConfig = {
+                uri: this.uri,
+                maxPoolSize: 10,
+                minPoolSize: 2,
+                maxConnecting: 2,
+                connectTimeoutMS: 10000,
+                serverSelectionTimeoutMS: 5000,
+                heartbeatFrequencyMS: 10000,
+                retryWrites: true,
+                retryReads: true
+            };
+
+            const retryConfig = {
+                maxRetries: 3,
+                retryDelayMs: 1000,
+                exponentialBackoff: true
+            };
+            this.mongoService = this.dedicatedConnection
+                ? MongoService.createDedicated(connectionConfig, retryConfig)
+                : MongoService.getInstance(connectionConfig, retryConfig);
+
+            const connection = await this.mongoService.connect();
+            this.ruleModel = createRuleModel(connection);
+
+            this.reconnectSubscription?.dispose();
+            this.reconnectSubscription = this.mongoService.onReconnected(() => this.reconnectEmitter.fire());
+
+            Logger.info('Connected to MongoDB successfully');
+        } catch (error) {
+            Logger.error('MongoDB connection failed', error as Error);
+            throw error;
+        }
+    }
+
+    isAvailable(): boolean {
+        return this.mongoService?.isConnected() || false;
+    }
+
+    /**
+     * Connection shared with other collections such as rule revisions
+     */
+    getConnection(): mongoose.Connection | null {
+        return this.mongoService?.getConnection() || null;
+    }
+
+    getConnectionStats(): ReturnType<MongoService['getConnectionStats']> | undefined {
+        return this.mongoService?.getConnectionStats();
+    }
+
+    async list(): Promise<Rule[]> {
+        const documents = await this.model().find({}).sort({ createdAt: -1 });
+        return documents.map(document => this.fromDocument(document));
+    }
+
+    async get(ruleId: string): Promise<Rule | undefined> {
+        const document = await this.model().findOne({ ruleId });
+        return document ? this.fromDocument(document) : undefined;
+    }
+
+    async create(rule: Rule): Promise<void> {
+        await this.model().create(rule);
+    }
+
+    async update(ruleId: string, updates: Partial<Rule>): Promise<void> {
+        await this.model().findOneAndUpdate({ ruleId }, this.toMongoUpdate(updates), { new: true });
+    }
+
+    async updateMany(updates: Map<string, Partial<Rule>>): Promise<void> {
+        await this.model().bulkWrite(Array.from(updates, ([ruleId, fields]) => ({
+            updateOne: { filter: { ruleId }, update: this.toMongoUpdate(fields) }
+        })));
+    }
+
+    async delete(ruleIds: string[]): Promise<void> {
+        await this.model().deleteMany({ ruleId: { $in: ruleIds } });
+    }
+
+    /**
+     * Follow changes made by other clients through a change stream; needs a replica set
+     */
+    watch(listener: () => void): Disposable {
+        const changeStream = this.model().watch();
+        changeStream.on('change', () => listener());
+        changeStream.on('error', error => {
+            Logger.warn(`MongoDB change stream unavailable, remote changes arrive on sync only: ${error.message}`);
+            changeStream.close().catch(() => undefined);
+        });
+
+        return {
+            dispose: () => {
+                changeStream.close().catch(() => undefined);
+            }
+        };
+    }
+
+    async dispose(): Promise<void> {
+        this.reconnectSubscription?.dispose();
+        this.reconnectEmitter.dispose();
+        if (this.mongoService) {
+            await this.mongoService.disconnect();
+            Logger.info('MongoDB connection closed');
+        }
+    }
+
+    private model(): mongoose.Model<IRuleDocument> {
+        if (!this.ruleModel) {
+            throw new Error('MongoDB model not initialized');
+        }
+        return this.ruleModel;
+    }
+
+    private fromDocument(rule: IRuleDocument): Rule {
+        return {
+            ruleId: rule.ruleId,
+            ruleText: rule.ruleText,
+            scope: rule.scope,
+            languageScope: rule.languageScope,
+            projectPath: rule.projectPath,
+            pathPatterns: rule.pathPatterns?.length ? [...rule.pathPatterns] : undefined,
+            customScope: rule.customScope,
+            condition: rule.condition,
+            priority: rule.priority,
+            supersedes: rule.supersedes?.length ? [...rule.supersedes] : undefined,
+            createdAt: rule.createdAt,
+            updatedAt: rule.updatedAt,
+            isActive: rule.isActive,
+            deletedAt: rule.deletedAt
+        };
+    }
+
+    /**
+     * Split updates into $set and $unset so cleared fields are removed from the document
+     */
+    private toMongoUpdate(updates: Partial<Rule>): mongoose.UpdateQuery<IRuleDocument> {
+        const $set: Record<string, unknown> = {};
+        const $unset: Record<string, 1> = {};
+
+        for (const [key, value] of Object.entries(updates)) {
+            if (value === undefined) {
+                $unset[key] = 1;
+            } else {
+                $set[key] = value;
+            }
+        }
+
+        return Object.keys($unset).length > 0 ? { $set, $unset } : { $set };
+    }
+}
@@ -0,0 +1,110 @@
+import { Rule } from '../ruleManager';
+import { Disposable, Event } from '../utils/events';
+
+/**
+ * Storage backend for rules. A store keeps every rule, including rules in the trash.
+ */
+export interface RuleStore {
+    /**
+     * Identifier selected with the copilotMemory.storageBackend setting
+     */
+    readonly id: string;
+
+    /**
+     * Open or connect the store before first use
+     */
+    initialize?(): Promise<void>;
+
+    /**
+     * Whether the store can accept writes right now; stores without this are always available
+     */
+    isAvailable?(): boolean;
+
+    /**
+     * Fires when a store that was unavailable can accept writes again
+     */
+    onDidBecomeAvailable?: Event<void>;
+
+    list(): Promise<Rule[]>;
+    get(ruleId: string): Promise<Rule | undefined>;
+    create(rule: Rule): Promise<void>;
+
+    /**
+     * Apply changes to a stored rule; fields set to undefined are cleared
+     */
+    update(ruleId: string, updates: Partial<Rule>): Promise<void>;
+
+    /**
+     * Apply changes to several stored rules in one write
+     */
+    updateMany?(updates: Map<string, Partial<Rule>>): Promise<void>;
+
+    /**
+     * Permanently delete rules
+     */
+    delete(ruleIds: string[]): Promise<void>;
+
+    /**
+     * Call the listener when rules change outside this window, e.g. from another machine
+     */
+    watch?(listener: () => void): Disposable;
+
+    dispose?(): void | Promise<void>;
+}
+
+/**
+ * Creates a store for a registered storage backend
+ */
+export type RuleStoreFactory = () => RuleStore | Promise<RuleStore>;
+
+/**
+ * Values of copilotMemory.storageBackend handled by the extension itself
+ */
+export const BUILT_IN_BACKENDS = ['auto', 'json', 'mongodb', 'sqlite'] as const;
+
+/**
+ * Write the full state of a rule, creating it if the store does not have it yet
+ */
+export async function upsertRule(store: RuleStore, rule: Rule): Promise<void> {
+    if (await store.get(rule.ruleId)) {
+        const { ruleId, ...fields } = rule;
+        await store.update(ruleId, {
+            languageScope: undefined,
+            projectPath: undefined,
+            pathPatterns: undefined,
+            customScope: undefined,
+            condition: undefined,
+            priority: undefined,
+            supersedes: undefined,
+            deletedAt: undefined,
+            ...fields
+        });
+    } else {
+        await store.create(rule);
+    }
+}
+
+/**
+ * Apply changes to several stored rules, in one write when the store supports it
+ */
+export async function updateRules(store: RuleStore, updates: Map<string, Partial<Rule>>): Promise<void> {
+    if (store.updateMany) {
+        await store.updateMany(updates);
+        return;
+    }
+    for (const [ruleId, fields] of updates) {
+        await store.update(ruleId, fields);
+    }
+}
+
+/**
+ * Restore Date fields of a rule read from JSON or another serialized form
+ */
+export function reviveRule(record: any): Rule {
+    return {
+        ...record,
+        createdAt: new Date(record.createdAt),
+        updatedAt: new Date(record.updatedAt),
+        deletedAt: record.deletedAt ? new Date(record.deletedAt) : undefined
+    };
+}
@@ -0,0 +1,239 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as initSqlJs from 'sql.js';
+import { Rule } from '../ruleManager';
+import { RuleStore } from './ruleStore';
+import { Logger } from '../utils/logger';
+import { Disposable } from '../utils/events';
+import { watchFile } from '../utils/fileWatcher';
+
+const COLUMNS = [
+    'ruleId', 'ruleText', 'scope', 'languageScope', 'projectPath', 'pathPatterns', 'customScope', 'condition',
+    'priority', 'supersedes', 'createdAt', 'updatedAt', 'isActive', 'deletedAt'
+] as const;
+
+/** Columns added after the first release, and their SQL types */
+const ADDED_COLUMNS: Partial<Record<RuleColumn, string>> = {
+    pathPatterns: 'TEXT',
+    customScope: 'TEXT',
+    condition: 'TEXT',
+    priority: 'INTEGER',
+    supersedes: 'TEXT'
+};
+
+type RuleColumn = typeof COLUMNS[number];
+type Database = initSqlJs.Database;
+type SqlValue = initSqlJs.SqlValue;
+
+/**
+ * Stores rules in an embedded SQLite database file, using the WebAssembly build of SQLite
+ */
+export class SqliteRuleStore implements RuleStore {
+    readonly id = 'sqlite';
+    private db: Database | null = null;
+    private lastWrittenAt = 0;
+
+    constructor(readonly filePath: string) {}
+
+    async initialize(): Promise<void> {
+        this.db = await this.openWithSchema();
+        Logger.info(`Opened SQLite rule store at ${this.filePath}`);
+    }
+
+    async list(): Promise<Rule[]> {
+        return this.query(`SELECT ${COLUMNS.join(', ')} FROM rules ORDER BY createdAt DESC`);
+    }
+
+    async get(ruleId: string): Promise<Rule | undefined> {
+        return this.query(`SELECT ${COLUMNS.join(', ')} FROM rules WHERE ruleId = ?`, [ruleId])[0];
+    }
+
+    async create(rule: Rule): Promise<void> {
+        this.database().run(
+            `INSERT INTO rules (${COLUMNS.join(', ')}) VALUES (${COLUMNS.map(() => '?').join(', ')})`,
+            COLUMNS.map(column => this.toSqlValue(column, rule[column]))
+        );
+        this.persist();
+    }
+
+    async update(ruleId: string, updates: Partial<Rule>): Promise<void> {
+        await this.updateMany(new Map([[ruleId, updates]]));
+    }
+
+    async updateMany(updates: Map<string, Partial<Rule>>): Promise<void> {
+        let changed = false;
+        for (const [ruleId, fields] of updates) {
+            const columns = (Object.keys(fields) as RuleColumn[])
+                .filter(column => column !== 'ruleId' && COLUMNS.includes(column));
+            if (columns.length === 0) {
+                continue;
+            }
+
+            this.database().run(
+                `UPDATE rules SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE ruleId = ?`,
+                [...columns.map(column => this.toSqlValue(column, fields[column])), ruleId]
+            );
+            changed = true;
+        }
+        if (changed) {
+            this.persist();
+        }
+    }
+
+    async delete(ruleIds: string[]): Promise<void> {
+        if (ruleIds.length === 0) {
+            return;
+        }
+        this.database().run(`DELETE FROM rules WHERE ruleId IN (${ruleIds.map(() => '?').join(', ')})`, ruleIds);
+        this.persist();
+    }
+
+    /**
+     * Reopen the database when another process writes the file
+     */
+    watch(listener: () => void): Disposable {
+        return watchFile(this.filePath, async () => {
+            try {
+                if (fs.statSync(this.filePath).mtimeMs <= this.lastWrittenAt) {
+                    return;
+                }
+                const db = await this.openWithSchema();
+                this.db?.close();
+                this.db = db;
+                listener();
+            } catch (error) {
+                Logger.error(`Failed to reload rules from ${this.filePath}`, error as Error);
+            }
+        });
+    }
+
+    dispose(): void {
+        this.db?.close();
+        this.db = null;
+    }
+
+    /**
+     * Open the database file, creating the rules table and adding the columns of newer releases, so files
+     * written by older releases or other tools can be queried
+     */
+    private async openWithSchema(): Promise<Database> {
+        const db = await this.open();
+        db.run(`CREATE TABLE IF NOT EXISTS rules (
+            ruleId TEXT PRIMARY KEY,
+            ruleText TEXT NOT NULL,
+            scope TEXT NOT NULL,
+            languageScope TEXT,
+            projectPath TEXT,
+            pathPatterns TEXT,
+            customScope TEXT,
+            condition TEXT,
+            priority INTEGER,
+            supersedes TEXT,
+            createdAt TEXT NOT NULL,
+            updatedAt TEXT NOT NULL,
+            isActive INTEGER NOT NULL DEFAULT 1,
+            deletedAt TEXT
+        )`);
+        this.addMissingColumns(db);
+        return db;
+    }
+
+    private async open(): Promise<Database> {
+        const sql = await initSqlJs({
+            // The .wasm file ships next to the sql.js entry point
+            locateFile: file => path.join(path.dirname(require.resolve('sql.js')), file)
+        });
+
+        return fs.existsSync(this.filePath)
+            ? new sql.Database(fs.readFileSync(this.filePath))
+            : new sql.Database();
+    }
+
+    /**
+     * Add columns introduced after a database file was created
+     */
+    private addMissingColumns(db: Database): void {
+        const existing = new Set<string>();
+        const statement = db.prepare('PRAGMA table_info(rules)');
+        try {
+            while (statement.step()) {
+                existing.add(statement.getAsObject().name as string);
+            }
+        } finally {
+            statement.free();
+        }
+
+        for (const [column, type] of Object.entries(ADDED_COLUMNS)) {
+            if (!existing.has(column)) {
+                db.run(`ALTER TABLE rules ADD COLUMN ${column} ${type}`);
+            }
+        }
+    }
+
+    private database(): Database {
+        if (!this.db) {
+            throw new Error('SQLite rule store not initialized');
+        }
+        return this.db;
+    }
+
+    private query(sql: string, params: SqlValue[] = []): Rule[] {
+        const statement = this.database().prepare(sql, params);
+        const rules: Rule[] = [];
+        try {
+            while (statement.step()) {
+                rules.push(this.fromRow(statement.getAsObject()));
+            }
+        } finally {
+            statement.free();
+        }
+        return rules;
+    }
+
+    /**
+     * sql.js keeps the database in memory; write it back to disk after every change
+     */
+    private persist(): void {
+        const dir = path.dirname(this.filePath);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+        fs.writeFileSync(this.filePath, Buffer.from(this.database().export()));
+        this.lastWrittenAt = fs.statSync(this.filePath).mtimeMs;
+    }
+
+    private toSqlValue(column: RuleColumn, value: unknown): SqlValue {
+        if (value === undefined || value === null) {
+            return null;
+        }
+        if (value instanceof Date) {
+            return value.toISOString();
+        }
+        if (column === 'isActive') {
+            return value ? 1 : 0;
+        }
+        if (column === 'pathPatterns' || column === 'supersedes') {
+            return JSON.stringify(value);
+        }
+        return value as SqlValue;
+    }
+
+    private fromRow(row: Record<string, SqlValue>): Rule {
+        return {
+            ruleId: row.ruleId as string,
+            ruleText: row.ruleText as string,
+            scope: row.scope as Rule['scope'],
+            languageScope: (row.languageScope as string | null) ?? undefined,
+            projectPath: (row.projectPath as string | null) ?? undefined,
+            pathPatterns: row.pathPatterns ? JSON.parse(row.pathPatterns as string) : undefined,
+            customScope: (row.customScope as string | null) ?? undefined,
+            condition: (row.condition as string | null) ?? undefined,
+            priority: (row.priority as number | null) ?? undefined,
+            supersedes: row.supersedes ? JSON.parse(row.supersedes as string) : undefined,
+            createdAt: new Date(row.createdAt as string),
+            updatedAt: new Date(row.updatedAt as string),
+            isActive: row.isActive === 1,
+            deletedAt: row.deletedAt ? new Date(row.deletedAt as string) : undefined
+        };
+    }
+}
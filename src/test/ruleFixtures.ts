@@ -0,0 +1,16 @@
+import { Rule } from '../ruleManager';
+
+/**
+ * An active rule created and last updated at the start of 2025, with any other fields overridden
+ */
+export function makeRule(ruleId: string, ruleText: string, scope: Rule['scope'] = 'global', fields: Partial<Rule> = {}): Rule {
+    return {
+        ruleId,
+        ruleText,
+        scope,
+        createdAt: new Date('2025-01-01T00:00:00.000Z'),
+        updatedAt: new Date('2025-01-01T00:00:00.000Z'),
+        isActive: true,
+        ...fields
+    };
+}
@@ -18,6 +18,8 @@ suite('AddRuleCommandHandler Tests', () => {
     setup(() => {
         // Create stubbed RuleManager
         ruleManagerStub = sinon.createStubInstance(RuleManager);
+        ruleManagerStub.getRuleLayers.returns(['workspace']);
+        ruleManagerStub.getCustomScopes.returns([]);
 
         // Stub VS Code APIs
         showInputBoxStub = sinon.stub(vscode.window, 'showInputBox');
@@ -142,6 +144,92 @@ suite('AddRuleCommandHandler Tests', () => {
             const addRuleCall = ruleManagerStub.addRule.firstCall;
             assert.strictEqual(addRuleCall.args[1], 'language:typescript');
         });
+
+        test('should ask for the folder of a project rule in a multi-root workspace', async () => {
+            sinon.stub(vscode.workspace, 'workspaceFolders').value([
+                { name: 'api', index: 0, uri: vscode.Uri.file('/repo/api') },
+                { name: 'web', index: 1, uri: vscode.Uri.file('/repo/web') }
+            ]);
+            showInputBoxStub.resolves('Use the shared fetch client');
+            showQuickPickStub.onFirstCall().resolves({ label: 'Project', value: 'project' });
+            showQuickPickStub.onSecondCall().resolves({ label: 'web', value: vscode.Uri.file('/repo/web').fsPath });
+            ruleManagerStub.addRule.resolves();
+
+            await handler.execute();
+
+            assert.ok(showQuickPickStub.calledTwice, 'Should prompt for scope and folder');
+            const addRuleCall = ruleManagerStub.addRule.firstCall;
+            assert.strictEqual(addRuleCall.args[3], vscode.Uri.file('/repo/web').fsPath);
+        });
+
+        test('should add a path-scoped rule with custom glob patterns', async () => {
+            showInputBoxStub.onFirstCall().resolves('Validate request bodies');
+            showInputBoxStub.onSecondCall().resolves('src/server/**, **/*.{test,spec}.ts');
+            showQuickPickStub.onFirstCall().resolves({ label: 'Path', value: 'path' });
+            showQuickPickStub.onSecondCall().resolves({ label: 'Custom glob pattern...', value: undefined });
+            ruleManagerStub.addRule.resolves();
+
+            await handler.execute();
+
+            const addRuleCall = ruleManagerStub.addRule.firstCall;
+            assert.strictEqual(addRuleCall.args[1], 'path');
+            assert.deepStrictEqual(addRuleCall.args[5]?.pathPatterns, ['src/server/**', '**/*.{test,spec}.ts']);
+        });
+
+        test('should offer registered custom scopes', async () => {
+            ruleManagerStub.getCustomScopes.returns([{ name: 'test-files', validator: () => true }]);
+            showInputBoxStub.resolves('Use describe/it blocks');
+            showQuickPickStub.onFirstCall().resolves({ label: 'Custom', value: 'custom' });
+            showQuickPickStub.onSecondCall().resolves({ label: 'test-files', value: 'test-files' });
+            ruleManagerStub.addRule.resolves();
+
+            await handler.execute();
+
+            const scopeItems = showQuickPickStub.firstCall.args[0] as { value: string }[];
+            assert.ok(scopeItems.some(item => item.value === 'custom'), 'Should offer the custom scope');
+            const addRuleCall = ruleManagerStub.addRule.firstCall;
+            assert.strictEqual(addRuleCall.args[1], 'custom');
+            assert.strictEqual(addRuleCall.args[5]?.customScope, 'test-files');
+        });
+
+        test('should ask for a condition when enabled in settings', async () => {
+            sinon.stub(vscode.workspace, 'getConfiguration').returns({ get: () => true } as any);
+            showInputBoxStub.onFirstCall().resolves('Prefer server components');
+            showInputBoxStub.onSecondCall().resolves(' fileContains:"from \'react\'" ');
+            showQuickPickStub.resolves({ label: 'Global', value: 'global' });
+            ruleManagerStub.addRule.resolves();
+
+            await handler.execute();
+
+            const addRuleCall = ruleManagerStub.addRule.firstCall;
+            assert.strictEqual(addRuleCall.args[5]?.condition, 'fileContains:"from \'react\'"');
+        });
+
+        test('should reject an invalid condition', async () => {
+            sinon.stub(vscode.workspace, 'getConfiguration').returns({ get: () => true } as any);
+            showInputBoxStub.onFirstCall().resolves('Prefer server components');
+            showInputBoxStub.onSecondCall().resolves('language == typescript');
+            showQuickPickStub.resolves({ label: 'Global', value: 'global' });
+
+            await handler.execute();
+
+            assert.ok(showErrorMessageStub.calledOnce, 'Should show the condition error');
+            assert.ok(ruleManagerStub.addRule.notCalled, 'Should not add rule');
+        });
+
+        test('should ask for the layer when several are available', async () => {
+            ruleManagerStub.getRuleLayers.returns(['workspace', 'team', 'user']);
+            showInputBoxStub.resolves('Personal rule');
+            showQuickPickStub.onFirstCall().resolves({ label: 'Global', value: 'global' });
+            showQuickPickStub.onSecondCall().resolves({ label: 'User', value: 'user' });
+            ruleManagerStub.addRule.resolves();
+
+            await handler.execute();
+
+            assert.ok(showQuickPickStub.calledTwice, 'Should prompt for scope and layer');
+            const addRuleCall = ruleManagerStub.addRule.firstCall;
+            assert.strictEqual(addRuleCall.args[4], 'user');
+        });
     });
 
     suite('input validation', () => {
@@ -54,4 +54,14 @@ suite('Extension Test Suite', () => {
 			'copilotMemory.removeRule command should be registered'
 		);
 	});
+
+	test('Extension should export the Copilot Memory API', () => {
+		const extension = vscode.extensions.getExtension('yaotsakpo.copilot-memory');
+		const api = extension?.exports;
+
+		assert.ok(api, 'Extension should export an API object');
+		assert.strictEqual(typeof api.addRule, 'function');
+		assert.strictEqual(typeof api.getRules, 'function');
+		assert.strictEqual(typeof api.getActiveRulesForContext, 'function');
+	});
 });
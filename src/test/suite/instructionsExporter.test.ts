@@ -0,0 +1,156 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Rule, RuleManager } from '../../ruleManager';
+import { NodeHost } from '../../core/nodeHost';
+import {
+    InstructionsExporter,
+    addGitExcludeEntry,
+    applyManagedBlock,
+    findGitExcludeFile,
+    planHiddenInstructions,
+    renderHiddenInstructions,
+    renderInstructionsBlock,
+    renderLanguageInstructions
+} from '../../services/instructionsExporter';
+
+suite('Instructions Exporter Tests', () => {
+    const rules: Rule[] = [
+        {
+            ruleId: 'global-1',
+            ruleText: 'Always handle errors',
+            scope: 'global',
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            isActive: true
+        },
+        {
+            ruleId: 'ts-1',
+            ruleText: 'Prefer interfaces',
+            scope: 'language',
+            languageScope: 'typescript',
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            isActive: true
+        }
+    ];
+
+    test('should group rules by scope and language with rule markers', () => {
+        const block = renderInstructionsBlock(rules);
+
+        assert.ok(block.startsWith('<!-- copilot-memory:start -->'));
+        assert.ok(block.endsWith('<!-- copilot-memory:end -->'));
+        assert.ok(block.includes('### Global\n- Always handle errors <!-- rule:global-1 -->'));
+        assert.ok(block.includes('### Language: typescript\n- Prefer interfaces <!-- rule:ts-1 -->'));
+        assert.ok(!block.includes('### Project'), 'Empty sections should be omitted');
+    });
+
+    test('should keep hand-written content outside the managed block', () => {
+        const existing = '# Team notes\n\n<!-- copilot-memory:start -->\nold\n<!-- copilot-memory:end -->\n\nFooter';
+        const updated = applyManagedBlock(existing, renderInstructionsBlock(rules));
+
+        assert.ok(updated.startsWith('# Team notes\n\n'));
+        assert.ok(updated.endsWith('\n\nFooter'));
+        assert.ok(!updated.includes('\nold\n'));
+    });
+
+    test('should append the block when the file has no markers', () => {
+        const updated = applyManagedBlock('# Team notes\n', renderInstructionsBlock(rules));
+
+        assert.ok(updated.startsWith('# Team notes\n\n<!-- copilot-memory:start -->'));
+    });
+
+    test('should render applyTo front matter for language files', () => {
+        const content = renderLanguageInstructions('typescript', [rules[1]]);
+
+        assert.ok(content.startsWith('---\napplyTo: "**/*.ts"\n---\n'));
+        assert.ok(content.includes('- Prefer interfaces <!-- rule:ts-1 -->'));
+    });
+
+    test('should render the hidden file for every file without generated or rule markers', () => {
+        const content = renderHiddenInstructions(rules);
+
+        assert.ok(content.startsWith('---\napplyTo: "**"\n---\n'));
+        assert.ok(content.includes('Prefer interfaces'));
+        assert.ok(!content.includes('<!-- Generated by Copilot Memory -->'), 'Should not be read back as a rule source');
+        assert.ok(!content.includes('<!-- rule:'));
+    });
+
+    test('should apply hidden language and path rules only to their files', () => {
+        const pathRule: Rule = { ...rules[0], ruleId: 'path-1', scope: 'path', pathPatterns: ['src/api/**', 'src/db/**'] };
+        const files = planHiddenInstructions([...rules, pathRule]);
+
+        assert.deepStrictEqual(files.map(file => [file.fileName, file.applyTo, file.rules.map(rule => rule.ruleId)]), [
+            ['copilot-memory.instructions.md', '**', ['global-1']],
+            ['copilot-memory.typescript.instructions.md', '**/*.ts', ['ts-1']],
+            ['copilot-memory.path-1.instructions.md', 'src/api/**,src/db/**', ['path-1']]
+        ]);
+        assert.ok(renderHiddenInstructions(files[1].rules, undefined, {}, files[1].applyTo).startsWith('---\napplyTo: "**/*.ts"\n---\n'));
+    });
+
+    test('should add the hidden file to git excludes once', () => {
+        const updated = addGitExcludeEntry('# git ls-files --others --exclude-from=.git/info/exclude\n', '.github/instructions/copilot-memory.instructions.md');
+
+        assert.strictEqual(updated, '# git ls-files --others --exclude-from=.git/info/exclude\n/.github/instructions/copilot-memory.instructions.md\n');
+        assert.strictEqual(addGitExcludeEntry(updated!, '.github/instructions/copilot-memory.instructions.md'), undefined);
+        assert.strictEqual(addGitExcludeEntry('', 'a.md'), '/a.md\n');
+    });
+
+    test('should find the git exclude file of clones, worktrees and submodules', () => {
+        const root = fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-memory-git-'));
+        try {
+            const repository = path.join(root, 'repository');
+            fs.mkdirSync(path.join(repository, '.git', 'worktrees', 'feature'), { recursive: true });
+            fs.mkdirSync(path.join(repository, '.git', 'modules', 'library'), { recursive: true });
+            fs.writeFileSync(path.join(repository, '.git', 'worktrees', 'feature', 'commondir'), '../..\n');
+
+            const worktree = path.join(root, 'feature');
+            fs.mkdirSync(worktree);
+            fs.writeFileSync(path.join(worktree, '.git'), `gitdir: ${path.join(repository, '.git', 'worktrees', 'feature')}\n`);
+
+            const submodule = path.join(repository, 'library');
+            fs.mkdirSync(submodule);
+            fs.writeFileSync(path.join(submodule, '.git'), 'gitdir: ../.git/modules/library\n');
+
+            assert.strictEqual(findGitExcludeFile(repository), path.join(repository, '.git', 'info', 'exclude'));
+            assert.strictEqual(findGitExcludeFile(worktree), path.join(repository, '.git', 'info', 'exclude'));
+            assert.strictEqual(findGitExcludeFile(submodule), path.join(repository, '.git', 'modules', 'library', 'info', 'exclude'));
+            assert.strictEqual(findGitExcludeFile(root), undefined);
+        } finally {
+            fs.rmSync(root, { recursive: true, force: true });
+        }
+    });
+
+    test('should write only applicable language rules to hidden files, once', async () => {
+        const workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-memory-workspace-'));
+        const ruleManager = new RuleManager(new NodeHost({
+            folders: [workspaceRoot],
+            globalStoragePath: fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-memory-'))
+        }));
+        try {
+            await ruleManager.initialize();
+            const appliedId = await ruleManager.addRule('Prefer interfaces', 'language', 'typescript');
+            await ruleManager.addRule('Use type hints', 'language', 'typescript', undefined, undefined, { condition: 'languageId == python' });
+            const pausedId = await ruleManager.addRule('Avoid enums', 'language', 'typescript');
+            await ruleManager.setRuleActive(pausedId, false);
+
+            const exporter = new InstructionsExporter(ruleManager);
+            const hiddenFile = path.join(workspaceRoot, '.github', 'instructions', 'copilot-memory.typescript.instructions.md');
+            await exporter.writeHiddenFiles(workspaceRoot);
+            const content = fs.readFileSync(hiddenFile, 'utf8');
+            assert.ok(content.includes('Prefer interfaces'));
+            assert.ok(!content.includes('Use type hints'), 'Should leave out rules whose condition does not match');
+            assert.ok(!content.includes('Avoid enums'), 'Should leave out paused rules');
+
+            // A generated language file already gives Copilot the rule
+            const applied = (await ruleManager.getRules('language', 'typescript')).filter(rule => rule.ruleId === appliedId);
+            fs.writeFileSync(path.join(workspaceRoot, '.github', 'instructions', 'typescript.instructions.md'), renderLanguageInstructions('typescript', applied));
+            await exporter.writeHiddenFiles(workspaceRoot);
+            assert.ok(!fs.existsSync(hiddenFile));
+        } finally {
+            await ruleManager.dispose();
+            fs.rmSync(workspaceRoot, { recursive: true, force: true });
+        }
+    });
+});
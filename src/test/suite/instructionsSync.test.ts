@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Rule, RuleManager } from '../../ruleManager';
+import { NodeHost } from '../../core/nodeHost';
+import { INSTRUCTIONS_CONSTANTS } from '../../constants';
+import { InstructionsExporter, renderInstructionsBlock, renderLanguageInstructions } from '../../services/instructionsExporter';
+import { InstructionsSync, parseInstructionsBlock, parseLanguageInstructions } from '../../services/instructionsSync';
+
+suite('Instructions Sync Tests', () => {
+    const rules: Rule[] = [
+        {
+            ruleId: 'global-1',
+            ruleText: 'Always handle errors',
+            scope: 'global',
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            isActive: true
+        },
+        {
+            ruleId: 'ts-1',
+            ruleText: 'Prefer interfaces',
+            scope: 'language',
+            languageScope: 'typescript',
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            isActive: true
+        }
+    ];
+
+    test('should parse an exported block back into the same rules', () => {
+        const parsed = parseInstructionsBlock(`# Notes\n\n${renderInstructionsBlock(rules)}\n`);
+
+        assert.deepStrictEqual(parsed, [
+            { ruleId: 'global-1', ruleText: 'Always handle errors', scope: 'global', languageScope: undefined },
+            { ruleId: 'ts-1', ruleText: 'Prefer interfaces', scope: 'language', languageScope: 'typescript' }
+        ]);
+    });
+
+    test('should parse hand-written lines without a marker as new rules', () => {
+        const content = renderInstructionsBlock(rules).replace(
+            '### Global\n',
+            '### Global\n- Write small functions\n'
+        );
+        const added = parseInstructionsBlock(content).find(rule => rule.ruleText === 'Write small functions');
+
+        assert.ok(added);
+        assert.strictEqual(added!.ruleId, undefined);
+        assert.strictEqual(added!.scope, 'global');
+    });
+
+    test('should ignore bullets outside the managed block', () => {
+        const parsed = parseInstructionsBlock(`- Team note\n\n${renderInstructionsBlock(rules)}\n\n- Footer note`);
+
+        assert.ok(!parsed.some(rule => rule.ruleText.includes('note')));
+    });
+
+    test('should parse path sections with their glob patterns', () => {
+        const pathRule: Rule = {
+            ruleId: 'path-1',
+            ruleText: 'Validate request bodies',
+            scope: 'path',
+            pathPatterns: ['src/server/**', '**/*.{test,spec}.ts'],
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            isActive: true
+        };
+        const parsed = parseInstructionsBlock(renderInstructionsBlock([...rules, pathRule]));
+
+        assert.deepStrictEqual(parsed.find(rule => rule.ruleId === 'path-1'), {
+            ruleId: 'path-1',
+            ruleText: 'Validate request bodies',
+            scope: 'path',
+            languageScope: undefined,
+            pathPatterns: ['src/server/**', '**/*.{test,spec}.ts']
+        });
+    });
+
+    test('should parse language instruction files', () => {
+        const parsed = parseLanguageInstructions(renderLanguageInstructions('typescript', [rules[1]]), 'typescript');
+
+        assert.deepStrictEqual(parsed, [
+            { ruleId: 'ts-1', ruleText: 'Prefer interfaces', scope: 'language', languageScope: 'typescript' }
+        ]);
+    });
+
+    test('should keep rules that the export leaves out of the file', async () => {
+        const workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-memory-workspace-'));
+        const ruleManager = new RuleManager(new NodeHost({
+            folders: [workspaceRoot],
+            globalStoragePath: fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-memory-'))
+        }));
+        try {
+            await ruleManager.initialize();
+            const pausedId = await ruleManager.addRule('Always handle errors', 'global');
+            await ruleManager.addRule('Write small functions', 'global');
+
+            const exporter = new InstructionsExporter(ruleManager);
+            const sync = new InstructionsSync(ruleManager, exporter);
+            const filePath = path.join(workspaceRoot, INSTRUCTIONS_CONSTANTS.repositoryFile);
+            await exporter.export(workspaceRoot);
+            await sync.syncFile(filePath, workspaceRoot);
+
+            // Pausing a rule drops it from the next export, which the watcher then reads back
+            await ruleManager.setRuleActive(pausedId, false);
+            await exporter.export(workspaceRoot);
+            await sync.syncFile(filePath, workspaceRoot);
+
+            const paused = (await ruleManager.getRules('global')).find(rule => rule.ruleId === pausedId);
+            assert.ok(paused && !paused.deletedAt, 'Should not move the paused rule to the trash');
+        } finally {
+            await ruleManager.dispose();
+            fs.rmSync(workspaceRoot, { recursive: true, force: true });
+        }
+    });
+});
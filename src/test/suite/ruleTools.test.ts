@@ -0,0 +1,18 @@
+import * as assert from 'assert';
+import { Rule } from '../../ruleManager';
+import { searchRules } from '../../services/ruleTools';
+import { makeRule } from '../ruleFixtures';
+
+suite('Rule Tools Tests', () => {
+    const rules = [
+        makeRule('a', 'Use async/await instead of .then()', 'global'),
+        makeRule('b', 'Use Async functions for database access', 'path', { pathPatterns: ['src/db/**'] }),
+        makeRule('c', 'Prefer interfaces', 'language', { languageScope: 'typescript', isActive: false })
+    ];
+
+    test('should match every word of the query, ignoring case', () => {
+        assert.deepStrictEqual(searchRules(rules, 'ASYNC use').map(rule => rule.ruleId), ['a', 'b']);
+        assert.deepStrictEqual(searchRules(rules, 'async database').map(rule => rule.ruleId), ['b']);
+        assert.deepStrictEqual(searchRules(rules, 'async', 'path').map(rule => rule.ruleId), ['b']);
+    });
+});
@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonRuleStore } from '../../stores/jsonRuleStore';
+import { RuleHistoryService } from '../../services/ruleHistoryService';
+import { parseArgs, runCommand } from '../../cli/cli';
+
+suite('CLI Tests', () => {
+    let store: JsonRuleStore;
+    let history: RuleHistoryService;
+
+    const run = (...args: string[]) => runCommand(store, parseArgs(args), history);
+
+    setup(() => {
+        store = new JsonRuleStore(path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-memory-cli-')), '.copilot-memory.json'));
+        history = new RuleHistoryService(path.join(path.dirname(store.filePath), '.copilot-memory.history.json'));
+    });
+
+    test('should parse commands, flags and repeated options', () => {
+        const parsed = parseArgs(['add', 'Use', 'const', '--path', 'src/**', '--path=test/**', '--json']);
+
+        assert.strictEqual(parsed.command, 'add');
+        assert.deepStrictEqual(parsed.positionals, ['Use', 'const']);
+        assert.deepStrictEqual(parsed.options.get('path'), ['src/**', 'test/**']);
+        assert.deepStrictEqual(parsed.options.get('json'), ['true']);
+    });
+
+    test('should add, list and remove rules in the rules file', async () => {
+        await run('add', 'Use', 'const');
+        await run('add', 'Prefer interfaces', '--scope', 'language', '--language', 'typescript');
+
+        const rules = JSON.parse(await run('list', '--json'));
+        assert.deepStrictEqual(rules.map((rule: any) => rule.ruleText), ['Use const', 'Prefer interfaces']);
+
+        await run('rm', rules[0].ruleId);
+        assert.strictEqual(await run('list', '--scope', 'global'), 'No rules found.');
+        assert.ok((await store.list()).some(rule => rule.deletedAt), 'Should keep the removed rule in the trash');
+        assert.deepStrictEqual((await history.getHistory(rules[0].ruleId)).map(revision => revision.action), ['deleted', 'created']);
+    });
+
+    test('should reject invalid rules', async () => {
+        await assert.rejects(run('add', 'Prefer interfaces', '--scope', 'language'), /language ID/);
+        await assert.rejects(run('add', 'Validate input', '--scope', 'path'), /glob pattern/);
+        await assert.rejects(run('add', ''), /empty/);
+    });
+
+    test('should export, import and render rules', async () => {
+        await run('add', 'Use const');
+        const exported = await run('export');
+
+        store = new JsonRuleStore(path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-memory-cli-')), '.copilot-memory.json'));
+        const importFile = path.join(path.dirname(store.filePath), 'export.json');
+        fs.writeFileSync(importFile, exported);
+
+        assert.ok((await run('import', importFile, '--dry-run')).startsWith('Would import (merge): 1 added'));
+        assert.strictEqual((await store.list()).length, 0, 'A dry run should not write');
+
+        await run('import', importFile);
+        assert.strictEqual(await run('render', '--template', 'numbered'),
+            'Please follow these coding rules when writing code, explanations and suggestions:\n\n1. Use const');
+    });
+});
@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { CURSOR_MARKER, buildCompletionMessages, cleanCompletion } from '../../services/completionPrompt';
+
+suite('Completion Prompt Tests', () => {
+    test('should put the rules before the code with the cursor marked', () => {
+        const messages = buildCompletionMessages({
+            languageId: 'typescript',
+            prefix: 'const total = ',
+            suffix: ';\n',
+            rulesPrompt: '1. Prefer reduce over loops'
+        });
+
+        assert.strictEqual(messages.length, 2);
+        assert.match(messages[0], /typescript/);
+        assert.ok(messages[0].endsWith('\n\n1. Prefer reduce over loops'));
+        assert.strictEqual(messages[1], `const total = ${CURSOR_MARKER};\n`);
+    });
+
+    test('should leave out the rules when none apply', () => {
+        const [instructions] = buildCompletionMessages({ languageId: 'python', prefix: '', suffix: '', rulesPrompt: '' });
+
+        assert.ok(!instructions.includes('\n\n'));
+    });
+
+    test('should strip markdown fences and the cursor marker from replies', () => {
+        assert.strictEqual(cleanCompletion('```ts\nitems.reduce((sum, item) => sum + item, 0)\n```'), 'items.reduce((sum, item) => sum + item, 0)');
+        assert.strictEqual(cleanCompletion(`${CURSOR_MARKER}return a + b;\n`), 'return a + b;');
+    });
+
+    test('should drop a last line that repeats the code after the cursor', () => {
+        assert.strictEqual(cleanCompletion('    return a + b;\n}', '\n}\n'), '    return a + b;');
+        assert.strictEqual(cleanCompletion('bar(baz)', ')'), 'bar(baz)', 'Should keep single-line completions whole');
+    });
+});
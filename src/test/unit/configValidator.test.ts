@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { ConfigValidator, DEFAULT_CONFIG } from '../../utils/configValidator';
+import { NodeHost } from '../../core/nodeHost';
+
+suite('ConfigValidator Tests', () => {
+    class ReportingHost extends NodeHost {
+        messages: string[] = [];
+
+        showConfigurationErrors(message: string): void {
+            this.messages.push(message);
+        }
+    }
+
+    test('should use the defaults for settings that are not set', () => {
+        const validation = ConfigValidator.validateCurrentConfig(new NodeHost());
+
+        assert.strictEqual(validation.isValid, true);
+        assert.deepStrictEqual(validation.config, DEFAULT_CONFIG);
+    });
+
+    test('should replace invalid settings with their defaults', () => {
+        const host = new NodeHost({ settings: { syncIntervalMinutes: 1, promptTokenBudget: 500 } });
+
+        const validation = ConfigValidator.validateCurrentConfig(host);
+        assert.strictEqual(validation.isValid, false);
+        assert.deepStrictEqual(validation.errors.map(error => error.property), ['syncIntervalMinutes']);
+        assert.strictEqual(validation.config.syncIntervalMinutes, DEFAULT_CONFIG.syncIntervalMinutes);
+        assert.strictEqual(validation.config.promptTokenBudget, 500);
+    });
+
+    test('should report invalid settings through the host when they change', () => {
+        const host = new ReportingHost();
+
+        const watcher = ConfigValidator.startConfigWatcher(host);
+        host.updateSetting('mcpServerPort', 80);
+        watcher.dispose();
+        host.updateSetting('retryAttempts', 99);
+
+        assert.strictEqual(host.messages.length, 1, 'Should report once while watching');
+        assert.match(host.messages[0], /mcpServerPort/);
+    });
+});
@@ -0,0 +1,196 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { validateRuleText, sanitizeInput, validateGlobPattern, validateNewRule } from '../../utils/validation';
+import { getCurrentLanguageId, getLanguageIdForPath, getWorkspaceRoot, globToRegExp, matchesPathPatterns } from '../../utils/workspacePaths';
+import { NodeHost } from '../../core/nodeHost';
+
+suite('Helpers Utility Tests', () => {
+
+    suite('validateRuleText', () => {
+        test('should accept valid rule text', () => {
+            const validTexts = [
+                'Always use const instead of let',
+                'Prefer async/await over promises',
+                'Use meaningful variable names',
+                'A'.repeat(50) // 50 characters
+            ];
+
+            validTexts.forEach(text => {
+                const result = validateRuleText(text);
+                assert.strictEqual(result.isValid, true, `Should accept: "${text}"`);
+                assert.strictEqual(result.error, undefined);
+            });
+        });
+
+        test('should reject empty or whitespace-only text', () => {
+            const invalidTexts = ['', '   ', '\t', '\n', '  \t  \n  '];
+
+            invalidTexts.forEach(text => {
+                const result = validateRuleText(text);
+                assert.strictEqual(result.isValid, false, `Should reject: "${text}"`);
+                assert.strictEqual(result.error, 'Rule text cannot be empty');
+            });
+        });
+
+        test('should reject text that is too long', () => {
+            const longText = 'A'.repeat(501); // 501 characters
+            const result = validateRuleText(longText);
+
+            assert.strictEqual(result.isValid, false);
+            assert.strictEqual(result.error, 'Rule text must be less than 500 characters');
+        });
+
+        test('should accept text at maximum length', () => {
+            const maxLengthText = 'A'.repeat(500); // Exactly 500 characters
+            const result = validateRuleText(maxLengthText);
+
+            assert.strictEqual(result.isValid, true);
+            assert.strictEqual(result.error, undefined);
+        });
+    });
+
+    suite('sanitizeInput', () => {
+        test('should trim whitespace', () => {
+            const testCases = [
+                { input: '  hello  ', expected: 'hello' },
+                { input: '\t\nworld\n\t', expected: 'world' },
+                { input: '   test   rule   ', expected: 'test rule' }
+            ];
+
+            testCases.forEach(({ input, expected }) => {
+                const result = sanitizeInput(input);
+                assert.strictEqual(result, expected, `Input: "${input}"`);
+            });
+        });
+
+        test('should collapse multiple spaces', () => {
+            const testCases = [
+                { input: 'hello    world', expected: 'hello world' },
+                { input: 'test  \t  \n  rule', expected: 'test rule' },
+                { input: 'a     b     c', expected: 'a b c' }
+            ];
+
+            testCases.forEach(({ input, expected }) => {
+                const result = sanitizeInput(input);
+                assert.strictEqual(result, expected, `Input: "${input}"`);
+            });
+        });
+
+        test('should handle empty strings', () => {
+            const result = sanitizeInput('');
+            assert.strictEqual(result, '');
+        });
+
+        test('should handle strings with only whitespace', () => {
+            const testCases = ['   ', '\t\t', '\n\n', '  \t  \n  '];
+
+            testCases.forEach(input => {
+                const result = sanitizeInput(input);
+                assert.strictEqual(result, '', `Input: "${input}"`);
+            });
+        });
+    });
+
+    suite('validateNewRule', () => {
+        test('should keep only the fields of the rule scope', () => {
+            const result = validateNewRule({ ruleText: ' Use  const ', scope: 'path', languageScope: 'typescript', pathPatterns: [' src/** ', 3] });
+
+            assert.deepStrictEqual(result.rule, {
+                ruleText: 'Use const',
+                scope: 'path',
+                languageScope: undefined,
+                pathPatterns: ['src/**'],
+                condition: undefined
+            });
+            assert.strictEqual(validateNewRule({ ruleText: 'Use const' }).rule?.scope, 'global');
+        });
+
+        test('should reject rules that are missing what their scope needs', () => {
+            assert.strictEqual(validateNewRule({ ruleText: 'Use const', scope: 'custom' }).error, 'Scope must be one of global, project, language, path');
+            assert.strictEqual(validateNewRule({ ruleText: 'Use const', scope: 'language', languageScope: ' ' }).error, 'Language rules need a language ID');
+            assert.strictEqual(validateNewRule({ ruleText: 'Use const', scope: 'path' }).error, 'Path rules need at least one glob pattern');
+            assert.strictEqual(validateNewRule({ ruleText: 42 }).isValid, false);
+            assert.strictEqual(validateNewRule({ ruleText: 'Use const', condition: 'languageId ==' }).isValid, false);
+        });
+    });
+
+    suite('getCurrentLanguageId', () => {
+        test('should return the language of the active document', () => {
+            const host = new NodeHost();
+            assert.strictEqual(getCurrentLanguageId(host.workspace), undefined, 'Should be undefined without an active editor');
+
+            host.setActiveDocument({ location: { fsPath: path.resolve('/repo/src/index.ts') }, languageId: 'typescript' });
+            assert.strictEqual(getCurrentLanguageId(host.workspace), 'typescript');
+        });
+    });
+
+    suite('getLanguageIdForPath', () => {
+        test('should guess the language from the file extension', () => {
+            assert.strictEqual(getLanguageIdForPath(path.resolve('/repo/src/index.ts')), 'typescript');
+            assert.strictEqual(getLanguageIdForPath('src/App.tsx'), 'typescriptreact');
+            assert.strictEqual(getLanguageIdForPath('scripts/build.mjs'), 'javascript');
+            assert.strictEqual(getLanguageIdForPath('Makefile'), undefined);
+        });
+    });
+
+    suite('getWorkspaceRoot', () => {
+        const [app, lib] = [path.resolve('/repo/app'), path.resolve('/repo/lib')];
+        const host = new NodeHost({ folders: [app, lib] });
+
+        test('should default to the first workspace folder', () => {
+            assert.strictEqual(getWorkspaceRoot(undefined, host.workspace), app);
+            assert.strictEqual(getWorkspaceRoot(undefined, new NodeHost().workspace), undefined);
+        });
+
+        test('should return the folder containing a document', () => {
+            assert.strictEqual(getWorkspaceRoot({ fsPath: path.join(lib, 'src', 'index.ts') }, host.workspace), lib);
+            assert.strictEqual(getWorkspaceRoot({ fsPath: path.resolve('/repo/library/index.ts') }, host.workspace), app,
+                'Should not match a folder that only shares a prefix');
+        });
+
+        test('should match path patterns relative to the folder of a document', () => {
+            assert.ok(matchesPathPatterns({ fsPath: path.join(lib, 'src', 'index.ts') }, ['src/**'], host.workspace));
+            assert.ok(!matchesPathPatterns({ fsPath: path.join(lib, 'test', 'index.ts') }, ['src/**'], host.workspace));
+        });
+    });
+
+    suite('globToRegExp', () => {
+        test('should match files under a directory', () => {
+            const regExp = globToRegExp('packages/api/**');
+            assert.ok(regExp.test('packages/api/src/server.ts'));
+            assert.ok(!regExp.test('packages/web/src/app.ts'));
+        });
+
+        test('should match any depth with a leading **/', () => {
+            const regExp = globToRegExp('**/*.test.ts');
+            assert.ok(regExp.test('app.test.ts'));
+            assert.ok(regExp.test('src/utils/helpers.test.ts'));
+            assert.ok(!regExp.test('src/utils/helpers.ts'));
+        });
+
+        test('should keep single * within one directory', () => {
+            const regExp = globToRegExp('src/*.ts');
+            assert.ok(regExp.test('src/index.ts'));
+            assert.ok(!regExp.test('src/utils/index.ts'));
+        });
+
+        test('should support braces, character sets and a trailing slash', () => {
+            assert.ok(globToRegExp('**/*.{ts,tsx}').test('src/App.tsx'));
+            assert.ok(globToRegExp('v[0-9].md').test('v2.md'));
+            assert.ok(!globToRegExp('v[!0-9].md').test('v2.md'));
+            assert.ok(globToRegExp('docs/').test('docs/guide/intro.md'));
+        });
+    });
+
+    suite('validateGlobPattern', () => {
+        test('should accept relative patterns', () => {
+            assert.strictEqual(validateGlobPattern('src/**/*.ts').isValid, true);
+        });
+
+        test('should reject empty, absolute and unbalanced patterns', () => {
+            assert.strictEqual(validateGlobPattern('  ').isValid, false);
+            assert.strictEqual(validateGlobPattern('/src/**').isValid, false);
+            assert.strictEqual(validateGlobPattern('**/*.{ts,tsx').isValid, false);
+        });
+    });
+});
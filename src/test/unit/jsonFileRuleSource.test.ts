@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFileRuleSource } from '../../mcp/jsonFileRuleSource';
+
+suite('JSON File Rule Source Tests', () => {
+    let filePath: string;
+
+    setup(() => {
+        filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-memory-mcp-')), '.copilot-memory.json');
+    });
+
+    teardown(() => {
+        fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+    });
+
+    test('should keep records it does not list when writing', async () => {
+        fs.writeFileSync(filePath, JSON.stringify([
+            { ruleId: 'a', ruleText: 'Use const', scope: 'global', createdAt: '2025-01-01T00:00:00.000Z', updatedAt: '2025-01-01T00:00:00.000Z', isActive: true },
+            { id: 'b', text: 'Legacy rule', scope: 'global', createdAt: '2024-01-01T00:00:00.000Z' },
+            { ruleId: 'c', scope: 'global', note: 'no rule text' }
+        ]));
+        const source = new JsonFileRuleSource(filePath);
+
+        const ruleId = await source.addRule({ ruleText: 'Prefer interfaces', scope: 'project' });
+        await source.removeRule('a');
+
+        const records: any[] = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        assert.deepStrictEqual(records.map(record => record.ruleId), ['a', 'b', 'c', ruleId]);
+        assert.ok(records[0].deletedAt, 'Should move the removed rule to the trash');
+        assert.strictEqual(records[3].projectPath, path.dirname(filePath));
+        assert.deepStrictEqual((await source.listRules()).map(rule => rule.ruleText), ['Legacy rule', 'Prefer interfaces']);
+    });
+});
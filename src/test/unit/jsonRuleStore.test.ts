@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonRuleStore } from '../../stores/jsonRuleStore';
+import { makeRule } from '../ruleFixtures';
+
+suite('JSON Rule Store Tests', () => {
+    let filePath: string;
+
+    setup(() => {
+        filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-memory-json-')), '.copilot-memory.json');
+    });
+
+    teardown(() => {
+        fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+    });
+
+    test('should keep a file that cannot be parsed instead of overwriting it', async () => {
+        const content = '[{ "ruleId": "a", "ruleText": "Hand-edited", }]';
+        fs.writeFileSync(filePath, content);
+        const store = new JsonRuleStore(filePath);
+
+        assert.deepStrictEqual(await store.list(), []);
+        await assert.rejects(store.create(makeRule('b', 'New rule')));
+        await assert.rejects(store.delete(['a']));
+        await assert.rejects(store.replaceAll([makeRule('b', 'New rule')]));
+        assert.strictEqual(fs.readFileSync(filePath, 'utf8'), content);
+    });
+
+    test('should refuse to write over a file that is not a list of rules', async () => {
+        fs.writeFileSync(filePath, '{ "rules": [] }');
+
+        await assert.rejects(new JsonRuleStore(filePath).create(makeRule('a', 'Use const')), /list of rules/);
+    });
+});
@@ -0,0 +1,131 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Rule } from '../../ruleManager';
+import { McpRuleSource, McpServer, serveHttp } from '../../mcp/mcpServer';
+
+suite('MCP Server Tests', () => {
+    let rules: Rule[];
+    let server: McpServer;
+
+    const source: McpRuleSource = {
+        listRules: async () => rules.filter(rule => !rule.deletedAt),
+        addRule: async rule => {
+            const ruleId = `rule-${rules.length + 1}`;
+            rules.push({ ...rule, ruleId, createdAt: new Date(), updatedAt: new Date(), isActive: true });
+            return ruleId;
+        },
+        removeRule: async ruleId => {
+            rules.find(rule => rule.ruleId === ruleId)!.deletedAt = new Date();
+        }
+    };
+
+    const call = async (method: string, params: unknown = {}): Promise<any> => {
+        const response = await server.handleMessage({ jsonrpc: '2.0', id: 1, method, params });
+        return response!.result ?? response!.error;
+    };
+
+    setup(() => {
+        rules = [{
+            ruleId: 'a',
+            ruleText: 'Use const',
+            scope: 'global',
+            createdAt: new Date('2025-01-01T00:00:00.000Z'),
+            updatedAt: new Date('2025-01-01T00:00:00.000Z'),
+            isActive: true
+        }];
+        server = new McpServer(source, '1.0.0');
+    });
+
+    test('should negotiate the protocol version', async () => {
+        assert.strictEqual((await call('initialize', { protocolVersion: '2024-11-05' })).protocolVersion, '2024-11-05');
+        assert.strictEqual((await call('initialize', { protocolVersion: '1999-01-01' })).protocolVersion, '2025-06-18');
+        assert.strictEqual(await server.handleMessage({ jsonrpc: '2.0', method: 'notifications/initialized' }), undefined);
+    });
+
+    test('should publish rules as resources and a prompt', async () => {
+        const { resources } = await call('resources/list');
+        assert.deepStrictEqual(resources.map((resource: any) => resource.uri), ['copilot-memory://rules', 'copilot-memory://rules/a']);
+
+        const { contents } = await call('resources/read', { uri: 'copilot-memory://rules' });
+        assert.ok(contents[0].text.includes('- Use const (global) [a]'));
+
+        const prompt = await call('prompts/get', { name: 'coding_rules' });
+        assert.ok(prompt.messages[0].content.text.includes('Use const'));
+    });
+
+    test('should add, list and remove rules with tools', async () => {
+        const added = await call('tools/call', {
+            name: 'add_rule',
+            arguments: { ruleText: 'Prefer  interfaces', scope: 'language', languageScope: 'typescript' }
+        });
+        assert.strictEqual(added.content[0].text, 'Added rule rule-2: Prefer interfaces');
+
+        await call('tools/call', { name: 'remove_rule', arguments: { ruleId: 'a' } });
+
+        const listed = await call('tools/call', { name: 'list_rules', arguments: {} });
+        assert.strictEqual(listed.content[0].text, '- Prefer interfaces (language: typescript) [rule-2]');
+    });
+
+    test('should report invalid tool input and unknown methods', async () => {
+        const result = await call('tools/call', { name: 'add_rule', arguments: { ruleText: 'Rule', scope: 'language' } });
+        assert.strictEqual(result.isError, true);
+        assert.strictEqual(result.content[0].text, 'Language rules need a language ID');
+
+        assert.strictEqual((await call('rules/unknown')).code, -32601);
+    });
+
+    suite('HTTP', () => {
+        let httpServer: http.Server;
+
+        const post = (body: string): Promise<{ status: number; body: string }> => new Promise((resolve, reject) => {
+            const { port } = httpServer.address() as AddressInfo;
+            const request = http.request({ host: '127.0.0.1', port, path: '/mcp', method: 'POST' }, response => {
+                let text = '';
+                response.setEncoding('utf8');
+                response.on('data', chunk => text += chunk);
+                response.on('end', () => resolve({ status: response.statusCode!, body: text }));
+            });
+            request.on('error', reject);
+            request.end(body);
+        });
+
+        teardown(done => {
+            httpServer.close(() => done());
+        });
+
+        test('should handle one request at a time', async () => {
+            let running = 0;
+            let overlapped = false;
+            const addRule = source.addRule;
+            server = new McpServer({
+                ...source,
+                addRule: async rule => {
+                    overlapped = overlapped || running > 0;
+                    running++;
+                    await new Promise(resolve => setTimeout(resolve, 20));
+                    running--;
+                    return addRule(rule);
+                }
+            }, '1.0.0');
+            httpServer = await serveHttp(server, 0);
+
+            const add = (ruleText: string, id: number) => post(JSON.stringify({
+                jsonrpc: '2.0', id, method: 'tools/call', params: { name: 'add_rule', arguments: { ruleText } }
+            }));
+            const replies = await Promise.all([add('Use const', 1), add('Use let', 2)]);
+
+            assert.deepStrictEqual(replies.map(reply => reply.status), [200, 200]);
+            assert.strictEqual(overlapped, false);
+            assert.strictEqual(rules.length, 3);
+        });
+
+        test('should refuse bodies over the size limit', async () => {
+            httpServer = await serveHttp(server, 0);
+            const reply = await post(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping', params: { padding: 'x'.repeat(2 * 1024 * 1024) } }));
+
+            assert.strictEqual(reply.status, 413);
+            assert.strictEqual(rules.length, 1);
+        });
+    });
+});
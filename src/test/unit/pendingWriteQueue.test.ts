@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Rule } from '../../ruleManager';
+import { PendingWriteQueue } from '../../services/pendingWriteQueue';
+import { makeRule } from '../ruleFixtures';
+import { RuleStore } from '../../stores/ruleStore';
+
+suite('Pending Write Queue Tests', () => {
+    let queueFilePath: string;
+
+    function fakeStore(calls: string[], failOn?: string): RuleStore {
+        return {
+            id: 'fake',
+            list: async () => [],
+            get: async () => undefined,
+            create: async (created: Rule) => {
+                if (created.ruleId === failOn) {
+                    throw new Error('offline');
+                }
+                calls.push(`upsert ${created.ruleId} ${created.ruleText}`);
+            },
+            update: async () => undefined,
+            delete: async (ruleIds: string[]) => {
+                calls.push(`delete ${ruleIds.join(',')}`);
+            }
+        };
+    }
+
+    setup(() => {
+        queueFilePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-memory-queue-')), 'queue.json');
+    });
+
+    test('should persist pending writes across instances', () => {
+        new PendingWriteQueue(queueFilePath).enqueueUpsert(makeRule('a', 'First'));
+
+        const reloaded = new PendingWriteQueue(queueFilePath);
+        assert.strictEqual(reloaded.size, 1);
+    });
+
+    test('should replay writes in order and keep only the latest write per rule', async () => {
+        const queue = new PendingWriteQueue(queueFilePath);
+        queue.enqueueUpsert(makeRule('a', 'First'));
+        queue.enqueueUpsert(makeRule('b', 'Other'));
+        queue.enqueueUpsert(makeRule('a', 'Second'));
+        queue.enqueueDelete('c');
+
+        const calls: string[] = [];
+        const replayed = await queue.replay(fakeStore(calls));
+
+        assert.strictEqual(replayed, 3);
+        assert.deepStrictEqual(calls, ['upsert b Other', 'upsert a Second', 'delete c']);
+        assert.strictEqual(queue.size, 0);
+        assert.ok(!fs.existsSync(queueFilePath), 'Empty queue should remove its file');
+    });
+
+    test('should stop at the first failed write and keep the rest queued', async () => {
+        const queue = new PendingWriteQueue(queueFilePath);
+        queue.enqueueUpsert(makeRule('a', 'First'));
+        queue.enqueueUpsert(makeRule('b', 'Second'));
+
+        const calls: string[] = [];
+        await queue.replay(fakeStore(calls, 'a'));
+
+        assert.deepStrictEqual(calls, []);
+        assert.strictEqual(queue.size, 2);
+    });
+});
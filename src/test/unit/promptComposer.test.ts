@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { estimateTokens, estimateRuleTokens, fitRulesToBudget } from '../../services/promptComposer';
+import { makeRule } from '../ruleFixtures';
+
+suite('Prompt Composer Tests', () => {
+    test('should estimate tokens from words, numbers and symbols', () => {
+        assert.strictEqual(estimateTokens(''), 0);
+        assert.strictEqual(estimateTokens('Use const'), 2);
+        assert.strictEqual(estimateTokens('Indent with 2 spaces.'), 5);
+        assert.strictEqual(estimateTokens('internationalization'), 4);
+    });
+
+    test('should keep every rule when they fit or the budget is 0', () => {
+        const rules = [makeRule('a', 'Use const', 'global'), makeRule('b', 'Use semicolons', 'global')];
+
+        assert.strictEqual(fitRulesToBudget(rules, 1000).droppedRules.length, 0);
+        assert.strictEqual(fitRulesToBudget(rules, 0).droppedRules.length, 0);
+    });
+
+    test('should fill the budget by priority and report dropped rules', () => {
+        const rules = [
+            makeRule('a', 'Always write descriptive commit messages', 'global'),
+            makeRule('b', 'Prefer readonly properties', 'global', { priority: 1 })
+        ];
+
+        const composed = fitRulesToBudget(rules, estimateRuleTokens(rules[1]));
+        assert.deepStrictEqual(composed.rules.map(rule => rule.ruleId), ['b']);
+        assert.deepStrictEqual(composed.droppedRules.map(rule => rule.ruleId), ['a']);
+        assert.ok(composed.tokenCount <= composed.tokenBudget);
+    });
+
+    test('should prefer rules relevant to the current file', () => {
+        const rules = [
+            makeRule('a', 'Document every public class', 'global'),
+            makeRule('b', 'Wrap database queries in transactions', 'global')
+        ];
+
+        const composed = fitRulesToBudget(rules, estimateRuleTokens(rules[1]), {
+            path: 'src/db/queries.ts',
+            text: 'export async function runQueries(database: Database) {}'
+        });
+        assert.deepStrictEqual(composed.rules.map(rule => rule.ruleId), ['b']);
+    });
+
+    test('should keep the prompt order of the chosen rules', () => {
+        const rules = [
+            makeRule('a', 'First rule', 'global'),
+            makeRule('b', 'A much longer second rule that does not fit the remaining budget at all', 'global'),
+            makeRule('c', 'Third rule', 'path', { pathPatterns: ['src/**'] })
+        ];
+
+        const composed = fitRulesToBudget(rules, estimateRuleTokens(rules[0]) + estimateRuleTokens(rules[2]));
+        assert.deepStrictEqual(composed.rules.map(rule => rule.ruleId), ['a', 'c']);
+    });
+});
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { PromptTemplate, formatRuleLine, getBuiltInTemplate, renderRules, renderTemplate } from '../../services/promptTemplates';
+import { makeRule } from '../ruleFixtures';
+
+suite('Prompt Templates Tests', () => {
+    const rules = [
+        makeRule('a', 'Use const', 'global'),
+        makeRule('b', 'Use <T> generics & types', 'language', { languageScope: 'typescript' })
+    ];
+
+    test('should fill placeholders and keep unknown ones', () => {
+        const template: PromptTemplate = {
+            name: 'test',
+            format: 'numbered',
+            text: '{{project}} / {{language}} ({{ count }}): {{rules}} {{unknown}}'
+        };
+
+        assert.strictEqual(
+            renderTemplate(template, rules, { project: 'app', language: 'typescript' }),
+            'app / typescript (2): 1. Use const\n2. Use <T> generics & types {{unknown}}'
+        );
+    });
+
+    test('should render rules as XML with their scope', () => {
+        assert.strictEqual(
+            renderRules('xml', rules),
+            '<rule scope="global">Use const</rule>\n' +
+            '<rule scope="language:typescript">Use &lt;T&gt; generics &amp; types</rule>'
+        );
+        assert.ok(renderTemplate(getBuiltInTemplate('xml'), rules).startsWith('<coding_rules count="2">'));
+    });
+
+    test('should render markdown sections by scope with rule markers', () => {
+        assert.strictEqual(
+            renderRules('markdown', rules, true),
+            '### Global\n- Use const <!-- rule:a -->\n\n' +
+            '### Language: typescript\n- Use <T> generics & types <!-- rule:b -->'
+        );
+    });
+
+    test('should describe a rule on one line with where it applies', () => {
+        assert.strictEqual(formatRuleLine(makeRule('c', 'Validate input', 'path', { pathPatterns: ['src/api/**', 'src/db/**'] })),
+            '- Validate input (files: src/api/**, src/db/**) [c]');
+        assert.strictEqual(formatRuleLine({ ...rules[1], condition: 'path =~ /src/', isActive: false }),
+            '- Use <T> generics & types (language: typescript; when: path =~ /src/; paused) [b]');
+    });
+});
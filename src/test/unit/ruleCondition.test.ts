@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import { RuleConditionContext, evaluateCondition, validateCondition } from '../../utils/ruleCondition';
+
+suite('Rule Condition Tests', () => {
+    function context(overrides: Partial<RuleConditionContext> = {}): RuleConditionContext {
+        return {
+            languageId: 'typescript',
+            path: 'src/server/routes.ts',
+            workspaceContains: async pattern => pattern === 'package.json',
+            fileContains: async text => text === 'from \'react\'',
+            ...overrides
+        };
+    }
+
+    suite('evaluateCondition', () => {
+        test('should compare keys and match regular expressions', async () => {
+            assert.strictEqual(await evaluateCondition('languageId == typescript && path =~ /src\\/server/', context()), true);
+            assert.strictEqual(await evaluateCondition('languageId != typescript || path =~ /CLIENT/i', context()), false);
+            assert.strictEqual(await evaluateCondition('fileName == routes.ts', context()), true);
+        });
+
+        test('should support negation, grouping and bare keys', async () => {
+            assert.strictEqual(await evaluateCondition('!(languageId == python || languageId == go)', context()), true);
+            assert.strictEqual(await evaluateCondition('path', context({ path: undefined })), false);
+        });
+
+        test('should check workspace files and document text', async () => {
+            assert.strictEqual(await evaluateCondition('workspaceContains:package.json', context()), true);
+            assert.strictEqual(await evaluateCondition('workspaceContains:"Cargo.toml"', context()), false);
+            assert.strictEqual(await evaluateCondition('fileContains:"from \'react\'"', context()), true);
+        });
+
+        test('should not run checks that cannot change the result', async () => {
+            let lookups = 0;
+            const counting = context({ workspaceContains: async () => { lookups++; return true; } });
+
+            await evaluateCondition('languageId == python && workspaceContains:package.json', counting);
+            await evaluateCondition('languageId == typescript || workspaceContains:package.json', counting);
+            assert.strictEqual(lookups, 0);
+        });
+    });
+
+    suite('validateCondition', () => {
+        test('should accept valid expressions', () => {
+            assert.ok(validateCondition('languageId == typescript && (path =~ /^src\\// || workspaceContains:tsconfig.json)').isValid);
+        });
+
+        test('should reject invalid expressions with a position', () => {
+            assert.match(validateCondition('language == typescript').error || '', /Unknown key "language".*position 1/);
+            assert.match(validateCondition('languageId ==').error || '', /Expected a value/);
+            assert.match(validateCondition('path =~ src').error || '', /regular expression/);
+            assert.match(validateCondition('(languageId == go').error || '', /Expected "\)"/);
+            assert.match(validateCondition('fileContains:"react').error || '', /Missing closing "/);
+            assert.ok(!validateCondition('').isValid);
+        });
+    });
+});
@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import { Rule } from '../../ruleManager';
+import { parseRuleImport, planRuleImport, summarizeImportPlan } from '../../services/ruleImportService';
+
+suite('Rule Import Tests', () => {
+    const existingRules: Rule[] = [
+        {
+            ruleId: 'rule-1',
+            ruleText: 'Always use const instead of let',
+            scope: 'global',
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            isActive: true
+        },
+        {
+            ruleId: 'rule-2',
+            ruleText: 'Prefer interfaces over type aliases',
+            scope: 'language',
+            languageScope: 'typescript',
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            isActive: true
+        }
+    ];
+
+    suite('parseRuleImport', () => {
+        test('should accept the export format', () => {
+            const rules = parseRuleImport(JSON.stringify({
+                exportedAt: '2025-09-22T18:00:00.000Z',
+                totalRules: 1,
+                rules: [{ ruleId: 'a', ruleText: 'Use async/await', scope: 'global', isActive: true }]
+            }));
+
+            assert.strictEqual(rules.length, 1);
+            assert.strictEqual(rules[0].ruleId, 'a');
+        });
+
+        test('should accept a bare array of rules', () => {
+            const rules = parseRuleImport([{ ruleText: '  Use   async/await ', scope: 'global' }]);
+
+            assert.strictEqual(rules.length, 1);
+            assert.strictEqual(rules[0].ruleText, 'Use async/await');
+            assert.strictEqual(rules[0].isActive, true);
+        });
+
+        test('should reject invalid rules', () => {
+            assert.throws(() => parseRuleImport([{ ruleText: '', scope: 'global' }]), /index 0/);
+            assert.throws(() => parseRuleImport([{ ruleText: 'Rule', scope: 'team' }]), /unknown scope/);
+            assert.throws(() => parseRuleImport({ foo: 'bar' }), /rules export or an array/);
+        });
+
+        test('should require valid glob patterns for path rules', () => {
+            const rules = parseRuleImport([{ ruleText: 'Validate inputs', scope: 'path', pathPatterns: [' src/server/** '] }]);
+
+            assert.deepStrictEqual(rules[0].pathPatterns, ['src/server/**']);
+            assert.throws(() => parseRuleImport([{ ruleText: 'Rule', scope: 'path' }]), /at least one glob pattern/);
+            assert.throws(() => parseRuleImport([{ ruleText: 'Rule', scope: 'path', pathPatterns: ['/abs/**'] }]), /relative/);
+        });
+    });
+
+    suite('planRuleImport', () => {
+        test('should classify new, changed and identical rules', () => {
+            const incoming = parseRuleImport([
+                { ruleId: 'rule-1', ruleText: 'Always use const instead of let', scope: 'global' },
+                { ruleText: 'prefer INTERFACES over type aliases', scope: 'language', languageScope: 'typescript' },
+                { ruleText: 'Use meaningful names', scope: 'global' }
+            ]);
+
+            const plan = planRuleImport(existingRules, incoming, 'merge');
+
+            assert.deepStrictEqual(plan.identicalRules.map(r => r.ruleId), ['rule-1']);
+            assert.deepStrictEqual(plan.changedRules.map(c => c.existing.ruleId), ['rule-2']);
+            assert.deepStrictEqual(plan.newRules.map(r => r.ruleText), ['Use meaningful names']);
+            assert.strictEqual(plan.removedRules.length, 0);
+        });
+
+        test('should mark unmatched rules for removal in replace mode', () => {
+            const incoming = parseRuleImport([{ ruleId: 'rule-1', ruleText: 'Always use const instead of let', scope: 'global' }]);
+
+            const plan = planRuleImport(existingRules, incoming, 'replace');
+
+            assert.deepStrictEqual(plan.removedRules.map(r => r.ruleId), ['rule-2']);
+        });
+
+        test('should skip changed rules in skip-duplicates mode', () => {
+            const incoming = parseRuleImport([{ ruleId: 'rule-1', ruleText: 'Always use const', scope: 'global' }]);
+
+            const summary = summarizeImportPlan(planRuleImport(existingRules, incoming, 'skip-duplicates'));
+
+            assert.deepStrictEqual(summary, { added: 0, updated: 0, unchanged: 0, skipped: 1, removed: 0 });
+        });
+    });
+});
@@ -0,0 +1,363 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RuleManager, Rule } from '../../ruleManager';
+import { NodeHost } from '../../core/nodeHost';
+import { makeRule } from '../ruleFixtures';
+
+suite('RuleManager Test Suite', () => {
+	let ruleManager: RuleManager;
+	let storageDir: string;
+	const workspaceManagers: RuleManager[] = [];
+
+	setup(async function() {
+		this.timeout(5000); // Reduce timeout
+		// No workspace folder and no MongoDB: rules live in the user's global storage
+		storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-memory-'));
+		ruleManager = new RuleManager(new NodeHost({
+			globalStoragePath: storageDir,
+			settings: { fallbackToLocal: true }
+		}));
+		await ruleManager.initialize();
+	});
+
+	teardown(async () => {
+		await Promise.all([ruleManager, ...workspaceManagers.splice(0)].map(manager => manager.dispose()));
+		fs.rmSync(storageDir, { recursive: true, force: true });
+	});
+
+	test('should initialize successfully', () => {
+		assert.ok(ruleManager, 'RuleManager should be created');
+	});
+
+	test('should add a global rule successfully', async () => {
+		await ruleManager.addRule('Always use const instead of let', 'global');
+
+		const rules = await ruleManager.getRules('global');
+		assert.ok(rules.length > 0, 'Should have at least one rule');
+
+		const addedRule = rules.find(r => r.ruleText === 'Always use const instead of let');
+		assert.ok(addedRule, 'Should find the added rule');
+		assert.strictEqual(addedRule.scope, 'global', 'Rule scope should be global');
+	});
+
+	test('should retrieve all rules', async () => {
+		// Add a test rule
+		await ruleManager.addRule('Use async/await instead of .then()', 'global');
+
+		const rules = await ruleManager.getRules();
+		assert.ok(Array.isArray(rules), 'Should return an array');
+		assert.ok(rules.length > 0, 'Should have at least one rule');
+
+		const foundRule = rules.find(r => r.ruleText === 'Use async/await instead of .then()');
+		assert.ok(foundRule, 'Should find the added rule');
+	});
+
+	test('should handle language-specific rules', async () => {
+		await ruleManager.addRule('Use interfaces instead of type aliases', 'language', 'typescript');
+
+		const rules = await ruleManager.getRules('language', 'typescript');
+		assert.ok(rules.length > 0, 'Should have at least one language rule');
+
+		const languageRule = rules.find(r => r.ruleText === 'Use interfaces instead of type aliases');
+		assert.ok(languageRule, 'Should find the language-specific rule');
+		assert.strictEqual(languageRule.scope, 'language', 'Rule scope should be language');
+		assert.strictEqual(languageRule.languageScope, 'typescript', 'Language scope should be typescript');
+	});
+
+	test('should remove rules', async () => {
+		// Add a rule
+		await ruleManager.addRule('Test rule to be removed', 'global');
+
+		let rules = await ruleManager.getRules();
+		const ruleToRemove = rules.find(r => r.ruleText === 'Test rule to be removed');
+		assert.ok(ruleToRemove, 'Rule should exist before removal');
+
+		// Remove the rule
+		await ruleManager.removeRule(ruleToRemove.ruleId);
+
+		// Verify it's gone
+		rules = await ruleManager.getRules();
+		const removedRule = rules.find(r => r.ruleId === ruleToRemove.ruleId);
+		assert.strictEqual(removedRule, undefined, 'Rule should be removed');
+	});
+
+	test('should update rule text', async () => {
+		const ruleId = await ruleManager.addRule('Rule before edit', 'global');
+
+		const updated = await ruleManager.updateRule(ruleId, { ruleText: 'Rule after edit' });
+		assert.strictEqual(updated.ruleText, 'Rule after edit');
+
+		const rules = await ruleManager.getRules();
+		assert.ok(rules.some(r => r.ruleId === ruleId && r.ruleText === 'Rule after edit'), 'Should persist the new text');
+	});
+
+	test('should toggle rule active status', async () => {
+		const ruleId = await ruleManager.addRule('Rule to pause', 'global');
+
+		const deactivated = await ruleManager.setRuleActive(ruleId, false);
+		assert.strictEqual(deactivated.isActive, false);
+
+		let contextRules = await ruleManager.getActiveRulesForContext();
+		assert.ok(!contextRules.includes('Rule to pause'), 'Inactive rule should not be applied');
+
+		await ruleManager.setRuleActive(ruleId, true);
+		contextRules = await ruleManager.getActiveRulesForContext();
+		assert.ok(contextRules.includes('Rule to pause'), 'Reactivated rule should be applied');
+	});
+
+	test('should keep inactive rules visible in getRules', async () => {
+		const ruleId = await ruleManager.addRule('Paused rule stays listed', 'global');
+		await ruleManager.setRuleActive(ruleId, false);
+
+		const rules = await ruleManager.getRules();
+		const pausedRule = rules.find(r => r.ruleId === ruleId);
+		assert.ok(pausedRule, 'Inactive rule should still be listed');
+		assert.strictEqual(pausedRule.isActive, false);
+	});
+
+	test('should record and restore rule revisions', async () => {
+		const ruleId = await ruleManager.addRule('First wording', 'global');
+		await ruleManager.updateRule(ruleId, { ruleText: 'Second wording' });
+
+		const history = await ruleManager.getRuleHistory(ruleId);
+		assert.deepStrictEqual(history.map(r => r.action), ['updated', 'created']);
+		assert.strictEqual(history[1].ruleText, 'First wording');
+
+		const restored = await ruleManager.restoreRevision(ruleId, history[1].revisionId);
+		assert.strictEqual(restored.ruleText, 'First wording');
+
+		const latest = (await ruleManager.getRuleHistory(ruleId))[0];
+		assert.strictEqual(latest.action, 'restored');
+	});
+
+	test('should move removed rules to trash and restore them', async () => {
+		const ruleId = await ruleManager.addRule('Rule to trash', 'global');
+		await ruleManager.removeRule(ruleId);
+
+		let trash = await ruleManager.getTrash();
+		assert.ok(trash.some(r => r.ruleId === ruleId), 'Removed rule should be in trash');
+
+		await ruleManager.restoreRule(ruleId);
+
+		trash = await ruleManager.getTrash();
+		assert.ok(!trash.some(r => r.ruleId === ruleId), 'Restored rule should leave trash');
+		const rules = await ruleManager.getRules();
+		assert.ok(rules.some(r => r.ruleId === ruleId), 'Restored rule should be listed again');
+	});
+
+	test('should empty trash permanently', async () => {
+		const ruleId = await ruleManager.addRule('Rule to delete permanently', 'global');
+		await ruleManager.removeRule(ruleId);
+
+		await ruleManager.emptyTrash();
+
+		assert.strictEqual((await ruleManager.getTrash()).length, 0);
+		await assert.rejects(() => ruleManager.restoreRule(ruleId), /not found in trash/);
+	});
+
+	test('should reject updates to unknown rules', async () => {
+		await assert.rejects(() => ruleManager.updateRule('missing-rule', { ruleText: 'x' }), /Rule not found/);
+	});
+
+	test('should list the project rules of every project in getAllRules', async () => {
+		const workspaceManager = await createWorkspaceManager(new NodeHost({
+			folders: [fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-memory-workspace-'))],
+			globalStoragePath: fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-memory-'))
+		}));
+		const ruleId = await workspaceManager.addRule('Rule of another project', 'project', undefined, path.resolve('/other/project'));
+
+		assert.ok(!(await workspaceManager.getRules('project')).some(r => r.ruleId === ruleId), 'Should limit getRules to the open folder');
+		assert.ok((await workspaceManager.getAllRules('project')).some(r => r.ruleId === ruleId));
+	});
+
+	test('should get active rules for context', async () => {
+		// Add different types of rules
+		await ruleManager.addRule('Global rule', 'global');
+		await ruleManager.addRule('TypeScript rule', 'language', 'typescript');
+		await ruleManager.addRule('JavaScript rule', 'language', 'javascript');
+
+		// Get rules for TypeScript context
+		const tsRules = await ruleManager.getActiveRulesForContext('typescript');
+		assert.ok(tsRules.length >= 2, 'Should include global and TypeScript rules');
+		assert.ok(tsRules.includes('Global rule'), 'Should include global rule');
+		assert.ok(tsRules.includes('TypeScript rule'), 'Should include TypeScript rule');
+		assert.ok(!tsRules.includes('JavaScript rule'), 'Should not include JavaScript rule');
+	});
+
+	test('should apply custom-scoped rules only where their validator matches', async () => {
+		const registration = ruleManager.registerCustomScope({
+			name: 'test-files',
+			validator: context => context.filePath?.includes('.test.') === true
+		});
+		await ruleManager.addRule('Use describe/it blocks', 'custom', undefined, undefined, undefined, { customScope: 'test-files' });
+
+		const testRules = await ruleManager.getActiveRulesForContext('typescript', { fsPath: '/tmp/app/a.test.ts' });
+		const sourceRules = await ruleManager.getActiveRulesForContext('typescript', { fsPath: '/tmp/app/a.ts' });
+		assert.ok(testRules.includes('Use describe/it blocks'), 'Should include the rule for test files');
+		assert.ok(!sourceRules.includes('Use describe/it blocks'), 'Should not include the rule for other files');
+
+		// Without a registered validator the rule never applies
+		registration.dispose();
+		const rule = (await ruleManager.getRules('custom')).find(r => r.ruleText === 'Use describe/it blocks')!;
+		const unregisteredRules = await ruleManager.getActiveRulesForContext('typescript', { fsPath: '/tmp/app/a.test.ts' });
+		assert.ok(!unregisteredRules.includes('Use describe/it blocks'));
+		assert.match(ruleManager.getCustomScopeProblem(rule) || '', /not registered/);
+	});
+
+	test('should apply rules only when their condition holds', async () => {
+		await ruleManager.addRule('Validate request bodies', 'global', undefined, undefined, undefined, {
+			condition: 'languageId == typescript && fileName =~ /^api\\./'
+		});
+
+		const apiRules = await ruleManager.getActiveRulesForContext('typescript', { fsPath: '/tmp/app/api.ts' });
+		const otherRules = await ruleManager.getActiveRulesForContext('typescript', { fsPath: '/tmp/app/ui.ts' });
+		assert.ok(apiRules.includes('Validate request bodies'), 'Should include the rule when the condition holds');
+		assert.ok(!otherRules.includes('Validate request bodies'), 'Should not include the rule otherwise');
+	});
+
+	test('should leave out global rules superseded by an applicable rule', async () => {
+		const globalId = await ruleManager.addRule('Indent with tabs', 'global');
+		await ruleManager.addRule('Indent with 2 spaces', 'language', 'yaml', undefined, undefined, {
+			supersedes: [globalId]
+		});
+
+		const yamlRules = await ruleManager.getActiveRulesForContext('yaml');
+		const otherRules = await ruleManager.getActiveRulesForContext('python');
+		assert.ok(!yamlRules.includes('Indent with tabs'), 'Should leave out the superseded rule');
+		assert.ok(yamlRules.includes('Indent with 2 spaces'), 'Should include the superseding rule');
+		assert.ok(otherRules.includes('Indent with tabs'), 'Should keep the global rule elsewhere');
+	});
+
+	test('should move rules and keep the new order', async () => {
+		const firstId = await ruleManager.addRule('First ordered rule', 'global');
+		const secondId = await ruleManager.addRule('Second ordered rule', 'global');
+
+		await ruleManager.moveRule(secondId, -1);
+
+		const ids = (await ruleManager.getRules()).map(rule => rule.ruleId);
+		assert.ok(ids.indexOf(secondId) < ids.indexOf(firstId), 'Should move the rule above the previous one');
+	});
+
+	test('should leave a rule unchanged when its store rejects the update', async () => {
+		const manager = await createWorkspaceManager(new NodeHost({
+			globalStoragePath: fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-memory-')),
+			settings: { storageBackend: 'failing', fallbackToLocal: false }
+		}));
+		manager.registerStore('failing', () => ({
+			id: 'failing',
+			list: async () => [makeRule('stored', 'Original text')],
+			get: async () => undefined,
+			create: async () => undefined,
+			update: async () => {
+				throw new Error('offline');
+			},
+			delete: async () => undefined
+		}));
+		await new Promise(resolve => setTimeout(resolve, 20));
+
+		await assert.rejects(manager.updateRule('stored', { ruleText: 'Edited text' }), /offline/);
+		const rule = (await manager.getRules()).find(r => r.ruleId === 'stored');
+		assert.strictEqual(rule?.ruleText, 'Original text', 'Should keep the stored text in memory');
+	});
+
+	test('should reorder only the rules of the moved rule\'s scope, with one change event', async () => {
+		const languageId = await ruleManager.addRule('Unrelated language rule', 'language', 'go');
+		await ruleManager.addRule('First scoped rule', 'global');
+		await ruleManager.addRule('Second scoped rule', 'global');
+		// Rules added in the same millisecond can be listed in either order
+		const [firstId, secondId] = (await ruleManager.getRules('global')).map(r => r.ruleId);
+		const changes: string[] = [];
+		const subscription = ruleManager.onDidChangeRules(event => changes.push(event.ruleId));
+
+		await ruleManager.moveRule(secondId, -1);
+		subscription.dispose();
+
+		const rules = await ruleManager.getRules();
+		assert.ok(rules.findIndex(r => r.ruleId === secondId) < rules.findIndex(r => r.ruleId === firstId));
+		assert.strictEqual(rules.find(r => r.ruleId === languageId)?.priority, undefined, 'Should not touch other scopes');
+		assert.deepStrictEqual(changes, [secondId]);
+	});
+
+	test('should migrate legacy rules to the Rule shape', async () => {
+		const storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-memory-'));
+		fs.writeFileSync(path.join(storageDir, 'copilot-memory.json'), JSON.stringify([
+			{ id: '1700000000000', text: 'Legacy global rule', scope: 'global', createdAt: '2025-01-01T00:00:00.000Z' }
+		]));
+
+		const legacyManager = new RuleManager(new NodeHost({ globalStoragePath: storageDir }));
+		await legacyManager.initialize();
+
+		const rules = await legacyManager.getRules();
+		assert.strictEqual(rules.length, 1, 'Should load the legacy rule');
+		assert.strictEqual(rules[0].ruleId, '1700000000000');
+		assert.strictEqual(rules[0].ruleText, 'Legacy global rule');
+		assert.strictEqual(rules[0].isActive, true);
+		assert.strictEqual(rules[0].updatedAt.toISOString(), '2025-01-01T00:00:00.000Z');
+
+		const saved = JSON.parse(fs.readFileSync(path.join(storageDir, '.copilot-memory.json'), 'utf8'));
+		assert.strictEqual(saved[0].ruleText, 'Legacy global rule', 'Should persist the migrated rules');
+	});
+
+	test('should tag rules with their layer and prefer the highest-precedence copy', async () => {
+		const workspaceManager = await createWorkspaceManager(new NodeHost({
+			folders: [fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-memory-workspace-'))],
+			globalStoragePath: fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-memory-'))
+		}));
+		const layers = workspaceManager.getRuleLayers();
+		assert.deepStrictEqual(layers, ['workspace', 'user']);
+
+		const lowest = layers[layers.length - 1];
+		const userRuleId = await workspaceManager.addRule('Prefer early returns', 'global', undefined, undefined, lowest);
+		const workspaceRuleId = await workspaceManager.addRule('prefer early returns', 'global', undefined, undefined, layers[0]);
+
+		const matching = (await workspaceManager.getRules('global'))
+			.filter(r => r.ruleText.toLowerCase() === 'prefer early returns');
+		assert.strictEqual(matching.length, 1, 'Should hide the lower-precedence copy');
+		assert.strictEqual(matching[0].ruleId, workspaceRuleId);
+		assert.strictEqual(matching[0].layer, layers[0]);
+
+		await workspaceManager.removeRule(workspaceRuleId);
+		const remaining = (await workspaceManager.getRules('global')).find(r => r.ruleId === userRuleId);
+		assert.strictEqual(remaining?.layer, lowest, 'Should show the lower layer once the override is gone');
+	});
+
+	test('should keep rules with the same text in one layer', async () => {
+		const firstId = await ruleManager.addRule('Duplicate rule text', 'global');
+		const secondId = await ruleManager.addRule('Duplicate rule text', 'global');
+		await ruleManager.setRuleActive(firstId, false);
+
+		const ids = (await ruleManager.getRules('global')).map(r => r.ruleId);
+		assert.ok(ids.includes(firstId) && ids.includes(secondId), 'Should list both rules');
+		assert.ok((await ruleManager.getActiveRulesForContext()).includes('Duplicate rule text'), 'Should apply the active copy');
+		await ruleManager.moveRule(secondId, -1);
+	});
+
+	test('should read the rules of workspace folders opened later', async () => {
+		const [first, second] = [0, 1].map(() => fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-memory-workspace-')));
+		fs.writeFileSync(path.join(second, '.copilot-memory.json'), JSON.stringify([
+			{ ruleId: 'folder-rule', ruleText: 'Rule of the second folder', scope: 'global', isActive: true, createdAt: '2025-01-01T00:00:00.000Z', updatedAt: '2025-01-01T00:00:00.000Z' }
+		]));
+		const host = new NodeHost({ folders: [first], globalStoragePath: fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-memory-')) });
+		const workspaceManager = await createWorkspaceManager(host);
+		const changes: string[] = [];
+		workspaceManager.onDidChangeRules(event => changes.push(`${event.type} ${event.ruleId}`));
+
+		host.updateFolders([second]);
+		await new Promise(resolve => setTimeout(resolve, 50));
+
+		assert.ok((await workspaceManager.getRules('global')).some(r => r.ruleId === 'folder-rule'), 'Should load the new folder rules');
+		assert.deepStrictEqual(changes, ['added folder-rule']);
+
+		host.updateFolders([], [second]);
+		assert.ok(!(await workspaceManager.getRules('global')).some(r => r.ruleId === 'folder-rule'), 'Should drop the closed folder rules');
+	});
+
+	async function createWorkspaceManager(host: NodeHost): Promise<RuleManager> {
+		const manager = new RuleManager(host);
+		await manager.initialize();
+		workspaceManagers.push(manager);
+		return manager;
+	}
+});
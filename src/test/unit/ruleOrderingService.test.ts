@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { Rule } from '../../ruleManager';
+import { composeRules, planRulePriorities, sortRules } from '../../services/ruleOrderingService';
+import { makeRule } from '../ruleFixtures';
+
+suite('Rule Ordering Tests', () => {
+    test('should order by priority, then scope, then age', () => {
+        const rules = [
+            makeRule('a', 'Language rule', 'language', { languageScope: 'typescript' }),
+            makeRule('b', 'Newer global rule', 'global', { createdAt: new Date('2025-02-01T00:00:00.000Z') }),
+            makeRule('c', 'Older global rule', 'global'),
+            makeRule('d', 'Important project rule', 'project', { priority: 5 })
+        ];
+
+        assert.deepStrictEqual(sortRules(rules).map(rule => rule.ruleId), ['d', 'c', 'b', 'a']);
+    });
+
+    test('should keep one copy of rules with the same ID or text', () => {
+        const rules = [
+            makeRule('a', 'Use const', 'global'),
+            makeRule('b', '  use   CONST ', 'language', { languageScope: 'typescript' }),
+            makeRule('a', 'Use const', 'global')
+        ];
+
+        assert.deepStrictEqual(composeRules(rules).map(rule => rule.ruleId), ['a']);
+    });
+
+    test('should leave out global rules superseded by another rule', () => {
+        const rules = [
+            makeRule('tabs', 'Indent with tabs', 'global'),
+            makeRule('const', 'Use const', 'global'),
+            makeRule('yaml', 'Indent with 2 spaces', 'language', { languageScope: 'yaml', supersedes: ['tabs'] })
+        ];
+
+        assert.deepStrictEqual(composeRules(rules).map(rule => rule.ruleId), ['const', 'yaml']);
+    });
+
+    test('should ignore supersedes on global rules', () => {
+        const rules = [
+            makeRule('a', 'Use const', 'global', { supersedes: ['b'] }),
+            makeRule('b', 'Use semicolons', 'global')
+        ];
+
+        assert.strictEqual(composeRules(rules).length, 2);
+    });
+
+    test('should plan priorities only for rules that change', () => {
+        const rules = [
+            makeRule('a', 'First', 'global'),
+            makeRule('b', 'Second', 'global', { priority: 2 }),
+            makeRule('c', 'Third', 'global', { priority: 1 })
+        ];
+
+        assert.deepStrictEqual(Array.from(planRulePriorities(rules)), [['a', 3]]);
+    });
+});
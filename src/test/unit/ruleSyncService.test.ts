@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import { Rule } from '../../ruleManager';
+import { makeRule } from '../ruleFixtures';
+import { planRuleSync } from '../../services/ruleSyncService';
+
+suite('Rule Sync Service Tests', () => {
+    const lastSyncAt = new Date('2024-01-10T00:00:00Z');
+
+    const rule = (ruleId: string, ruleText: string, updatedAt: string, extra: Partial<Rule> = {}): Rule =>
+        makeRule(ruleId, ruleText, 'global', { createdAt: new Date('2024-01-01T00:00:00Z'), updatedAt: new Date(updatedAt), ...extra });
+
+    test('should push local-only rules and pull remote-only rules', () => {
+        const plan = planRuleSync(
+            [rule('local', 'Local rule', '2024-01-11T00:00:00Z')],
+            [rule('remote', 'Remote rule', '2024-01-11T00:00:00Z')],
+            {},
+            lastSyncAt
+        );
+
+        assert.deepStrictEqual(plan.toPush.map(r => r.ruleId), ['local']);
+        assert.deepStrictEqual(plan.toPull.map(r => r.ruleId), ['remote']);
+        assert.strictEqual(plan.merged.length, 2);
+        assert.strictEqual(plan.conflicts, 0);
+    });
+
+    test('should keep the newest copy and count edits on both sides as a conflict', () => {
+        const plan = planRuleSync(
+            [rule('a', 'Edited locally', '2024-01-11T00:00:00Z')],
+            [rule('a', 'Edited remotely', '2024-01-12T00:00:00Z')],
+            {},
+            lastSyncAt
+        );
+
+        assert.strictEqual(plan.conflicts, 1);
+        assert.strictEqual(plan.merged[0].ruleText, 'Edited remotely');
+        assert.strictEqual(plan.toPull.length, 1);
+        assert.strictEqual(plan.toPush.length, 0);
+    });
+
+    test('should not count a one-sided edit as a conflict', () => {
+        const plan = planRuleSync(
+            [rule('a', 'Edited locally', '2024-01-11T00:00:00Z')],
+            [rule('a', 'Original', '2024-01-05T00:00:00Z')],
+            {},
+            lastSyncAt
+        );
+
+        assert.strictEqual(plan.conflicts, 0);
+        assert.deepStrictEqual(plan.toPush.map(r => r.ruleText), ['Edited locally']);
+    });
+
+    test('should propagate trashed rules as normal changes', () => {
+        const deletedAt = new Date('2024-01-11T00:00:00Z');
+        const plan = planRuleSync(
+            [rule('a', 'Rule', '2024-01-11T00:00:00Z', { deletedAt })],
+            [rule('a', 'Rule', '2024-01-05T00:00:00Z')],
+            {},
+            lastSyncAt
+        );
+
+        assert.strictEqual(plan.toPush[0].deletedAt, deletedAt);
+    });
+
+    test('should drop permanently deleted rules using tombstones and the last sync time', () => {
+        const plan = planRuleSync(
+            [rule('deletedRemotely', 'Old rule', '2024-01-05T00:00:00Z')],
+            [rule('deletedLocally', 'Old rule', '2024-01-05T00:00:00Z')],
+            { deletedLocally: '2024-01-11T00:00:00Z' },
+            lastSyncAt
+        );
+
+        assert.deepStrictEqual(plan.removeLocal, ['deletedRemotely']);
+        assert.deepStrictEqual(plan.removeRemote, ['deletedLocally']);
+        assert.strictEqual(plan.merged.length, 0);
+    });
+
+    test('should push every local rule on the first sync', () => {
+        const plan = planRuleSync([rule('a', 'Rule', '2024-01-05T00:00:00Z')], [], {});
+
+        assert.deepStrictEqual(plan.toPush.map(r => r.ruleId), ['a']);
+    });
+});
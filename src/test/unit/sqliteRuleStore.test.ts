@@ -0,0 +1,124 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as initSqlJs from 'sql.js';
+import { Rule } from '../../ruleManager';
+import { SqliteRuleStore } from '../../stores/sqliteRuleStore';
+import { updateRules, upsertRule } from '../../stores/ruleStore';
+import { makeRule } from '../ruleFixtures';
+
+suite('SQLite Rule Store Tests', () => {
+    let filePath: string;
+
+    const rule = (ruleId: string, ruleText: string): Rule => makeRule(ruleId, ruleText, 'language', { languageScope: 'typescript' });
+
+    setup(() => {
+        filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-memory-sqlite-')), 'rules.sqlite');
+    });
+
+    test('should persist rules to the database file', async () => {
+        const store = new SqliteRuleStore(filePath);
+        await store.initialize();
+        await store.create(rule('a', 'Use strict types'));
+        store.dispose();
+
+        const reopened = new SqliteRuleStore(filePath);
+        await reopened.initialize();
+        const rules = await reopened.list();
+        reopened.dispose();
+
+        assert.strictEqual(rules.length, 1);
+        assert.strictEqual(rules[0].ruleText, 'Use strict types');
+        assert.strictEqual(rules[0].languageScope, 'typescript');
+        assert.strictEqual(rules[0].isActive, true);
+        assert.ok(rules[0].createdAt instanceof Date);
+        assert.strictEqual(rules[0].deletedAt, undefined);
+    });
+
+    test('should update, clear and delete fields', async () => {
+        const store = new SqliteRuleStore(filePath);
+        await store.initialize();
+        await store.create(rule('a', 'First'));
+        await store.create(rule('b', 'Second'));
+
+        await store.update('a', { ruleText: 'Edited', isActive: false, languageScope: undefined, deletedAt: new Date() });
+        const updated = await store.get('a');
+        assert.strictEqual(updated?.ruleText, 'Edited');
+        assert.strictEqual(updated?.isActive, false);
+        assert.strictEqual(updated?.languageScope, undefined);
+        assert.ok(updated?.deletedAt instanceof Date);
+
+        await store.delete(['b']);
+        assert.deepStrictEqual((await store.list()).map(r => r.ruleId), ['a']);
+        store.dispose();
+    });
+
+    test('should store glob patterns of path rules', async () => {
+        const store = new SqliteRuleStore(filePath);
+        await store.initialize();
+        await store.create({ ...rule('a', 'Validate inputs'), scope: 'path', languageScope: undefined, pathPatterns: ['src/server/**'] });
+
+        assert.deepStrictEqual((await store.get('a'))?.pathPatterns, ['src/server/**']);
+        await store.update('a', { scope: 'global', pathPatterns: undefined });
+        assert.strictEqual((await store.get('a'))?.pathPatterns, undefined);
+        store.dispose();
+    });
+
+    test('should upsert existing and new rules', async () => {
+        const store = new SqliteRuleStore(filePath);
+        await store.initialize();
+        await store.create(rule('a', 'First'));
+
+        await upsertRule(store, { ...rule('a', 'Replaced'), scope: 'global', languageScope: undefined });
+        await upsertRule(store, rule('b', 'New'));
+
+        const a = await store.get('a');
+        assert.strictEqual(a?.ruleText, 'Replaced');
+        assert.strictEqual(a?.scope, 'global');
+        assert.strictEqual(a?.languageScope, undefined);
+        assert.strictEqual((await store.list()).length, 2);
+        store.dispose();
+    });
+
+    test('should update several rules with one write', async () => {
+        const store = new SqliteRuleStore(filePath);
+        await store.initialize();
+        await store.create(rule('a', 'First'));
+        await store.create(rule('b', 'Second'));
+
+        await updateRules(store, new Map([['a', { priority: 1 }], ['b', { priority: 2 }]]));
+        store.dispose();
+
+        const reopened = new SqliteRuleStore(filePath);
+        await reopened.initialize();
+        assert.deepStrictEqual((await reopened.list()).map(r => r.priority).sort(), [1, 2]);
+        reopened.dispose();
+    });
+
+    test('should reload a file of an older release written by another process', async () => {
+        const store = new SqliteRuleStore(filePath);
+        await store.initialize();
+        const reloaded = new Promise<void>(resolve => {
+            const watcher = store.watch(() => {
+                watcher.dispose();
+                resolve();
+            });
+        });
+
+        // The first release had no path patterns, custom scopes, conditions, priorities or supersedes
+        const sql = await initSqlJs();
+        const db = new sql.Database();
+        db.run(`CREATE TABLE rules (ruleId TEXT PRIMARY KEY, ruleText TEXT NOT NULL, scope TEXT NOT NULL, languageScope TEXT,
+            projectPath TEXT, createdAt TEXT NOT NULL, updatedAt TEXT NOT NULL, isActive INTEGER NOT NULL DEFAULT 1, deletedAt TEXT)`);
+        db.run(`INSERT INTO rules VALUES ('a', 'Use const', 'global', NULL, NULL, '2024-01-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z', 1, NULL)`);
+        fs.writeFileSync(filePath, db.export());
+        db.close();
+
+        await reloaded;
+        const rules = await store.list();
+        store.dispose();
+
+        assert.deepStrictEqual(rules.map(r => [r.ruleId, r.ruleText, r.pathPatterns]), [['a', 'Use const', undefined]]);
+    });
+});
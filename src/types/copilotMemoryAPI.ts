@@ -24,15 +24,101 @@ import * as vscode from 'vscode';
  * ```
  */
 
+/**
+ * Where a rule is stored: the workspace, a shared team file or database, or the user's global storage.
+ * When the same rule is in more than one layer, workspace wins over team, and team over user.
+ */
+export type RuleLayer = 'workspace' | 'team' | 'user';
+
+/**
+ * Where a rule applies: everywhere, one workspace folder, one language, files matching glob patterns,
+ * or wherever a custom scope registered by an extension matches
+ */
+export type RuleScope = 'global' | 'project' | 'language' | 'path' | 'custom';
+
 export interface Rule {
     ruleId: string;
     ruleText: string;
-    scope: 'global' | 'project' | 'language';
+    scope: RuleScope;
     languageScope?: string;
     projectPath?: string;
+    /** Glob patterns, relative to the workspace folder, for path-scoped rules */
+    pathPatterns?: string[];
+    /** Name of a registered custom scope, for custom-scoped rules */
+    customScope?: string;
+    /** When-clause that must also hold for the rule to apply, e.g. `workspaceContains:package.json` */
+    condition?: string;
+    /** Higher priorities come first when rules are composed into a prompt; unset counts as 0 */
+    priority?: number;
+    /** IDs of global rules this non-global rule replaces wherever it applies */
+    supersedes?: string[];
     createdAt: Date;
     updatedAt: Date;
     isActive: boolean;
+    deletedAt?: Date;
+    layer?: RuleLayer;
+}
+
+/**
+ * Storage backend for rules. A store keeps every rule, including rules in the trash.
+ */
+export interface RuleStore {
+    readonly id: string;
+    initialize?(): Promise<void>;
+    isAvailable?(): boolean;
+    onDidBecomeAvailable?: vscode.Event<void>;
+    list(): Promise<Rule[]>;
+    get(ruleId: string): Promise<Rule | undefined>;
+    create(rule: Rule): Promise<void>;
+    /** Fields set to undefined are cleared */
+    update(ruleId: string, updates: Partial<Rule>): Promise<void>;
+    /** Apply changes to several rules in one write; without it update is called for each rule */
+    updateMany?(updates: Map<string, Partial<Rule>>): Promise<void>;
+    /** Permanently delete rules */
+    delete(ruleIds: string[]): Promise<void>;
+    watch?(listener: () => void): vscode.Disposable;
+    dispose?(): void | Promise<void>;
+}
+
+export type RuleStoreFactory = () => RuleStore | Promise<RuleStore>;
+
+export type RuleRevisionAction = 'created' | 'updated' | 'activated' | 'deactivated' | 'deleted' | 'restored';
+
+export interface RuleRevision {
+    revisionId: string;
+    ruleId: string;
+    action: RuleRevisionAction;
+    ruleText: string;
+    scope: RuleScope;
+    languageScope?: string;
+    projectPath?: string;
+    pathPatterns?: string[];
+    customScope?: string;
+    condition?: string;
+    priority?: number;
+    supersedes?: string[];
+    isActive: boolean;
+    author: string;
+    createdAt: Date;
+}
+
+export type RuleImportMode = 'merge' | 'replace' | 'skip-duplicates';
+
+export interface RuleImportSummary {
+    added: number;
+    updated: number;
+    unchanged: number;
+    skipped: number;
+    removed: number;
+}
+
+export interface ComposedRules {
+    rules: Rule[];
+    droppedRules: Rule[];
+    /** Estimated tokens of the chosen rules */
+    tokenCount: number;
+    /** Budget the rules were fitted to; 0 means no limit */
+    tokenBudget: number;
 }
 
 export type RuleChangeEventType = 'added' | 'removed' | 'updated' | 'activated' | 'deactivated';
@@ -44,6 +130,10 @@ export interface RuleChangeEvent {
     timestamp: Date;
 }
 
+/**
+ * Decides whether rules with a custom scope apply. projectPath is the workspace folder
+ * containing the file; workspaceRoot is the first workspace folder.
+ */
 export type CustomScopeValidator = (context: {
     languageId?: string;
     projectPath?: string;
@@ -59,7 +149,7 @@ export interface CopilotMemoryAPI {
      * Add a new rule programmatically
      *
      * @param ruleText - The rule text (max 500 characters)
-     * @param scope - Rule scope: 'global', 'project', or 'language'
+     * @param scope - Rule scope: 'global', 'project', 'language', 'path' or 'custom'
      * @param options - Additional options
      * @returns Promise resolving to the new rule ID
      *
@@ -68,14 +158,28 @@ export interface CopilotMemoryAPI {
      * const ruleId = await api.addRule(
      *   'Always use const instead of let',
      *   'language',
-     *   { languageScope: 'typescript' }
+     *   { languageScope: 'typescript', layer: 'user' }
      * );
+     *
+     * // Only for files under src/server
+     * await api.addRule('Validate request bodies', 'path', { pathPatterns: ['src/server/**'] });
      * ```
      */
-    addRule(ruleText: string, scope: 'global' | 'project' | 'language', options?: {
+    addRule(ruleText: string, scope: RuleScope, options?: {
         languageScope?: string;
         projectPath?: string;
+        /** Required for path scope */
+        pathPatterns?: string[];
+        /** Required for custom scope; must be registered with registerCustomScope */
+        customScope?: string;
+        /** When-clause such as `languageId == typescript && path =~ /src\/server/` */
+        condition?: string;
+        /** Higher priorities come first in prompts */
+        priority?: number;
+        /** IDs of global rules to leave out wherever this rule applies; not allowed for global rules */
+        supersedes?: string[];
         isActive?: boolean;
+        layer?: RuleLayer;
     }): Promise<string>;
 
     /**
@@ -86,6 +190,66 @@ export interface CopilotMemoryAPI {
      */
     removeRule(ruleId: string): Promise<boolean>;
 
+    /**
+     * Update an existing rule
+     *
+     * @param ruleId - The rule ID to update
+     * @param updates - Fields to change (ruleText, scope, languageScope, projectPath, pathPatterns, customScope, condition, priority, supersedes, isActive)
+     * @returns Promise resolving to true if updated, false if not found
+     *
+     * @example
+     * ```typescript
+     * await api.updateRule(ruleId, { ruleText: 'Prefer const over let' });
+     * ```
+     */
+    updateRule(ruleId: string, updates: Partial<Pick<Rule, 'ruleText' | 'scope' | 'languageScope' | 'projectPath' | 'pathPatterns' | 'customScope' | 'condition' | 'priority' | 'supersedes' | 'isActive'>>): Promise<boolean>;
+
+    /**
+     * Activate or deactivate a rule without removing it
+     *
+     * @param ruleId - The rule ID to change
+     * @param isActive - True to activate, false to deactivate
+     * @returns Promise resolving to true if changed, false if not found
+     */
+    setRuleActive(ruleId: string, isActive: boolean): Promise<boolean>;
+
+    /**
+     * Get the revision history of a rule
+     *
+     * @param ruleId - The rule ID
+     * @returns Promise resolving to revisions, newest first
+     *
+     * @example
+     * ```typescript
+     * const [latest, previous] = await api.getRuleHistory(ruleId);
+     * console.log(`${latest.author} changed "${previous?.ruleText}" to "${latest.ruleText}"`);
+     * ```
+     */
+    getRuleHistory(ruleId: string): Promise<RuleRevision[]>;
+
+    /**
+     * Import rules from an export file's contents
+     *
+     * Accepts the `{ exportedAt, totalRules, rules }` export format or a bare array of rules.
+     * Rules are matched by ruleId, then by normalized rule text.
+     *
+     * @param data - Parsed JSON or JSON text
+     * @param options - mode: 'merge' (default), 'replace' or 'skip-duplicates'; dryRun: only report what would change
+     * @returns Promise resolving to counts of added, updated, unchanged, skipped and removed rules
+     *
+     * @example
+     * ```typescript
+     * const preview = await api.importRules(teamRulesJson, { mode: 'merge', dryRun: true });
+     * if (preview.added + preview.updated > 0) {
+     *   await api.importRules(teamRulesJson, { mode: 'merge' });
+     * }
+     * ```
+     */
+    importRules(data: string | object, options?: {
+        mode?: RuleImportMode;
+        dryRun?: boolean;
+    }): Promise<RuleImportSummary>;
+
     /**
      * Get all rules matching criteria
      *
@@ -105,35 +269,96 @@ export interface CopilotMemoryAPI {
      * ```
      */
     getRules(filters?: {
-        scope?: 'global' | 'project' | 'language';
+        scope?: RuleScope;
         languageId?: string;
         projectPath?: string;
         isActive?: boolean;
+        layer?: RuleLayer;
     }): Promise<Rule[]>;
 
+    /**
+     * Get the layers rules can be added to, highest precedence first
+     *
+     * The team layer is only present when copilotMemory.teamRulesSource is set.
+     */
+    getRuleLayers(): RuleLayer[];
+
     /**
      * Get active rules for current context
      *
      * @param languageId - Optional language ID to filter by
-     * @returns Promise resolving to array of rule texts
+     * @param documentUri - Document that selects project, path and custom rules (defaults to the active document)
+     * @returns Promise resolving to rule texts in priority order, without duplicates or superseded global rules
+     */
+    getActiveRulesForContext(languageId?: string, documentUri?: vscode.Uri): Promise<string[]>;
+
+    /**
+     * Get the rules for a prompt within a token budget. Rules are kept by priority and then by
+     * relevance to the document; the rest are reported in droppedRules.
+     *
+     * @param options - Document to compose for (defaults to the active document) and a token budget
+     *                  (defaults to copilotMemory.promptTokenBudget; 0 means no limit)
+     * @returns Promise resolving to the chosen rules in prompt order and the dropped rules
+     *
+     * @example
+     * ```typescript
+     * const { rules, droppedRules } = await api.composeRules({ tokenBudget: 500 });
+     * ```
      */
-    getActiveRulesForContext(languageId?: string): Promise<string[]>;
+    composeRules(options?: {
+        languageId?: string;
+        documentUri?: vscode.Uri;
+        tokenBudget?: number;
+    }): Promise<ComposedRules>;
 
     /**
      * Register a custom rule scope
      *
+     * Rules added with scope 'custom' and this customScope name apply when the validator returns true.
+     * Pass your extension ID so that, if your extension is uninstalled, its rules are shown as inactive
+     * with the reason.
+     *
      * @param scopeName - Unique name for the custom scope
      * @param validator - Function to validate if scope applies to context
+     * @param options - extensionId: your extension's ID; description: shown when picking the scope
+     * @returns Disposable to unregister the scope
      *
      * @example
      * ```typescript
-     * api.registerCustomScope('test-files', (context) => {
+     * context.subscriptions.push(api.registerCustomScope('test-files', (context) => {
      *   return context.filePath?.includes('.test.') ||
      *          context.filePath?.includes('.spec.');
-     * });
+     * }, { extensionId: 'my-publisher.my-extension' }));
+     *
+     * await api.addRule('Use describe/it blocks', 'custom', { customScope: 'test-files' });
      * ```
      */
-    registerCustomScope(scopeName: string, validator: CustomScopeValidator): void;
+    registerCustomScope(scopeName: string, validator: CustomScopeValidator, options?: {
+        extensionId?: string;
+        description?: string;
+    }): vscode.Disposable;
+
+    /**
+     * Register a rule storage backend
+     *
+     * Users select it by setting `copilotMemory.storageBackend` to the store ID.
+     * If that setting already names the store, rules are reloaded from it right away.
+     *
+     * @param id - Unique store ID (cannot be auto, json, mongodb or sqlite)
+     * @param factory - Creates the store; its initialize() is awaited before use
+     * @returns Disposable to unregister the store
+     *
+     * @example
+     * ```typescript
+     * context.subscriptions.push(api.registerRuleStore('redis', () => new RedisRuleStore(client)));
+     * ```
+     */
+    registerRuleStore(id: string, factory: RuleStoreFactory): vscode.Disposable;
+
+    /**
+     * Get the ID of the rule store in use, e.g. 'json', 'mongodb' or 'sqlite'
+     */
+    getStorageBackend(): string;
 
     /**
      * Subscribe to rule changes
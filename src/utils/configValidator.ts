@@ -1,5 +1,6 @@
-import * as vscode from 'vscode';
 import { Logger } from '../utils/logger';
+import { Disposable } from '../utils/events';
+import { ConfigurationAdapter, RuleHost, getHost } from '../core/host';
 
 /**
  * Configuration validation schema for Copilot Memory extension
@@ -13,6 +14,13 @@ export interface ExtensionConfig {
     logLevel: 'info' | 'warn' | 'error';
     connectionTimeoutMs: number;
     retryAttempts: number;
+    trashRetentionDays: number;
+    storageBackend: string;
+    teamRulesSource: string;
+    promptTokenBudget: number;
+    enableMcpServer: boolean;
+    mcpServerPort: number;
+    completionStrategy: 'instructionsFile' | 'inlineCompletions' | 'off';
 }
 
 /**
@@ -26,7 +34,14 @@ export const DEFAULT_CONFIG: ExtensionConfig = {
     syncIntervalMinutes: 30,
     logLevel: 'info',
     connectionTimeoutMs: 10000,
-    retryAttempts: 3
+    retryAttempts: 3,
+    trashRetentionDays: 30,
+    storageBackend: 'auto',
+    teamRulesSource: '',
+    promptTokenBudget: 2000,
+    enableMcpServer: false,
+    mcpServerPort: 3917,
+    completionStrategy: 'off'
 };
 
 /**
@@ -80,6 +95,48 @@ const VALIDATION_RULES = {
         min: 0,
         max: 10,
         message: 'retryAttempts must be a number between 0 and 10'
+    },
+    trashRetentionDays: {
+        required: false,
+        type: 'number',
+        min: 1,
+        max: 365,
+        message: 'trashRetentionDays must be a number between 1 and 365'
+    },
+    storageBackend: {
+        required: false,
+        type: 'string',
+        pattern: /^[\w.-]+$/,
+        message: 'storageBackend must be auto, json, mongodb, sqlite or the ID of a registered rule store'
+    },
+    teamRulesSource: {
+        required: false,
+        type: 'string',
+        message: 'teamRulesSource must be a path to a rules file or a MongoDB connection string'
+    },
+    promptTokenBudget: {
+        required: false,
+        type: 'number',
+        min: 0,
+        max: 100000,
+        message: 'promptTokenBudget must be a number between 0 (no limit) and 100000'
+    },
+    enableMcpServer: {
+        required: false,
+        type: 'boolean',
+        message: 'enableMcpServer must be a boolean value'
+    },
+    mcpServerPort: {
+        required: false,
+        type: 'number',
+        min: 1024,
+        max: 65535,
+        message: 'mcpServerPort must be a number between 1024 and 65535'
+    },
+    completionStrategy: {
+        required: false,
+        enum: ['instructionsFile', 'inlineCompletions', 'off'],
+        message: 'completionStrategy must be one of: instructionsFile, inlineCompletions, off'
     }
 };
 
@@ -106,17 +163,16 @@ export interface ValidationResult {
  */
 export class ConfigValidator {
     /**
-     * Validate the current VS Code configuration
+     * Validate the host's current settings
      */
-    public static validateCurrentConfig(): ValidationResult {
-        const config = vscode.workspace.getConfiguration('copilotMemory');
-        return this.validateConfig(config);
+    public static validateCurrentConfig(host: RuleHost = getHost()): ValidationResult {
+        return this.validateConfig(host.configuration);
     }
 
     /**
      * Validate configuration object
      */
-    public static validateConfig(config: vscode.WorkspaceConfiguration): ValidationResult {
+    public static validateConfig(config: Pick<ConfigurationAdapter, 'get'>): ValidationResult {
         const errors: ValidationError[] = [];
         const validatedConfig: Partial<ExtensionConfig> = {};
 
@@ -237,7 +293,7 @@ export class ConfigValidator {
     /**
      * Show validation errors to the user
      */
-    public static showValidationErrors(errors: ValidationError[]): void {
+    public static showValidationErrors(errors: ValidationError[], host: RuleHost = getHost()): void {
         if (errors.length === 0) {
             return;
         }
@@ -248,11 +304,7 @@ export class ConfigValidator {
 
         const message = `Copilot Memory configuration errors:\n\n${errorMessages}\n\nPlease check your settings and try again.`;
 
-        vscode.window.showErrorMessage(message, 'Open Settings').then(selection => {
-            if (selection === 'Open Settings') {
-                vscode.commands.executeCommand('workbench.action.openSettings', 'copilotMemory');
-            }
-        });
+        host.showConfigurationErrors?.(message);
 
         Logger.error('Configuration validation failed', new Error(errorMessages));
     }
@@ -260,12 +312,12 @@ export class ConfigValidator {
     /**
      * Get a safe, validated configuration
      */
-    public static getSafeConfig(): ExtensionConfig {
-        const validation = this.validateCurrentConfig();
+    public static getSafeConfig(host: RuleHost = getHost()): ExtensionConfig {
+        const validation = this.validateCurrentConfig(host);
 
         if (!validation.isValid) {
             Logger.warn('Configuration validation failed, using safe defaults');
-            this.showValidationErrors(validation.errors);
+            this.showValidationErrors(validation.errors, host);
         }
 
         return validation.config;
@@ -274,20 +326,22 @@ export class ConfigValidator {
     /**
      * Watch for configuration changes and validate them
      */
-    public static startConfigWatcher(context: vscode.ExtensionContext): void {
-        const disposable = vscode.workspace.onDidChangeConfiguration(event => {
-            if (event.affectsConfiguration('copilotMemory')) {
+    public static startConfigWatcher(host: RuleHost = getHost()): Disposable {
+        if (!host.configuration.onDidChange) {
+            return { dispose: () => undefined };
+        }
+
+        return host.configuration.onDidChange(event => {
+            if (event.affects('')) {
                 Logger.info('Configuration changed, validating...');
-                const validation = this.validateCurrentConfig();
+                const validation = this.validateCurrentConfig(host);
 
                 if (!validation.isValid) {
-                    this.showValidationErrors(validation.errors);
+                    this.showValidationErrors(validation.errors, host);
                 } else {
                     Logger.info('Configuration validated successfully');
                 }
             }
         });
-
-        context.subscriptions.push(disposable);
     }
 }
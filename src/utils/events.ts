@@ -0,0 +1,32 @@
+/**
+ * Minimal events and disposables without the vscode module, so the storage layer also runs
+ * outside the editor. They are compatible with vscode.Event and vscode.Disposable.
+ */
+
+export interface Disposable {
+    dispose(): void;
+}
+
+export type Event<T> = (listener: (event: T) => unknown) => Disposable;
+
+/**
+ * Fires events to its listeners, like vscode.EventEmitter
+ */
+export class Emitter<T> {
+    private listeners = new Set<(event: T) => unknown>();
+
+    readonly event: Event<T> = listener => {
+        this.listeners.add(listener);
+        return { dispose: () => this.listeners.delete(listener) };
+    };
+
+    fire(event: T): void {
+        for (const listener of Array.from(this.listeners)) {
+            listener(event);
+        }
+    }
+
+    dispose(): void {
+        this.listeners.clear();
+    }
+}
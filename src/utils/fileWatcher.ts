@@ -0,0 +1,46 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Disposable } from './events';
+import { Logger } from './logger';
+
+/** Writes often arrive as several change events; they are reported once */
+const DEBOUNCE_MS = 100;
+
+/**
+ * Call the listener when a file is created or changed. The folder is watched, so the file
+ * does not have to exist yet.
+ */
+export function watchFile(filePath: string, listener: () => void): Disposable {
+    const fileName = path.basename(filePath);
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+        const watcher = fs.watch(path.dirname(filePath), { persistent: false }, (_event, changed) => {
+            if (changed && changed.toString() !== fileName) {
+                return;
+            }
+            if (timer) {
+                clearTimeout(timer);
+            }
+            timer = setTimeout(() => {
+                timer = undefined;
+                if (fs.existsSync(filePath)) {
+                    listener();
+                }
+            }, DEBOUNCE_MS);
+        });
+        watcher.on('error', error => Logger.warn(`Stopped watching ${filePath}: ${error.message}`));
+
+        return {
+            dispose: () => {
+                if (timer) {
+                    clearTimeout(timer);
+                }
+                watcher.close();
+            }
+        };
+    } catch (error) {
+        Logger.warn(`Cannot watch ${filePath}: ${(error as Error).message}`);
+        return { dispose: () => undefined };
+    }
+}
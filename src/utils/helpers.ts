@@ -1,23 +1,21 @@
 import * as vscode from 'vscode';
+import { validateCondition } from './ruleCondition';
+
+export { validateRuleText, sanitizeInput, validateGlobPattern, validateNewRule } from './validation';
+export {
+    getCurrentLanguageId,
+    getLanguageIdForPath,
+    getWorkspaceFolder,
+    getWorkspaceRoot,
+    globToRegExp,
+    getRelativePath,
+    matchesPathPatterns
+} from './workspacePaths';
 
 /**
  * Utility functions for the Copilot Memory extension
  */
 
-/**
- * Get the current active document's language ID
- */
-export function getCurrentLanguageId(): string | undefined {
-    return vscode.window.activeTextEditor?.document.languageId;
-}
-
-/**
- * Get the current workspace root path
- */
-export function getWorkspaceRoot(): string | undefined {
-    return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-}
-
 /**
  * Show an error message with optional actions
  */
@@ -39,23 +37,16 @@ export async function showInformationMessage(
 }
 
 /**
- * Validate rule text input
- */
-export function validateRuleText(text: string): { isValid: boolean; error?: string } {
-    if (!text || text.trim().length === 0) {
-        return { isValid: false, error: 'Rule text cannot be empty' };
-    }
-
-    if (text.length > 500) {
-        return { isValid: false, error: 'Rule text must be less than 500 characters' };
-    }
-
-    return { isValid: true };
-}
-
-/**
- * Sanitize user input
+ * Ask for a rule's when-clause condition. Resolves to '' when the input is left empty,
+ * or undefined when it is cancelled.
  */
-export function sanitizeInput(input: string): string {
-    return input.trim().replace(/\s+/g, ' ');
+export async function showConditionInputBox(value?: string): Promise<string | undefined> {
+    const condition = await vscode.window.showInputBox({
+        prompt: 'Condition for the rule to apply (leave empty to always apply)',
+        placeHolder: 'e.g. languageId == typescript && path =~ /src\\/server/, workspaceContains:package.json',
+        value,
+        validateInput: (input: string) => input.trim().length === 0 ? undefined : validateCondition(input).error
+    });
+
+    return condition === undefined ? undefined : condition.trim();
 }
@@ -1,10 +1,26 @@
-import * as vscode from 'vscode';
+/**
+ * Where log lines are written besides the console, such as the VS Code output channel
+ */
+export interface LogOutput {
+    appendLine(value: string): void;
+    show?(): void;
+    clear?(): void;
+}
 
 /**
  * Logger utility for the Copilot Memory extension
  */
 export class Logger {
-    private static readonly outputChannel = vscode.window.createOutputChannel('Copilot Memory');
+    private static output: LogOutput | undefined;
+    private static logToConsole = true;
+
+    /**
+     * Send log lines to an output, and choose whether they also go to the console
+     */
+    static setOutput(output: LogOutput | undefined, logToConsole = true): void {
+        this.output = output;
+        this.logToConsole = logToConsole;
+    }
 
     /**
      * Log an informational message
@@ -12,8 +28,10 @@ export class Logger {
     static info(message: string, ...args: any[]): void {
         const timestamp = new Date().toISOString();
         const formattedMessage = `[${timestamp}] INFO: ${message}`;
-        console.log(formattedMessage, ...args);
-        this.outputChannel.appendLine(formattedMessage);
+        if (this.logToConsole) {
+            console.log(formattedMessage, ...args);
+        }
+        this.output?.appendLine(formattedMessage);
     }
 
     /**
@@ -22,8 +40,10 @@ export class Logger {
     static warn(message: string, ...args: any[]): void {
         const timestamp = new Date().toISOString();
         const formattedMessage = `[${timestamp}] WARN: ${message}`;
-        console.warn(formattedMessage, ...args);
-        this.outputChannel.appendLine(formattedMessage);
+        if (this.logToConsole) {
+            console.warn(formattedMessage, ...args);
+        }
+        this.output?.appendLine(formattedMessage);
     }
 
     /**
@@ -32,10 +52,12 @@ export class Logger {
     static error(message: string, error?: Error, ...args: any[]): void {
         const timestamp = new Date().toISOString();
         const formattedMessage = `[${timestamp}] ERROR: ${message}`;
-        console.error(formattedMessage, error, ...args);
-        this.outputChannel.appendLine(formattedMessage);
+        if (this.logToConsole) {
+            console.error(formattedMessage, error, ...args);
+        }
+        this.output?.appendLine(formattedMessage);
         if (error) {
-            this.outputChannel.appendLine(`Stack: ${error.stack}`);
+            this.output?.appendLine(`Stack: ${error.stack}`);
         }
     }
 
@@ -43,13 +65,13 @@ export class Logger {
      * Show the output channel
      */
     static show(): void {
-        this.outputChannel.show();
+        this.output?.show?.();
     }
 
     /**
      * Clear the output channel
      */
     static clear(): void {
-        this.outputChannel.clear();
+        this.output?.clear?.();
     }
 }
@@ -0,0 +1,283 @@
+/**
+ * When-clause conditions that decide whether a rule applies, for example
+ * `languageId == typescript && path =~ /src\/server/` or `workspaceContains:package.json`.
+ *
+ * Expressions are parsed into a small tree and evaluated against a context; nothing is
+ * passed to eval, and file system checks are only made for the branches that are reached.
+ */
+
+/**
+ * Values a condition can compare
+ */
+export const CONDITION_KEYS = ['languageId', 'path', 'fileName'] as const;
+export type ConditionKey = typeof CONDITION_KEYS[number];
+
+/**
+ * Checks that take an argument after a colon, e.g. `fileContains:"from 'react'"`
+ */
+export const CONDITION_FUNCTIONS = ['workspaceContains', 'fileContains'] as const;
+export type ConditionFunction = typeof CONDITION_FUNCTIONS[number];
+
+/**
+ * What a condition is evaluated against
+ */
+export interface RuleConditionContext {
+    languageId?: string;
+    /** Path of the document relative to its workspace folder, with forward slashes */
+    path?: string;
+    /** Whether a file matching the glob exists in the document's workspace folder */
+    workspaceContains(pattern: string): Promise<boolean>;
+    /** Whether the document's text contains the string */
+    fileContains(text: string): Promise<boolean>;
+}
+
+export type ConditionNode =
+    | { kind: 'and' | 'or'; left: ConditionNode; right: ConditionNode }
+    | { kind: 'not'; operand: ConditionNode }
+    | { kind: 'compare'; key: ConditionKey; operator: '==' | '!='; value: string }
+    | { kind: 'match'; key: ConditionKey; pattern: RegExp }
+    | { kind: 'defined'; key: ConditionKey }
+    | { kind: 'call'; name: ConditionFunction; argument: string };
+
+type TokenType = '(' | ')' | '!' | '&&' | '||' | '==' | '!=' | '=~' | ':' | 'word' | 'string' | 'regex';
+
+interface Token {
+    type: TokenType;
+    value: string;
+    position: number;
+    pattern?: RegExp;
+}
+
+const OPERATORS: TokenType[] = ['&&', '||', '==', '!=', '=~', '(', ')', '!', ':'];
+const WORD_BOUNDARY = /[\s()!&|=:"']/;
+const REGEX_FLAGS = /^[imsu]*$/;
+
+/**
+ * Parse a condition expression, throwing an Error that names the problem and its position
+ */
+export function parseCondition(expression: string): ConditionNode {
+    const tokens = tokenize(expression);
+    if (tokens.length === 0) {
+        throw new Error('Condition cannot be empty');
+    }
+
+    let index = 0;
+    const peek = (): Token | undefined => tokens[index];
+    const next = (): Token | undefined => tokens[index++];
+    const fail = (message: string, token?: Token): never => {
+        throw new Error(`${message} at position ${(token?.position ?? expression.length) + 1}`);
+    };
+
+    const parseOr = (): ConditionNode => {
+        let left = parseAnd();
+        while (peek()?.type === '||') {
+            next();
+            left = { kind: 'or', left, right: parseAnd() };
+        }
+        return left;
+    };
+
+    const parseAnd = (): ConditionNode => {
+        let left = parseUnary();
+        while (peek()?.type === '&&') {
+            next();
+            left = { kind: 'and', left, right: parseUnary() };
+        }
+        return left;
+    };
+
+    const parseUnary = (): ConditionNode => {
+        if (peek()?.type === '!') {
+            next();
+            return { kind: 'not', operand: parseUnary() };
+        }
+        return parsePrimary();
+    };
+
+    const parsePrimary = (): ConditionNode => {
+        const token = next();
+        if (!token) {
+            return fail('Unexpected end of condition');
+        }
+
+        if (token.type === '(') {
+            const node = parseOr();
+            if (next()?.type !== ')') {
+                fail('Expected ")"', tokens[index - 1]);
+            }
+            return node;
+        }
+
+        if (token.type !== 'word') {
+            return fail(`Unexpected "${token.value}"`, token);
+        }
+
+        if ((CONDITION_FUNCTIONS as readonly string[]).includes(token.value)) {
+            if (next()?.type !== ':') {
+                fail(`Expected ":" after ${token.value}`, tokens[index - 1]);
+            }
+            const argument = next();
+            if (!argument || (argument.type !== 'word' && argument.type !== 'string') || argument.value.length === 0) {
+                return fail(`Expected a value after ${token.value}:`, argument);
+            }
+            return { kind: 'call', name: token.value as ConditionFunction, argument: argument.value };
+        }
+
+        if (!(CONDITION_KEYS as readonly string[]).includes(token.value)) {
+            return fail(`Unknown key "${token.value}" (use ${[...CONDITION_KEYS, ...CONDITION_FUNCTIONS].join(', ')})`, token);
+        }
+        const key = token.value as ConditionKey;
+
+        const operator = peek();
+        if (operator?.type === '==' || operator?.type === '!=') {
+            next();
+            const value = next();
+            if (!value || (value.type !== 'word' && value.type !== 'string')) {
+                return fail(`Expected a value after ${operator.type}`, value);
+            }
+            return { kind: 'compare', key, operator: operator.type, value: value.value };
+        }
+
+        if (operator?.type === '=~') {
+            next();
+            const value = next();
+            if (value?.type !== 'regex') {
+                return fail('Expected a /regular expression/ after =~', value);
+            }
+            return { kind: 'match', key, pattern: value.pattern! };
+        }
+
+        return { kind: 'defined', key };
+    };
+
+    const node = parseOr();
+    if (index < tokens.length) {
+        fail(`Unexpected "${tokens[index].value}"`, tokens[index]);
+    }
+    return node;
+}
+
+/**
+ * Validate a condition expression
+ */
+export function validateCondition(expression: string): { isValid: boolean; error?: string } {
+    try {
+        parseCondition(expression);
+        return { isValid: true };
+    } catch (error) {
+        return { isValid: false, error: `Invalid condition: ${(error as Error).message}` };
+    }
+}
+
+/**
+ * Evaluate a condition expression or parsed tree, short-circuiting && and ||
+ */
+export async function evaluateCondition(condition: string | ConditionNode, context: RuleConditionContext): Promise<boolean> {
+    const node = typeof condition === 'string' ? parseCondition(condition) : condition;
+
+    switch (node.kind) {
+        case 'and':
+            return await evaluateCondition(node.left, context) && evaluateCondition(node.right, context);
+        case 'or':
+            return await evaluateCondition(node.left, context) || evaluateCondition(node.right, context);
+        case 'not':
+            return !(await evaluateCondition(node.operand, context));
+        case 'compare': {
+            const equal = getKeyValue(node.key, context) === node.value;
+            return node.operator === '==' ? equal : !equal;
+        }
+        case 'match': {
+            const value = getKeyValue(node.key, context);
+            return value !== undefined && node.pattern.test(value);
+        }
+        case 'defined':
+            return Boolean(getKeyValue(node.key, context));
+        case 'call':
+            return node.name === 'workspaceContains'
+                ? context.workspaceContains(node.argument)
+                : context.fileContains(node.argument);
+    }
+}
+
+function getKeyValue(key: ConditionKey, context: RuleConditionContext): string | undefined {
+    switch (key) {
+        case 'languageId':
+            return context.languageId;
+        case 'path':
+            return context.path;
+        case 'fileName':
+            return context.path?.split('/').pop();
+    }
+}
+
+function tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < expression.length) {
+        const char = expression[i];
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        const operator = OPERATORS.find(op => expression.startsWith(op, i));
+        if (operator) {
+            tokens.push({ type: operator, value: operator, position: i });
+            i += operator.length;
+            continue;
+        }
+
+        // A regular expression literal can only follow =~
+        if (char === '/' && tokens[tokens.length - 1]?.type === '=~') {
+            const end = findClosing(expression, i, '/');
+            const flags = /^[a-z]*/.exec(expression.slice(end + 1))![0];
+            if (!REGEX_FLAGS.test(flags)) {
+                throw new Error(`Unsupported regular expression flags "${flags}" at position ${end + 2}`);
+            }
+            let pattern: RegExp;
+            try {
+                pattern = new RegExp(expression.slice(i + 1, end), flags);
+            } catch (error) {
+                throw new Error(`${(error as Error).message} at position ${i + 1}`);
+            }
+            tokens.push({ type: 'regex', value: expression.slice(i, end + 1 + flags.length), position: i, pattern });
+            i = end + 1 + flags.length;
+            continue;
+        }
+
+        if (char === '"' || char === '\'') {
+            const end = findClosing(expression, i, char);
+            const value = expression.slice(i + 1, end).replace(/\\(.)/g, '$1');
+            tokens.push({ type: 'string', value, position: i });
+            i = end + 1;
+            continue;
+        }
+
+        if (char === '&' || char === '|' || char === '=') {
+            throw new Error(`Unexpected "${char}" at position ${i + 1}`);
+        }
+
+        const start = i;
+        while (i < expression.length && !WORD_BOUNDARY.test(expression[i])) {
+            i++;
+        }
+        tokens.push({ type: 'word', value: expression.slice(start, i), position: start });
+    }
+
+    return tokens;
+}
+
+/**
+ * Index of the unescaped delimiter closing a quoted string or regular expression
+ */
+function findClosing(expression: string, start: number, delimiter: string): number {
+    for (let i = start + 1; i < expression.length; i++) {
+        if (expression[i] === '\\') {
+            i++;
+        } else if (expression[i] === delimiter) {
+            return i;
+        }
+    }
+    throw new Error(`Missing closing ${delimiter} for the value at position ${start + 1}`);
+}
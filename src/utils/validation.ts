@@ -0,0 +1,133 @@
+import * as path from 'path';
+import { RULE_SCOPES, RuleScope } from '../constants';
+import { validateCondition } from './ruleCondition';
+
+/**
+ * Rule input validation, kept free of the vscode module so it can run outside the editor
+ */
+
+/**
+ * Validate rule text input
+ */
+export function validateRuleText(text: string): { isValid: boolean; error?: string } {
+    if (!text || text.trim().length === 0) {
+        return { isValid: false, error: 'Rule text cannot be empty' };
+    }
+
+    if (text.length > 500) {
+        return { isValid: false, error: 'Rule text must be less than 500 characters' };
+    }
+
+    return { isValid: true };
+}
+
+/**
+ * Sanitize user input
+ */
+export function sanitizeInput(input: string): string {
+    return input.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Validate a glob pattern for path-scoped rules
+ */
+export function validateGlobPattern(pattern: string): { isValid: boolean; error?: string } {
+    const trimmed = pattern.trim();
+    if (trimmed.length === 0) {
+        return { isValid: false, error: 'Glob pattern cannot be empty' };
+    }
+
+    if (path.isAbsolute(trimmed) || /^[a-zA-Z]:[\\/]/.test(trimmed)) {
+        return { isValid: false, error: 'Glob pattern must be relative to the workspace folder' };
+    }
+
+    let braceDepth = 0;
+    for (const char of trimmed) {
+        if (char === '{') {
+            braceDepth++;
+        } else if (char === '}' && --braceDepth < 0) {
+            break;
+        }
+    }
+    if (braceDepth !== 0) {
+        return { isValid: false, error: 'Glob pattern has unbalanced braces' };
+    }
+
+    return { isValid: true };
+}
+
+/** Custom scopes need validators registered by VS Code extensions, so only the Add Rule command creates them */
+export const NEW_RULE_SCOPES: RuleScope[] = RULE_SCOPES.filter(scope => scope !== 'custom');
+
+/**
+ * A rule to add from a language model tool, the MCP server or the command line, before validation
+ */
+export interface NewRuleInput {
+    ruleText?: unknown;
+    scope?: unknown;
+    languageScope?: unknown;
+    pathPatterns?: unknown;
+    condition?: unknown;
+}
+
+/**
+ * The fields of a valid new rule, trimmed, with only the fields its scope uses
+ */
+export interface NewRuleFields {
+    ruleText: string;
+    scope: RuleScope;
+    languageScope?: string;
+    pathPatterns?: string[];
+    condition?: string;
+}
+
+/**
+ * Validate a new rule; the scope defaults to global
+ */
+export function validateNewRule(input: NewRuleInput): { isValid: boolean; error?: string; rule?: NewRuleFields } {
+    const scope = (input.scope || 'global') as RuleScope;
+    if (!NEW_RULE_SCOPES.includes(scope)) {
+        return { isValid: false, error: `Scope must be one of ${NEW_RULE_SCOPES.join(', ')}` };
+    }
+
+    const ruleText = typeof input.ruleText === 'string' ? input.ruleText : '';
+    const textValidation = validateRuleText(ruleText);
+    if (!textValidation.isValid) {
+        return textValidation;
+    }
+
+    const languageScope = typeof input.languageScope === 'string' ? input.languageScope.trim() : '';
+    if (scope === 'language' && !languageScope) {
+        return { isValid: false, error: 'Language rules need a language ID' };
+    }
+
+    const pathPatterns = Array.isArray(input.pathPatterns)
+        ? input.pathPatterns.filter((pattern): pattern is string => typeof pattern === 'string').map(pattern => pattern.trim())
+        : [];
+    if (scope === 'path') {
+        if (pathPatterns.length === 0) {
+            return { isValid: false, error: 'Path rules need at least one glob pattern' };
+        }
+        const patternError = pathPatterns.map(pattern => validateGlobPattern(pattern).error).find(error => error);
+        if (patternError) {
+            return { isValid: false, error: patternError };
+        }
+    }
+
+    const condition = typeof input.condition === 'string' ? input.condition.trim() : '';
+    const conditionValidation = condition ? validateCondition(condition) : { isValid: true };
+    if (!conditionValidation.isValid) {
+        return { isValid: false, error: conditionValidation.error };
+    }
+
+    return {
+        isValid: true,
+        rule: {
+            ruleText: sanitizeInput(ruleText),
+            scope,
+            languageScope: scope === 'language' ? languageScope : undefined,
+            pathPatterns: scope === 'path' ? pathPatterns : undefined,
+            condition: condition || undefined
+        }
+    };
+}
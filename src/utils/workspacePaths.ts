@@ -0,0 +1,120 @@
+import * as path from 'path';
+import { DocumentLocation, HostFolder, WorkspaceAdapter, getHost } from '../core/host';
+import { LANGUAGE_FILE_GLOBS } from '../constants';
+
+/**
+ * Where documents sit in the workspace, through the host's workspace adapter
+ */
+
+/**
+ * Get the current active document's language ID
+ */
+export function getCurrentLanguageId(workspace: WorkspaceAdapter = getHost().workspace): string | undefined {
+    return workspace.getActiveDocument()?.languageId;
+}
+
+/**
+ * Guess a file's language ID from its name, for documents that are not open
+ */
+export function getLanguageIdForPath(filePath: string): string | undefined {
+    const fileName = path.basename(filePath);
+    return Object.keys(LANGUAGE_FILE_GLOBS).find(languageId => LANGUAGE_FILE_GLOBS[languageId]
+        .split(',')
+        .some(glob => globToRegExp(glob).test(fileName)));
+}
+
+/**
+ * Get the innermost workspace folder containing a document
+ */
+export function getWorkspaceFolder(
+    documentUri: DocumentLocation,
+    workspace: WorkspaceAdapter = getHost().workspace
+): HostFolder | undefined {
+    return workspace.getFolders()
+        .filter(folder => isInside(documentUri.fsPath, folder.fsPath))
+        .sort((a, b) => b.fsPath.length - a.fsPath.length)[0];
+}
+
+/**
+ * Get the path of the workspace folder containing a document, defaulting to the
+ * active editor's document and then to the first workspace folder
+ */
+export function getWorkspaceRoot(
+    documentUri?: DocumentLocation,
+    workspace: WorkspaceAdapter = getHost().workspace
+): string | undefined {
+    const uri = documentUri || workspace.getActiveDocument()?.location;
+    const folder = uri ? getWorkspaceFolder(uri, workspace) : undefined;
+    return (folder || workspace.getFolders()[0])?.fsPath;
+}
+
+/**
+ * Convert a glob pattern (**, *, ?, {a,b} and [abc]) to a regular expression matching a whole relative path
+ */
+export function globToRegExp(pattern: string): RegExp {
+    // "src/" means everything under src
+    const glob = pattern.trim().replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/$/, '/**');
+    let source = '';
+    let braceDepth = 0;
+
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*' && glob[i + 1] === '*') {
+            i++;
+            if (glob[i + 1] === '/') {
+                i++;
+                source += '(?:.*/)?'; // Zero or more directories
+            } else {
+                source += '.*';
+            }
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{') {
+            braceDepth++;
+            source += '(?:';
+        } else if (char === '}' && braceDepth > 0) {
+            braceDepth--;
+            source += ')';
+        } else if (char === ',' && braceDepth > 0) {
+            source += '|';
+        } else if (char === '[' && glob.indexOf(']', i + 1) > i + 1) {
+            const end = glob.indexOf(']', i + 1);
+            const set = glob.slice(i + 1, end).replace(/^!/, '^');
+            source += `[${set}]`;
+            i = end;
+        } else {
+            source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Get a document's path relative to its workspace folder, with forward slashes
+ */
+export function getRelativePath(documentUri: DocumentLocation, workspace: WorkspaceAdapter = getHost().workspace): string {
+    const folder = getWorkspaceFolder(documentUri, workspace);
+    return (folder ? path.relative(folder.fsPath, documentUri.fsPath) : documentUri.fsPath)
+        .replace(/\\/g, '/')
+        .replace(/^\//, '');
+}
+
+/**
+ * Check whether a document matches any of the glob patterns, relative to its workspace folder
+ */
+export function matchesPathPatterns(
+    documentUri: DocumentLocation,
+    patterns: string[],
+    workspace: WorkspaceAdapter = getHost().workspace
+): boolean {
+    const relativePath = getRelativePath(documentUri, workspace);
+    return patterns.some(pattern => globToRegExp(pattern).test(relativePath));
+}
+
+function isInside(filePath: string, folderPath: string): boolean {
+    const relative = path.relative(folderPath, filePath);
+    return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}